@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Vite plugin for the installable, offline-capable app: writes the web app
+// manifest and icons (derived from public/logo.png when there is one) and a
+// service worker that precaches everything the build emits.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+const APP_NAME = '蔡哥保平安【提词器】';
+const SHORT_NAME = '蔡哥提词器';
+const THEME_COLOR = '#000000';
+const ACCENT_COLOR = '#10b981';
+const ICON_SIZE = 512;
+
+const SW_SOURCE = path.resolve(import.meta.dirname, 'sw.js');
+const OFFLINE_SOURCE = path.resolve(import.meta.dirname, 'offline.html');
+
+interface Logo {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+// Width and height from the PNG header (IHDR is always the first chunk)
+function readLogo(publicDir: string): Logo | null {
+  const file = path.join(publicDir, 'logo.png');
+  if (!fs.existsSync(file)) return null;
+  const data = fs.readFileSync(file);
+  if (data.length < 24 || data.toString('ascii', 12, 16) !== 'IHDR') return null;
+  return {
+    dataUrl: `data:image/png;base64,${data.toString('base64')}`,
+    width: data.readUInt32BE(16),
+    height: data.readUInt32BE(20)
+  };
+}
+
+/**
+ * A square icon on the app's black background. `inset` is the fraction kept
+ * clear around the logo: maskable icons need the middle 80% to survive cropping.
+ */
+function createIcon(logo: Logo | null, inset: number, rounded: boolean): string {
+  const box = ICON_SIZE * (1 - inset * 2);
+  const offset = ICON_SIZE * inset;
+  const radius = rounded ? ICON_SIZE * 0.2 : 0;
+  const content = logo
+    ? `<image href="${logo.dataUrl}" x="${offset}" y="${offset}" width="${box}" height="${box}" preserveAspectRatio="xMidYMid meet"/>`
+    : `<text x="50%" y="50%" dominant-baseline="central" text-anchor="middle" font-family="sans-serif" font-weight="bold" font-size="${box * 0.7}" fill="${ACCENT_COLOR}">提</text>`;
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${ICON_SIZE} ${ICON_SIZE}" width="${ICON_SIZE}" height="${ICON_SIZE}">`
+    + `<rect width="${ICON_SIZE}" height="${ICON_SIZE}" rx="${radius}" fill="${THEME_COLOR}"/>${content}</svg>`;
+}
+
+function createAssets(publicDir: string): Record<string, string> {
+  const logo = readLogo(publicDir);
+  const icons: object[] = [
+    { src: '/icons/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+    { src: '/icons/maskable.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' }
+  ];
+  // Installers that want raster icons take the logo itself when it is square
+  if (logo && logo.width === logo.height) {
+    icons.push({ src: '/logo.png', sizes: `${logo.width}x${logo.height}`, type: 'image/png', purpose: 'any' });
+  }
+  const manifest = {
+    name: APP_NAME,
+    short_name: SHORT_NAME,
+    description: '专业口播提词器，支持高清录制、自定义文字及专业音频采集。',
+    lang: 'zh-CN',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    orientation: 'any',
+    background_color: THEME_COLOR,
+    theme_color: THEME_COLOR,
+    icons
+  };
+  return {
+    'manifest.webmanifest': JSON.stringify(manifest, null, 2),
+    'icons/icon.svg': createIcon(logo, 0.1, true),
+    'icons/maskable.svg': createIcon(logo, 0.2, false),
+    'offline.html': fs.readFileSync(OFFLINE_SOURCE, 'utf-8')
+  };
+}
+
+function listFiles(dir: string, base = dir): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(full, base) : [path.relative(base, full).split(path.sep).join('/')];
+  });
+}
+
+export function pwa(): Plugin {
+  let config: ResolvedConfig;
+
+  return {
+    name: 'teleprompter-pwa',
+    enforce: 'post',
+
+    config(_, { command }) {
+      // The app only registers the worker in builds; in dev it would cache stale modules
+      return { define: { 'process.env.PWA_ENABLED': JSON.stringify(command === 'build' ? 'true' : '') } };
+    },
+
+    configResolved(resolved) {
+      config = resolved;
+    },
+
+    // Dev server still serves the manifest and icons so the install metadata can be checked
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const name = req.url?.split('?')[0].replace(/^\//, '') ?? '';
+        const assets = createAssets(config.publicDir);
+        if (!(name in assets)) return next();
+        res.setHeader('Content-Type', name.endsWith('.svg') ? 'image/svg+xml' : name.endsWith('.html') ? 'text/html' : 'application/manifest+json');
+        res.end(assets[name]);
+      });
+    },
+
+    transformIndexHtml() {
+      return [
+        { tag: 'link', attrs: { rel: 'manifest', href: '/manifest.webmanifest' }, injectTo: 'head' },
+        { tag: 'meta', attrs: { name: 'theme-color', content: THEME_COLOR }, injectTo: 'head' },
+        { tag: 'link', attrs: { rel: 'icon', href: '/icons/icon.svg', type: 'image/svg+xml' }, injectTo: 'head' }
+      ];
+    },
+
+    generateBundle(_, bundle) {
+      const assets = createAssets(config.publicDir);
+      for (const [fileName, source] of Object.entries(assets)) {
+        this.emitFile({ type: 'asset', fileName, source });
+      }
+
+      const files = [
+        ...Object.keys(bundle).filter(name => !name.endsWith('.map')),
+        ...listFiles(config.publicDir)
+      ];
+      const precache = [...new Set(files)].sort().map(name => `/${name}`);
+      // Bundle names carry content hashes; index.html and public files are hashed here
+      const hash = crypto.createHash('sha256');
+      for (const name of precache) {
+        hash.update(name);
+        const asset = bundle[name.slice(1)];
+        if (asset?.type === 'asset') hash.update(asset.source);
+        else if (!asset) hash.update(fs.readFileSync(path.join(config.publicDir, name)));
+      }
+      const version = hash.digest('hex').slice(0, 12);
+
+      const worker = fs.readFileSync(SW_SOURCE, 'utf-8')
+        .replace('__PWA_VERSION__', JSON.stringify(version))
+        .replace('__PWA_PRECACHE__', JSON.stringify(precache, null, 2));
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: worker });
+    }
+  };
+}
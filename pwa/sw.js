@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Service worker: precaches the built app so it opens with no network on location.
+// The precache list and version are filled in by pwa/plugin.ts at build time; a new
+// deploy changes this file, the browser installs the new worker, and it waits
+// until the app asks it to take over (the in-app update prompt).
+
+const VERSION = __PWA_VERSION__;
+const PRECACHE = __PWA_PRECACHE__;
+const CACHE_PREFIX = 'teleprompter-';
+const CACHE = `${CACHE_PREFIX}${VERSION}`;
+const APP_SHELL = '/index.html';
+const OFFLINE_PAGE = '/offline.html';
+// Served live: the two-device relay and the sync API
+const NETWORK_ONLY = ['/relay', '/api/'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    for (const key of await caches.keys()) {
+      if (key.startsWith(CACHE_PREFIX) && key !== CACHE) await caches.delete(key);
+    }
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data === 'skipWaiting') self.skipWaiting();
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+  if (NETWORK_ONLY.some(prefix => url.pathname.startsWith(prefix))) return;
+
+  // Every page is the single-page app, so navigations get the cached shell
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      const shell = await caches.match(APP_SHELL);
+      if (shell) return shell;
+      try {
+        return await fetch(request);
+      } catch {
+        return (await caches.match(OFFLINE_PAGE)) ?? Response.error();
+      }
+    })());
+    return;
+  }
+
+  event.respondWith(caches.match(request).then(cached => cached ?? fetch(request)));
+});
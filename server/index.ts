@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Local server: serves the built app from dist/, hosts the two-device relay and
+// the team sync API (SQLite, see syncApi.ts). Runs entirely on the LAN. Browsers
+// only allow camera access on https or localhost, so point SSL_KEY_FILE /
+// SSL_CERT_FILE at a certificate when the recording phone connects over the network.
+
+import 'dotenv/config';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import { attachRelay } from './relay';
+import { createSyncApi } from './syncApi';
+import { getSyncDbFile, SyncStore } from './syncStore';
+import { SYNC_API_PATH } from '../src/lib/syncProtocol';
+
+const PORT = Number(process.env.PORT) || 8080;
+const DIST_DIR = path.resolve(import.meta.dirname, '../dist');
+
+const syncStore = new SyncStore(getSyncDbFile());
+
+const app = express();
+app.use(SYNC_API_PATH, createSyncApi(syncStore, process.env.SYNC_ALLOWED_ORIGIN || '*'));
+app.use(express.static(DIST_DIR));
+app.get('*', (_req, res) => {
+  res.sendFile(path.join(DIST_DIR, 'index.html'));
+});
+
+const { SSL_KEY_FILE, SSL_CERT_FILE } = process.env;
+const useHttps = !!(SSL_KEY_FILE && SSL_CERT_FILE);
+const server = useHttps
+  ? https.createServer({ key: fs.readFileSync(SSL_KEY_FILE!), cert: fs.readFileSync(SSL_CERT_FILE!) }, app)
+  : http.createServer(app);
+
+attachRelay(server);
+
+server.listen(PORT, '0.0.0.0', () => {
+  const scheme = useHttps ? 'https' : 'http';
+  console.log(`Teleprompter server running on ${scheme}://localhost:${PORT}`);
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    for (const address of addresses ?? []) {
+      if (address.family === 'IPv4' && !address.internal) {
+        console.log(`  LAN: ${scheme}://${address.address}:${PORT}`);
+      }
+    }
+  }
+});
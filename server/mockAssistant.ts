@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Deterministic stand-in for the script assistant, for developing and testing
+// the assistant UI without a Gemini key. Point ASSISTANT_API_URL at
+// http://localhost:8787/generate and run `npm run mock:assistant`.
+
+import express from 'express';
+import type { AssistantRequest } from '../src/lib/assistant';
+
+const PORT = Number(process.env.MOCK_ASSISTANT_PORT) || 8787;
+const DELAY_MS = 600;
+
+function respond({ task, text }: AssistantRequest): string {
+  switch (task.type) {
+    case 'rewrite':
+      return text.replace(/，/g, '，\n').replace(/。/g, '！');
+    case 'shorten':
+      return Array.from(text).slice(0, task.targetChars).join('');
+    case 'hooks':
+      return Array.from({ length: task.count }, (_, i) => `开场 ${i + 1}：你知道吗？${Array.from(text).slice(0, 12).join('')}…`).join('\n---\n');
+    case 'translate':
+      return `[${task.language}] ${text}`;
+  }
+}
+
+const app = express();
+app.use(express.json({ limit: '1mb' }));
+app.use((_req, res, next) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  next();
+});
+app.options('/generate', (_req, res) => {
+  res.sendStatus(204);
+});
+app.post('/generate', (req, res) => {
+  const request = req.body as AssistantRequest;
+  if (!request?.task?.type || typeof request.text !== 'string') {
+    res.status(400).json({ error: 'Expected an AssistantRequest' });
+    return;
+  }
+  setTimeout(() => res.json({ text: respond(request) }), DELAY_MS);
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock assistant listening on http://localhost:${PORT}/generate`);
+});
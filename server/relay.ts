@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// WebSocket relay for two-device mode. A recording device registers as host and
+// gets a six-digit pairing code; controllers join with that code. The relay only
+// forwards payloads inside a room, so it needs no internet access and keeps no state
+// beyond the open connections.
+
+import type { Server } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { RelayEvent, RelayRequest } from '../src/lib/remoteProtocol';
+import { RELAY_PATH } from '../src/lib/remoteProtocol';
+
+interface Room {
+  host: WebSocket;
+  controllers: Set<WebSocket>;
+}
+
+const HEARTBEAT_MS = 30_000;
+// Wrong pairing codes one socket may try before it is closed, so codes can't be guessed
+const MAX_JOIN_FAILURES = 5;
+
+// Anything can connect on the LAN; a malformed frame must not take the server down
+function isRelayRequest(value: unknown): value is RelayRequest {
+  if (typeof value !== 'object' || value === null) return false;
+  const request = value as Record<string, unknown>;
+  switch (request.type) {
+    case 'host':
+      return request.code === undefined || typeof request.code === 'string';
+    case 'join':
+      return typeof request.code === 'string';
+    case 'relay':
+      return true;
+    default:
+      return false;
+  }
+}
+
+export function attachRelay(server: Server) {
+  const wss = new WebSocketServer({ server, path: RELAY_PATH });
+  const rooms = new Map<string, Room>();
+  const alive = new WeakSet<WebSocket>();
+
+  const send = (socket: WebSocket, event: RelayEvent) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(event));
+  };
+
+  const createCode = () => {
+    let code: string;
+    do {
+      code = String(Math.floor(100000 + Math.random() * 900000));
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const notifyPeers = (room: Room) => send(room.host, { type: 'peers', count: room.controllers.size });
+
+  wss.on('connection', socket => {
+    let code: string | null = null;
+    let isHost = false;
+    let joinFailures = 0;
+    alive.add(socket);
+    socket.on('pong', () => alive.add(socket));
+
+    socket.on('message', data => {
+      let request: unknown;
+      try {
+        request = JSON.parse(data.toString());
+      } catch {
+        request = null;
+      }
+      if (!isRelayRequest(request)) {
+        send(socket, { type: 'error', message: 'Invalid message' });
+        return;
+      }
+
+      switch (request.type) {
+        case 'host': {
+          // A reconnecting host may reclaim its previous code if nobody else holds it
+          const existing = request.code ? rooms.get(request.code) : undefined;
+          const reclaim = request.code && /^\d{6}$/.test(request.code) && (!existing || existing.host.readyState !== WebSocket.OPEN);
+          code = reclaim ? request.code! : createCode();
+          isHost = true;
+          const room: Room = { host: socket, controllers: reclaim && existing ? existing.controllers : new Set() };
+          rooms.set(code, room);
+          send(socket, { type: 'code', code });
+          notifyPeers(room);
+          break;
+        }
+        case 'join': {
+          const room = rooms.get(request.code);
+          if (!room) {
+            send(socket, { type: 'error', message: 'Pairing code not found' });
+            joinFailures += 1;
+            if (joinFailures >= MAX_JOIN_FAILURES) socket.close(1008, 'Too many pairing attempts');
+            return;
+          }
+          code = request.code;
+          room.controllers.add(socket);
+          send(socket, { type: 'joined', code });
+          notifyPeers(room);
+          break;
+        }
+        case 'relay': {
+          const room = code ? rooms.get(code) : undefined;
+          if (!room) return;
+          const event: RelayEvent = { type: 'relay', payload: request.payload };
+          if (isHost) {
+            room.controllers.forEach(controller => send(controller, event));
+          } else {
+            send(room.host, event);
+          }
+          break;
+        }
+      }
+    });
+
+    socket.on('close', () => {
+      const room = code ? rooms.get(code) : undefined;
+      if (!room) return;
+      if (isHost && room.host === socket) {
+        room.controllers.forEach(controller => send(controller, { type: 'hostLeft' }));
+        if (room.controllers.size === 0) rooms.delete(code!);
+      } else {
+        room.controllers.delete(socket);
+        notifyPeers(room);
+        if (room.controllers.size === 0 && room.host.readyState !== WebSocket.OPEN) rooms.delete(code!);
+      }
+    });
+  });
+
+  // Drop connections that vanished without a close frame (phone locked, Wi-Fi lost)
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(socket => {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        return;
+      }
+      alive.delete(socket);
+      socket.ping();
+    });
+  }, HEARTBEAT_MS);
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+}
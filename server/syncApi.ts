@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// REST API for team sync (see src/lib/syncProtocol.ts). Every request carries
+// `Authorization: Bearer <token>`; tokens are issued with `npm run sync:user`.
+
+import express from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import type {
+  ChangesResponse, ConflictResponse, FolderWrite, MeResponse, ScriptWrite, SettingsWrite
+} from '../src/lib/syncProtocol';
+import { pickSyncedPreferences, RECORD_ID_PATTERN } from '../src/lib/syncProtocol';
+import { SyncStore, SyncUser, WriteResult } from './syncStore';
+
+const BODY_LIMIT = '2mb';
+
+type AuthedResponse = Response<unknown, { user: SyncUser }>;
+
+function sendWrite<T>(res: Response, result: WriteResult<T> | null) {
+  if (!result) {
+    res.status(404).json({ error: 'Not found' });
+  } else if ('current' in result) {
+    const body: ConflictResponse<T> = { error: 'conflict', current: result.current };
+    res.status(409).json(body);
+  } else {
+    res.json(result.record);
+  }
+}
+
+function isRevision(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isScriptWrite(body: unknown): body is ScriptWrite {
+  return isRecord(body)
+    && isRevision(body.baseRevision)
+    && typeof body.title === 'string'
+    && typeof body.text === 'string'
+    && isRecord(body.config)
+    && (body.folderId === null || (typeof body.folderId === 'string' && RECORD_ID_PATTERN.test(body.folderId)))
+    && typeof body.createdAt === 'number';
+}
+
+function isFolderWrite(body: unknown): body is FolderWrite {
+  return isRecord(body) && isRevision(body.baseRevision) && typeof body.name === 'string' && body.name.trim() !== '';
+}
+
+function isSettingsWrite(body: unknown): body is SettingsWrite {
+  return isRecord(body) && isRevision(body.baseRevision) && isRecord(body.data);
+}
+
+export function createSyncApi(store: SyncStore, allowedOrigin = '*') {
+  const router = express.Router();
+  router.use(express.json({ limit: BODY_LIMIT }));
+
+  // The app may be hosted statically elsewhere; tokens travel in a header, not cookies
+  router.use((req, res, next) => {
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(204);
+      return;
+    }
+    next();
+  });
+
+  router.use((req: Request, res: AuthedResponse, next: NextFunction) => {
+    const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+    const user = token ? store.authenticate(token) : null;
+    if (!user) {
+      res.status(401).json({ error: 'Invalid token' });
+      return;
+    }
+    res.locals.user = user;
+    next();
+  });
+
+  router.param('id', (_req, res, next, id: string) => {
+    if (!RECORD_ID_PATTERN.test(id)) {
+      res.status(400).json({ error: 'Invalid id' });
+      return;
+    }
+    next();
+  });
+
+  router.get('/me', (_req, res: AuthedResponse) => {
+    const body: MeResponse = { user: res.locals.user };
+    res.json(body);
+  });
+
+  router.get('/changes', (req, res: AuthedResponse) => {
+    const since = Number(req.query.since ?? 0);
+    if (!isRevision(since)) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
+    }
+    const body: ChangesResponse = store.changesSince(res.locals.user, since);
+    res.json(body);
+  });
+
+  router.get('/scripts', (_req, res) => {
+    res.json(store.listScripts());
+  });
+
+  router.get('/scripts/:id', (req, res) => {
+    const script = store.getScript(req.params.id);
+    if (script) res.json(script);
+    else res.status(404).json({ error: 'Not found' });
+  });
+
+  router.put('/scripts/:id', (req, res: AuthedResponse) => {
+    if (!isScriptWrite(req.body)) {
+      res.status(400).json({ error: 'Expected a ScriptWrite' });
+      return;
+    }
+    sendWrite(res, store.putScript(req.params.id, req.body, res.locals.user));
+  });
+
+  router.delete('/scripts/:id', (req, res: AuthedResponse) => {
+    const baseRevision = Number(req.query.baseRevision);
+    if (!isRevision(baseRevision)) {
+      res.status(400).json({ error: 'Expected baseRevision' });
+      return;
+    }
+    sendWrite(res, store.deleteScript(req.params.id, baseRevision, res.locals.user));
+  });
+
+  router.get('/folders', (_req, res) => {
+    res.json(store.listFolders());
+  });
+
+  router.put('/folders/:id', (req, res: AuthedResponse) => {
+    if (!isFolderWrite(req.body)) {
+      res.status(400).json({ error: 'Expected a FolderWrite' });
+      return;
+    }
+    sendWrite(res, store.putFolder(req.params.id, { ...req.body, name: req.body.name.trim() }, res.locals.user));
+  });
+
+  router.delete('/folders/:id', (req, res: AuthedResponse) => {
+    const baseRevision = Number(req.query.baseRevision);
+    if (!isRevision(baseRevision)) {
+      res.status(400).json({ error: 'Expected baseRevision' });
+      return;
+    }
+    sendWrite(res, store.deleteFolder(req.params.id, baseRevision, res.locals.user));
+  });
+
+  router.get('/settings', (_req, res: AuthedResponse) => {
+    res.json(store.getSettings(res.locals.user));
+  });
+
+  router.put('/settings', (req, res: AuthedResponse) => {
+    if (!isSettingsWrite(req.body)) {
+      res.status(400).json({ error: 'Expected a SettingsWrite' });
+      return;
+    }
+    // Only store what clients apply, so one bad client can't push device-local keys to the team
+    const write: SettingsWrite = { baseRevision: req.body.baseRevision, data: pickSyncedPreferences(req.body.data) };
+    sendWrite(res, store.putSettings(res.locals.user, write));
+  });
+
+  router.use((_req, res) => {
+    res.status(404).json({ error: 'Not found' });
+  });
+
+  return router;
+}
@@ -0,0 +1,336 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// SQLite storage for team sync: users and their tokens, shared scripts and
+// folders, and per-user settings. Every write takes the next value of a global
+// sequence, which is the cursor clients pull changes from.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type {
+  FolderWrite, RemoteFolder, RemoteScript, RemoteSettings, ScriptWrite, SettingsWrite
+} from '../src/lib/syncProtocol';
+
+export interface SyncUser {
+  id: string;
+  name: string;
+}
+
+export type WriteResult<T> =
+  | { ok: true; record: T }
+  | { ok: false; current: T };
+
+// Each entry upgrades the schema by one version (PRAGMA user_version)
+const MIGRATIONS = [
+  `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    token_hash TEXT NOT NULL UNIQUE,
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE folders (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    seq INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    updated_by TEXT NOT NULL,
+    deleted INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE scripts (
+    id TEXT PRIMARY KEY,
+    folder_id TEXT,
+    title TEXT NOT NULL,
+    text TEXT NOT NULL,
+    config TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    revision INTEGER NOT NULL,
+    seq INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    updated_by TEXT NOT NULL,
+    deleted INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE settings (
+    user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    data TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    seq INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE meta (
+    key TEXT PRIMARY KEY,
+    value INTEGER NOT NULL
+  );
+  INSERT INTO meta (key, value) VALUES ('seq', 0);
+  CREATE INDEX scripts_seq ON scripts (seq);
+  CREATE INDEX folders_seq ON folders (seq);
+  `,
+];
+
+interface ScriptRow {
+  id: string;
+  folder_id: string | null;
+  title: string;
+  text: string;
+  config: string;
+  created_at: number;
+  revision: number;
+  seq: number;
+  updated_at: number;
+  updated_by: string;
+  deleted: number;
+}
+
+interface FolderRow {
+  id: string;
+  name: string;
+  revision: number;
+  seq: number;
+  updated_at: number;
+  updated_by: string;
+  deleted: number;
+}
+
+interface SettingsRow {
+  data: string;
+  revision: number;
+  seq: number;
+  updated_at: number;
+}
+
+/** SYNC_DB_FILE, or data/sync.db next to the server */
+export function getSyncDbFile(): string {
+  return process.env.SYNC_DB_FILE || path.resolve(import.meta.dirname, '../data/sync.db');
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function toScript(row: ScriptRow): RemoteScript {
+  return {
+    id: row.id,
+    folderId: row.folder_id,
+    title: row.title,
+    text: row.text,
+    config: JSON.parse(row.config),
+    createdAt: row.created_at,
+    revision: row.revision,
+    updatedAt: row.updated_at,
+    updatedBy: row.updated_by,
+    deleted: row.deleted === 1
+  };
+}
+
+function toFolder(row: FolderRow): RemoteFolder {
+  return {
+    id: row.id,
+    name: row.name,
+    revision: row.revision,
+    updatedAt: row.updated_at,
+    updatedBy: row.updated_by,
+    deleted: row.deleted === 1
+  };
+}
+
+function toSettings(row: SettingsRow): RemoteSettings {
+  return { data: JSON.parse(row.data), revision: row.revision, updatedAt: row.updated_at };
+}
+
+export class SyncStore {
+  private db: Database.Database;
+
+  constructor(file: string) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.migrate();
+  }
+
+  private migrate() {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    for (let v = version; v < MIGRATIONS.length; v++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[v]);
+        this.db.pragma(`user_version = ${v + 1}`);
+      })();
+    }
+  }
+
+  private nextSeq(): number {
+    return (this.db.prepare(`UPDATE meta SET value = value + 1 WHERE key = 'seq' RETURNING value`).get() as { value: number }).value;
+  }
+
+  // Users
+
+  /** Creates a team member and returns their token; only its hash is stored. */
+  addUser(name: string): string {
+    const token = crypto.randomBytes(24).toString('base64url');
+    this.db.prepare('INSERT INTO users (id, name, token_hash, created_at) VALUES (?, ?, ?, ?)')
+      .run(crypto.randomUUID(), name, hashToken(token), Date.now());
+    return token;
+  }
+
+  /** Issues a new token, invalidating the old one. */
+  resetToken(name: string): string | null {
+    const token = crypto.randomBytes(24).toString('base64url');
+    const { changes } = this.db.prepare('UPDATE users SET token_hash = ? WHERE name = ?').run(hashToken(token), name);
+    return changes > 0 ? token : null;
+  }
+
+  removeUser(name: string): boolean {
+    return this.db.prepare('DELETE FROM users WHERE name = ?').run(name).changes > 0;
+  }
+
+  listUsers(): (SyncUser & { createdAt: number })[] {
+    return (this.db.prepare('SELECT id, name, created_at FROM users ORDER BY name').all() as { id: string; name: string; created_at: number }[])
+      .map(row => ({ id: row.id, name: row.name, createdAt: row.created_at }));
+  }
+
+  authenticate(token: string): SyncUser | null {
+    const row = this.db.prepare('SELECT id, name FROM users WHERE token_hash = ?').get(hashToken(token)) as SyncUser | undefined;
+    return row ?? null;
+  }
+
+  // Changes
+
+  changesSince(user: SyncUser, since: number) {
+    const scripts = (this.db.prepare('SELECT * FROM scripts WHERE seq > ? ORDER BY seq').all(since) as ScriptRow[]);
+    const folders = (this.db.prepare('SELECT * FROM folders WHERE seq > ? ORDER BY seq').all(since) as FolderRow[]);
+    const settings = this.db.prepare('SELECT * FROM settings WHERE user_id = ? AND seq > ?').get(user.id, since) as SettingsRow | undefined;
+    const cursor = (this.db.prepare(`SELECT value FROM meta WHERE key = 'seq'`).get() as { value: number }).value;
+    return {
+      cursor,
+      scripts: scripts.map(toScript),
+      folders: folders.map(toFolder),
+      settings: settings ? toSettings(settings) : null
+    };
+  }
+
+  // Scripts
+
+  getScript(id: string): RemoteScript | null {
+    const row = this.db.prepare('SELECT * FROM scripts WHERE id = ?').get(id) as ScriptRow | undefined;
+    return row ? toScript(row) : null;
+  }
+
+  listScripts(): RemoteScript[] {
+    return (this.db.prepare('SELECT * FROM scripts WHERE deleted = 0 ORDER BY updated_at DESC').all() as ScriptRow[]).map(toScript);
+  }
+
+  putScript(id: string, write: ScriptWrite, user: SyncUser): WriteResult<RemoteScript> {
+    return this.db.transaction((): WriteResult<RemoteScript> => {
+      const current = this.getScript(id);
+      if (current && current.revision !== write.baseRevision) return { ok: false, current };
+      this.db.prepare(`
+        INSERT INTO scripts (id, folder_id, title, text, config, created_at, revision, seq, updated_at, updated_by, deleted)
+        VALUES (@id, @folderId, @title, @text, @config, @createdAt, @revision, @seq, @updatedAt, @updatedBy, 0)
+        ON CONFLICT (id) DO UPDATE SET
+          folder_id = @folderId, title = @title, text = @text, config = @config, revision = @revision,
+          seq = @seq, updated_at = @updatedAt, updated_by = @updatedBy, deleted = 0
+      `).run({
+        id,
+        folderId: write.folderId,
+        title: write.title,
+        text: write.text,
+        config: JSON.stringify(write.config),
+        createdAt: write.createdAt,
+        revision: (current?.revision ?? 0) + 1,
+        seq: this.nextSeq(),
+        updatedAt: Date.now(),
+        updatedBy: user.name
+      });
+      return { ok: true, record: this.getScript(id)! };
+    })();
+  }
+
+  deleteScript(id: string, baseRevision: number, user: SyncUser): WriteResult<RemoteScript> | null {
+    return this.db.transaction((): WriteResult<RemoteScript> | null => {
+      const current = this.getScript(id);
+      if (!current) return null;
+      if (current.revision !== baseRevision) return { ok: false, current };
+      this.db.prepare('UPDATE scripts SET deleted = 1, revision = revision + 1, seq = ?, updated_at = ?, updated_by = ? WHERE id = ?')
+        .run(this.nextSeq(), Date.now(), user.name, id);
+      return { ok: true, record: this.getScript(id)! };
+    })();
+  }
+
+  // Folders
+
+  getFolder(id: string): RemoteFolder | null {
+    const row = this.db.prepare('SELECT * FROM folders WHERE id = ?').get(id) as FolderRow | undefined;
+    return row ? toFolder(row) : null;
+  }
+
+  listFolders(): RemoteFolder[] {
+    return (this.db.prepare('SELECT * FROM folders WHERE deleted = 0 ORDER BY name').all() as FolderRow[]).map(toFolder);
+  }
+
+  putFolder(id: string, write: FolderWrite, user: SyncUser): WriteResult<RemoteFolder> {
+    return this.db.transaction((): WriteResult<RemoteFolder> => {
+      const current = this.getFolder(id);
+      if (current && current.revision !== write.baseRevision) return { ok: false, current };
+      this.db.prepare(`
+        INSERT INTO folders (id, name, revision, seq, updated_at, updated_by, deleted)
+        VALUES (@id, @name, @revision, @seq, @updatedAt, @updatedBy, 0)
+        ON CONFLICT (id) DO UPDATE SET
+          name = @name, revision = @revision, seq = @seq, updated_at = @updatedAt, updated_by = @updatedBy, deleted = 0
+      `).run({
+        id,
+        name: write.name,
+        revision: (current?.revision ?? 0) + 1,
+        seq: this.nextSeq(),
+        updatedAt: Date.now(),
+        updatedBy: user.name
+      });
+      return { ok: true, record: this.getFolder(id)! };
+    })();
+  }
+
+  // Scripts keep their folder id; clients show scripts of a deleted folder as unfiled
+  deleteFolder(id: string, baseRevision: number, user: SyncUser): WriteResult<RemoteFolder> | null {
+    return this.db.transaction((): WriteResult<RemoteFolder> | null => {
+      const current = this.getFolder(id);
+      if (!current) return null;
+      if (current.revision !== baseRevision) return { ok: false, current };
+      this.db.prepare('UPDATE folders SET deleted = 1, revision = revision + 1, seq = ?, updated_at = ?, updated_by = ? WHERE id = ?')
+        .run(this.nextSeq(), Date.now(), user.name, id);
+      return { ok: true, record: this.getFolder(id)! };
+    })();
+  }
+
+  // Settings
+
+  getSettings(user: SyncUser): RemoteSettings {
+    const row = this.db.prepare('SELECT * FROM settings WHERE user_id = ?').get(user.id) as SettingsRow | undefined;
+    return row ? toSettings(row) : { data: {}, revision: 0, updatedAt: 0 };
+  }
+
+  putSettings(user: SyncUser, write: SettingsWrite): WriteResult<RemoteSettings> {
+    return this.db.transaction((): WriteResult<RemoteSettings> => {
+      const current = this.getSettings(user);
+      if (current.revision !== write.baseRevision) return { ok: false, current };
+      this.db.prepare(`
+        INSERT INTO settings (user_id, data, revision, seq, updated_at) VALUES (@userId, @data, @revision, @seq, @updatedAt)
+        ON CONFLICT (user_id) DO UPDATE SET data = @data, revision = @revision, seq = @seq, updated_at = @updatedAt
+      `).run({
+        userId: user.id,
+        data: JSON.stringify(write.data),
+        revision: current.revision + 1,
+        seq: this.nextSeq(),
+        updatedAt: Date.now()
+      });
+      return { ok: true, record: this.getSettings(user) };
+    })();
+  }
+
+  close() {
+    this.db.close();
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Manages team sync accounts:
+//   npm run sync:user -- add <name>      create a member and print their token
+//   npm run sync:user -- reset <name>    issue a new token (the old one stops working)
+//   npm run sync:user -- remove <name>
+//   npm run sync:user -- list
+
+import 'dotenv/config';
+import { getSyncDbFile, SyncStore } from './syncStore';
+
+const [command, name] = process.argv.slice(2);
+const store = new SyncStore(getSyncDbFile());
+
+const requireName = () => {
+  if (!name) {
+    console.error(`Usage: npm run sync:user -- ${command} <name>`);
+    process.exit(1);
+  }
+  return name;
+};
+
+try {
+  switch (command) {
+    case 'add': {
+      const token = store.addUser(requireName());
+      console.log(`Created ${name}. Token (shown once):\n${token}`);
+      break;
+    }
+    case 'reset': {
+      const token = store.resetToken(requireName());
+      if (!token) throw new Error(`No user named ${name}`);
+      console.log(`New token for ${name} (shown once):\n${token}`);
+      break;
+    }
+    case 'remove':
+      if (!store.removeUser(requireName())) throw new Error(`No user named ${name}`);
+      console.log(`Removed ${name}`);
+      break;
+    case 'list':
+      for (const user of store.listUsers()) {
+        console.log(`${user.name}\t${new Date(user.createdAt).toLocaleString()}`);
+      }
+      break;
+    default:
+      console.error('Usage: npm run sync:user -- add|reset|remove <name> | list');
+      process.exitCode = 1;
+  }
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+} finally {
+  store.close();
+}
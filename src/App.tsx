@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { 
   Camera, 
   RotateCcw, 
@@ -16,47 +16,159 @@ import {
   ChevronUp, 
   ChevronDown,
   Download,
-  Trash2,
   Edit3,
   Check,
-  Share2
+  Share2,
+  Mic,
+  Library,
+  ListTree,
+  Keyboard,
+  FlipHorizontal2,
+  FlipVertical2,
+  VideoOff,
+  Maximize2,
+  MonitorSmartphone,
+  Timer,
+  Film,
+  FileVideo,
+  Video,
+  AudioLines,
+  Layers,
+  Captions,
+  Sparkles,
+  Upload,
+  FileDown,
+  Link2,
+  SquarePlus,
+  RefreshCw,
+  Cloud,
+  Monitor,
+  Languages
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-
-// Types
-interface TeleprompterConfig {
-  fontSize: number;
-  color: string;
-  speed: number;
-  opacity: number;
-}
+import { VoiceActivityDetector } from './lib/voiceActivity';
+import { PaceMode, TeleprompterConfig } from './types';
+import { useScriptLibrary } from './hooks/useScriptLibrary';
+import { ScriptLibrary } from './components/ScriptLibrary';
+import { ScriptView, PAUSE_SELECTOR } from './components/ScriptView';
+import { ScriptOutline } from './components/ScriptOutline';
+import { useParagraphNavigation, useFocusOffset } from './hooks/useParagraphNavigation';
+import { useInputBindings } from './hooks/useInputBindings';
+import { InputBindingsPanel } from './components/InputBindingsPanel';
+import { useRemoteHost } from './hooks/useRemote';
+import { RemotePanel } from './components/RemotePanel';
+import { ControllerMessage } from './lib/remoteProtocol';
+import { useRecorder } from './hooks/useRecorder';
+import { usePreference } from './hooks/usePreference';
+import { formatDuration, formatDurationText, formatFileSize } from './lib/format';
+import { useTakeGallery } from './hooks/useTakeGallery';
+import { TakeGallery } from './components/TakeGallery';
+import { useMp4Export } from './hooks/useMp4Export';
+import { canConvertToMp4, getBaseMimeType, getVideoExtension, getVideoFileName, isMp4 } from './lib/videoExport';
+import { DEFAULT_CAPTURE_SETTINGS } from './lib/mediaDevices';
+import { useMediaDevices } from './hooks/useMediaDevices';
+import { useCamera } from './hooks/useCamera';
+import { useWakeLock } from './hooks/useWakeLock';
+import { useRecordingRecovery } from './hooks/useRecordingRecovery';
+import { DeviceSettingsPanel } from './components/DeviceSettingsPanel';
+import { AUDIO_PRESETS, AudioPreset } from './lib/audioProcessing';
+import { useAudioProcessing } from './hooks/useAudioProcessing';
+import { LevelMeter } from './components/LevelMeter';
+import { ReadingProgress } from './components/ReadingProgress';
+import { useOverlayTemplates } from './hooks/useOverlayTemplates';
+import { useCompositor } from './hooks/useCompositor';
+import { CompositePanel } from './components/CompositePanel';
+import { useScrollTimeline } from './hooks/useScrollTimeline';
+import { buildCues } from './lib/subtitles';
+import { SubtitleEditor } from './components/SubtitleEditor';
+import { getAssistantProvider } from './lib/assistant';
+import { AssistantPanel } from './components/AssistantPanel';
+import { downloadBlob } from './lib/download';
+import { useScriptTransfer } from './hooks/useScriptTransfer';
+import { useFileDrop } from './hooks/useFileDrop';
+import { IMPORT_ACCEPT } from './lib/scriptTransfer';
+import { usePwa } from './hooks/usePwa';
+import { useFolders } from './hooks/useFolders';
+import { useSync } from './hooks/useSync';
+import { SyncPanel } from './components/SyncPanel';
+import { TypographyPanel } from './components/TypographyPanel';
+import { getScrollMask, getTextStyle, TEXT_COLORS, withAlpha } from './lib/typography';
+import { useScreenRecording } from './hooks/useScreenRecording';
+import { ScreenPanel } from './components/ScreenPanel';
+import { DEFAULT_SCREEN_LAYOUT, ScreenLayout } from './lib/screenCompositor';
+import { parseScript, getSpokenText, getTotalPauseSeconds } from './lib/scriptMarkup';
+import { countReadingUnits, estimateReadSeconds, formatPace, getTargetVelocity, PACE_SLIDERS, ScrollEngine, stepPace } from './lib/scrollEngine';
+import { useI18n } from './hooks/useI18n';
+import { Locale, LOCALE_NAMES, LocalePreference } from './lib/i18n';
 
 export default function App() {
+  const { t, locale, preference: localePreference, setPreference: setLocalePreference } = useI18n();
+  // Screen readers and the browser's translate offer go by the page language
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
   // Camera & Recording State
-  const [stream, setStream] = useState<MediaStream | null>(null);
-  const [isRecording, setIsRecording] = useState(false);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const recordedChunksRef = useRef<Blob[]>([]);
+  const [storedCapture, setCapture] = usePreference('captureSettings', DEFAULT_CAPTURE_SETTINGS);
+  const capture = useMemo(() => ({ ...DEFAULT_CAPTURE_SETTINGS, ...storedCapture }), [storedCapture]);
+  const camera = useCamera(capture, facingMode);
+  const { stream } = camera;
+  const mediaDevices = useMediaDevices(stream);
+  const [countdownSeconds, setCountdownSeconds] = usePreference('countdownSeconds', 3);
+  const [maxDurationSeconds, setMaxDurationSeconds] = usePreference('maxDurationSeconds', 0);
   
-  // Teleprompter State
-  const [text, setText] = useState('欢迎使用智能提词器！点击右侧编辑按钮修改文字。您可以调节滚动速度、字体大小和颜色。录制完成后，视频将自动生成下载链接。');
+  // Teleprompter State: text and config belong to the selected script
+  const library = useScriptLibrary();
+  const folders = useFolders();
+  const sync = useSync(library, folders);
+  const { text, config } = library.current;
+  const setText = (value: string) => library.updateCurrent({ text: value });
+  const setConfig = (value: TeleprompterConfig) => library.updateCurrent({ config: value });
+  const doc = useMemo(() => parseScript(text), [text]);
+  const spokenLength = useMemo(() => getSpokenText(doc).length, [doc]);
+  const hasPauses = useMemo(() => doc.blocks.some(b => b.type === 'paragraph' && b.spans.some(s => s.type === 'pause')), [doc]);
   const [isEditing, setIsEditing] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
   const [isScrolling, setIsScrolling] = useState(false);
-  const [config, setConfig] = useState<TeleprompterConfig>({
-    fontSize: 32,
-    color: '#ffffff',
-    speed: 2,
-    opacity: 0.4
-  });
   const [showSettings, setShowSettings] = useState(false);
+  const [showOutline, setShowOutline] = useState(false);
+  const [showBindings, setShowBindings] = useState(false);
+  const [showRemote, setShowRemote] = useState(false);
+  const [showGallery, setShowGallery] = useState(false);
+  const [showDevices, setShowDevices] = useState(false);
+  const [showComposite, setShowComposite] = useState(false);
+  const [showAssistant, setShowAssistant] = useState(false);
+  const [showSync, setShowSync] = useState(false);
+  const [showTypography, setShowTypography] = useState(false);
+  const [showScreen, setShowScreen] = useState(false);
+  const assistantAvailable = getAssistantProvider() !== null;
+  // Imports open in the editor; share links go straight to the prompter
+  const transfer = useScriptTransfer(library, (source) => {
+    setShowLibrary(false);
+    setIsEditing(source === 'import');
+  });
+  const editorDrop = useFileDrop(transfer.importFiles);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  useEffect(() => {
+    if (!isEditing) setShowAssistant(false);
+  }, [isEditing]);
+  const [remoteEnabled, setRemoteEnabled] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [textHeight, setTextHeight] = useState(0);
 
   // Refs
   const videoRef = useRef<HTMLVideoElement>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const textRef = useRef<HTMLDivElement>(null);
+  const focusLineRef = useRef<HTMLDivElement>(null);
   const requestRef = useRef<number | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const voiceDetectorRef = useRef<VoiceActivityDetector | null>(null);
+  const lastFrameRef = useRef<number | null>(null);
+  const scrollEngineRef = useRef(new ScrollEngine());
+  const isSpeakingRef = useRef(false);
+  const pauseUntilRef = useRef(0);
+  const passedPausesRef = useRef(new Set<Element>());
   
   // Dragging State Refs
   const isDragging = useRef(false);
@@ -64,90 +176,151 @@ export default function App() {
   const startScrollTop = useRef(0);
   const scrollPosRef = useRef(0);
 
-  // Initialize Camera
-  const initCamera = useCallback(async () => {
-    try {
-      // 1. Stop all existing tracks using the ref to ensure we catch everything
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => {
-          track.stop();
-        });
-        streamRef.current = null;
-      }
-      
-      // 2. Clear video source
-      if (videoRef.current) {
-        videoRef.current.srcObject = null;
-      }
+  // Camera Preview
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.srcObject = stream;
+    if (stream) video.play().catch(err => console.warn("Auto-play failed:", err));
+  }, [stream]);
 
-      // 3. Request new stream with flexible constraints
-      const constraints = {
-        video: { 
-          facingMode: { ideal: facingMode },
-          width: { ideal: 1280 },
-          height: { ideal: 720 }
-        },
-        audio: {
-          echoCancellation: false,
-          noiseSuppression: false,
-          autoGainControl: true
-        }
-      };
+  // Voice Tracking: falls back to fixed speed when there is no usable mic track
+  const voiceAvailable = VoiceActivityDetector.isSupported(stream);
+  const voiceActive = config.scrollMode === 'voice' && voiceAvailable;
 
-      const newStream = await navigator.mediaDevices.getUserMedia(constraints);
-      
-      streamRef.current = newStream;
-      setStream(newStream);
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = newStream;
-        try {
-          await videoRef.current.play();
-        } catch (playErr) {
-          console.warn("Auto-play failed:", playErr);
-        }
-      }
+  useEffect(() => {
+    if (!voiceActive || !stream) return;
+    let detector: VoiceActivityDetector;
+    try {
+      detector = new VoiceActivityDetector(stream);
     } catch (err) {
-      console.error("Error accessing camera:", err);
-      // Fallback to basic constraints
-      try {
-        const basicStream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
-        streamRef.current = basicStream;
-        setStream(basicStream);
-        if (videoRef.current) videoRef.current.srcObject = basicStream;
-      } catch (retryErr) {
-        console.error("Retry failed:", retryErr);
-      }
+      console.error("Voice tracking unavailable:", err);
+      return;
     }
-  }, [facingMode]);
+    voiceDetectorRef.current = detector;
+    return () => {
+      voiceDetectorRef.current = null;
+      detector.dispose();
+      isSpeakingRef.current = false;
+      setIsSpeaking(false);
+    };
+  }, [voiceActive, stream]);
 
   useEffect(() => {
-    initCamera();
-    return () => {
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
+    if (isScrolling) voiceDetectorRef.current?.resume();
+  }, [isScrolling, voiceActive]);
+
+  // Start each script from the top
+  useEffect(() => {
+    setIsScrolling(false);
+    scrollPosRef.current = 0;
+    if (scrollContainerRef.current) scrollContainerRef.current.scrollTop = 0;
+  }, [library.current.id]);
+
+  const focusOffsetRef = useFocusOffset(scrollContainerRef, focusLineRef, config.mirrorY, config.focusLinePosition);
+
+  // Returns true while a [pause] marker that just reached the focus line is holding the scroll.
+  // With trigger off, markers are only bookkept so a drag past them doesn't pause later.
+  const holdForPauseMarker = (time: number, trigger: boolean) => {
+    const container = scrollContainerRef.current;
+    if (!container || !textRef.current) return false;
+    const focusY = focusOffsetRef.current;
+    const passed = passedPausesRef.current;
+
+    textRef.current.querySelectorAll(PAUSE_SELECTOR).forEach((marker: HTMLElement) => {
+      const markerY = marker.offsetTop + marker.offsetHeight / 2 - container.scrollTop;
+      if (markerY > focusY) {
+        passed.delete(marker);
+      } else if (!passed.has(marker)) {
+        passed.add(marker);
+        if (trigger) pauseUntilRef.current = time + Number(marker.dataset.pauseSeconds) * 1000;
       }
-    };
-  }, [initCamera]);
+    });
+    return time < pauseUntilRef.current;
+  };
+
+  // Paragraph Navigation
+  const navigation = useParagraphNavigation({
+    containerRef: scrollContainerRef,
+    contentRef: textRef,
+    focusOffsetRef,
+    scrollPosRef,
+    lineHeight: config.fontSize * config.lineHeight,
+    // Pauses skipped over by a jump shouldn't fire afterwards
+    onJump: () => {
+      if (hasPauses) holdForPauseMarker(performance.now(), false);
+    }
+  });
+
+  // Scroll speed and estimated read time for the current pace
+  useEffect(() => {
+    const el = textRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setTextHeight(el.offsetHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const scriptMetrics = useMemo(() => ({
+    textHeight,
+    units: countReadingUnits(getSpokenText(doc)),
+    pauseSeconds: getTotalPauseSeconds(doc)
+  }), [doc, textHeight]);
+  const targetVelocity = getTargetVelocity(config, scriptMetrics);
+  const paceSlider = PACE_SLIDERS[config.paceMode];
+
+  const estimatedSeconds = useMemo(() => {
+    if (voiceActive) return spokenLength / 4 + scriptMetrics.pauseSeconds;
+    return estimateReadSeconds(config, scriptMetrics);
+  }, [voiceActive, spokenLength, scriptMetrics, config.paceMode, config.speed, config.charsPerMinute, config.targetSeconds]);
 
-  // Scrolling Logic
-  const animate = useCallback(() => {
-    if (isScrolling && scrollContainerRef.current && !isDragging.current) {
-      scrollPosRef.current += config.speed * 0.3; // Base speed
+  // Scrolling Logic: velocity is integrated over real frame time, easing in and out
+  const animate = useCallback((time: number) => {
+    const dt = lastFrameRef.current === null ? 0 : Math.min((time - lastFrameRef.current) / 1000, 0.25);
+    lastFrameRef.current = time;
+
+    const voice = voiceDetectorRef.current?.sample(time);
+    if (voice && voice.speaking !== isSpeakingRef.current) {
+      isSpeakingRef.current = voice.speaking;
+      setIsSpeaking(voice.speaking);
+    }
+
+    const engine = scrollEngineRef.current;
+    // After a stop the text coasts to rest before manual scrolling takes over again
+    if ((isScrolling || engine.isMoving) && scrollContainerRef.current && !isDragging.current) {
+      let target = 0;
+      if (!isScrolling) {
+        if (hasPauses) holdForPauseMarker(time, false);
+      } else if (hasPauses && holdForPauseMarker(time, true)) {
+        // Hold position until the pause has elapsed
+        engine.stop();
+      } else if (voice) {
+        // Advance only while the presenter is talking, at their own pace
+        const textHeight = textRef.current?.offsetHeight ?? 0;
+        const pxPerChar = spokenLength > 0 ? textHeight / spokenLength : 0;
+        target = voice.speaking ? voice.charsPerSecond * pxPerChar : 0;
+      } else {
+        target = targetVelocity;
+      }
+      scrollPosRef.current += engine.step(dt, target);
       const maxScroll = scrollContainerRef.current.scrollHeight - scrollContainerRef.current.clientHeight;
       
       if (scrollPosRef.current >= maxScroll) {
         scrollPosRef.current = maxScroll;
+        engine.stop();
         setIsScrolling(false);
       }
       
       scrollContainerRef.current.scrollTop = scrollPosRef.current;
     } else if (scrollContainerRef.current) {
       // Sync ref with manual scroll
+      engine.stop();
       scrollPosRef.current = scrollContainerRef.current.scrollTop;
+      pauseUntilRef.current = 0;
+      if (hasPauses) holdForPauseMarker(time, false);
     }
     requestRef.current = requestAnimationFrame(animate);
-  }, [isScrolling, config.speed]);
+  }, [isScrolling, targetVelocity, spokenLength, hasPauses]);
 
   useEffect(() => {
     requestRef.current = requestAnimationFrame(animate);
@@ -169,7 +342,7 @@ export default function App() {
     if (!isDragging.current || !scrollContainerRef.current) return;
     e.preventDefault();
     const y = e.pageY - scrollContainerRef.current.offsetTop;
-    const walk = (y - startY.current) * 1.5; // Drag sensitivity
+    const walk = (y - startY.current) * 1.5 * (config.mirrorY ? -1 : 1); // Drag sensitivity, follows a flipped prompter
     scrollContainerRef.current.scrollTop = startScrollTop.current - walk;
   };
 
@@ -181,66 +354,196 @@ export default function App() {
     setIsScrolling(false); // Pause auto-scroll on touch
   };
 
-  // Recording Logic
-  const startRecording = () => {
-    if (!stream) return;
-    recordedChunksRef.current = [];
-    setVideoUrl(null);
-    
-    const mimeTypes = [
-      'video/mp4;codecs=h264,aac',
-      'video/mp4',
-      'video/webm;codecs=vp9,opus',
-      'video/webm;codecs=vp8,opus',
-      'video/webm'
-    ];
-    const mimeType = mimeTypes.find(type => MediaRecorder.isTypeSupported(type)) || 'video/webm';
-    
-    const recorder = new MediaRecorder(stream, { mimeType });
-    recorder.ondataavailable = (e) => {
-      if (e.data.size > 0) {
-        recordedChunksRef.current.push(e.data);
-      }
-    };
-    recorder.onstop = () => {
-      const blob = new Blob(recordedChunksRef.current, { type: mimeType });
-      const url = URL.createObjectURL(blob);
-      setVideoUrl(url);
-    };
-    
-    mediaRecorderRef.current = recorder;
-    recorder.start(1000); // Collect data every second to be safe
-    setIsRecording(true);
-    setIsScrolling(true);
+  // Audio Processing: the recorder gets the processed mic unless the raw path is chosen
+  const [audioPreset, setAudioPreset] = usePreference<AudioPreset>('audioPreset', 'raw');
+  const audio = useAudioProcessing(stream, audioPreset);
+
+  // Composited Recording: camera plus branding drawn on a canvas, with the (processed) audio
+  const overlays = useOverlayTemplates();
+  const [compositeEnabled, setCompositeEnabled] = usePreference('compositeEnabled', false);
+  const composite = useCompositor(stream, audio.recordStream, overlays.current, compositeEnabled);
+
+  // Screen Recording: while a screen is shared, takes record it with the camera as a bubble
+  const [storedScreenLayout, setScreenLayout] = usePreference<ScreenLayout>('screenLayout', DEFAULT_SCREEN_LAYOUT);
+  const screenLayout = useMemo(() => ({ ...DEFAULT_SCREEN_LAYOUT, ...storedScreenLayout }), [storedScreenLayout]);
+  const screenRecording = useScreenRecording(stream, audio.recordStream, screenLayout);
+  const isSharingScreen = screenRecording.status === 'sharing';
+
+  // Recording Logic: optional countdown, then recording and scrolling start together
+  const recorder = useRecorder({
+    stream: screenRecording.recordStream ?? composite.recordStream,
+    countdownSeconds,
+    maxDurationSeconds,
+    scriptId: library.current.id,
+    scriptTitle: library.current.title,
+    onStart: () => setIsScrolling(true),
+    onStop: () => setIsScrolling(false)
+  });
+  const { isRecording, take } = recorder;
+  const videoUrl = take?.url ?? null;
+
+  // A camera or mic that goes away mid-take ends it; what was recorded so far is kept
+  useEffect(() => {
+    if (camera.status === 'disconnected') recorder.stop();
+  }, [camera.status, recorder.stop]);
+
+  // Same for the shared screen: the canvas track doesn't end on its own when sharing stops
+  const wasSharingRef = useRef(isSharingScreen);
+  useEffect(() => {
+    if (wasSharingRef.current && !isSharingScreen) recorder.stop();
+    wasSharingRef.current = isSharingScreen;
+  }, [isSharingScreen, recorder.stop]);
+
+  // Phones dim and lock the screen after a minute without touches
+  useWakeLock(isRecording || isScrolling);
+
+  // Scroll position vs. recording time, turned into subtitles when the take is saved
+  const timeline = useScrollTimeline({
+    active: isRecording,
+    containerRef: scrollContainerRef,
+    contentRef: textRef,
+    focusOffsetRef
+  });
+
+  // Every finished recording goes into the take gallery
+  const gallery = useTakeGallery();
+  const savedTakeRef = useRef<string | null>(null);
+  const [savedTakeId, setSavedTakeId] = useState<string | null>(null);
+  const [subtitleTakeId, setSubtitleTakeId] = useState<string | null>(null);
+  const savedTake = gallery.takes.find(item => item.id === savedTakeId);
+  const subtitleTake = gallery.takes.find(item => item.id === subtitleTakeId);
+  useEffect(() => {
+    if (!take || savedTakeRef.current === take.url) return;
+    savedTakeRef.current = take.url;
+    setSavedTakeId(null);
+    const cues = buildCues(doc, timeline.getSamples(), take.duration);
+    gallery.add({ ...take, cues }).then(saved => {
+      if (saved) setSavedTakeId(saved.id);
+    });
+  }, [take, gallery.add]);
+  const recovery = useRecordingRecovery(gallery.add);
+
+  // WebM → MP4 export for the take shown in the result dialog
+  const mp4Export = useMp4Export();
+  useEffect(() => {
+    mp4Export.reset();
+  }, [take, mp4Export.reset]);
+
+
+  const scrollTo = (position: number) => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    const maxScroll = container.scrollHeight - container.clientHeight;
+    scrollPosRef.current = Math.max(0, Math.min(maxScroll, position));
+    container.scrollTop = scrollPosRef.current;
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-      setIsScrolling(false);
+  const changeSpeed = (direction: 1 | -1) => {
+    setConfig({...config, ...stepPace(config, direction)});
+  };
+
+  // Every panel and dialog drawn over the prompter; list new ones here so bindings pause for them
+  const isOverlayOpen = isEditing || showLibrary || showSettings || showOutline || showBindings || showRemote
+    || showGallery || showDevices || showComposite || showAssistant || showSync || showTypography || showScreen
+    || Boolean(subtitleTake) || Boolean(videoUrl && !isRecording);
+
+  // Keyboard / Remote / Pedal Input (suspended while an overlay takes the keyboard)
+  const input = useInputBindings({
+    toggleScroll: () => setIsScrolling(prev => !prev),
+    toggleRecord: recorder.toggle,
+    speedUp: () => changeSpeed(1),
+    speedDown: () => changeSpeed(-1),
+    nudgeBack: () => scrollTo(scrollPosRef.current - config.fontSize * config.lineHeight),
+    nudgeForward: () => scrollTo(scrollPosRef.current + config.fontSize * config.lineHeight),
+    prevParagraph: navigation.jumpPrev,
+    nextParagraph: navigation.jumpNext,
+    resetScroll: () => scrollTo(0),
+  }, !isOverlayOpen);
+
+  // Two-Device Mode: this device records, a paired controller drives it
+  const handleRemoteCommand = (message: ControllerMessage) => {
+    const container = scrollContainerRef.current;
+    switch (message.kind) {
+      case 'requestState':
+        broadcastState();
+        break;
+      case 'setText':
+        setText(message.text);
+        break;
+      case 'setConfig':
+        setConfig({...config, ...message.config});
+        break;
+      case 'setScrolling':
+        setIsScrolling(message.scrolling);
+        break;
+      case 'setRecording':
+        if (message.recording) recorder.start();
+        else recorder.stop();
+        break;
+      case 'scrollTo':
+        if (container) scrollTo(message.ratio * (container.scrollHeight - container.clientHeight));
+        break;
+      case 'paragraph':
+        if (message.direction === 'prev') navigation.jumpPrev();
+        else navigation.jumpNext();
+        break;
     }
   };
 
+  const remote = useRemoteHost(remoteEnabled, handleRemoteCommand);
+  const { broadcast } = remote;
 
+  const broadcastState = () => {
+    broadcast({
+      kind: 'state',
+      state: { title: library.current.title, text, config, isScrolling, isRecording }
+    });
+  };
+
+  useEffect(() => {
+    if (remote.peers > 0) broadcastState();
+  }, [remote.peers, library.current.title, text, config, isScrolling, isRecording]);
+
+  // Scroll position is streamed separately at a modest rate
+  useEffect(() => {
+    if (remote.peers === 0) return;
+    let lastRatio = -1;
+    const timer = setInterval(() => {
+      const container = scrollContainerRef.current;
+      if (!container) return;
+      const maxScroll = container.scrollHeight - container.clientHeight;
+      const ratio = maxScroll > 0 ? scrollPosRef.current / maxScroll : 0;
+      if (Math.abs(ratio - lastRatio) < 0.0005) return;
+      lastRatio = ratio;
+      broadcast({ kind: 'scroll', ratio });
+    }, 100);
+    return () => clearInterval(timer);
+  }, [remote.peers, broadcast]);
+
+  // Flipping front/back overrides a camera picked by name
   const toggleCamera = () => {
+    if (capture.videoDeviceId) setCapture({ ...capture, videoDeviceId: '' });
     setFacingMode(prev => prev === 'user' ? 'environment' : 'user');
   };
 
-  const handleDownload = async () => {
-    if (!videoUrl) return;
+  // A camera picked by name may report its own facing; desktop webcams usually don't
+  const isFrontCamera = (mediaDevices.active.facingMode ?? facingMode) === 'user';
+  // The prompter box is half the screen high, or all of it with fullscreen text
+  const boxHeightVh = config.fullscreenText ? 100 : 50;
+
+  // File name and type follow the real container so players don't choke on a mislabeled WebM
+  const handleDownload = async (blob: Blob, name?: string) => {
+    const fileName = getVideoFileName(blob.type, name);
 
     // Try Web Share API first (best for mobile "Save to Photos")
     if (navigator.share && navigator.canShare) {
       try {
-        const response = await fetch(videoUrl);
-        const blob = await response.blob();
-        const file = new File([blob], `teleprompter_${new Date().getTime()}.mp4`, { type: 'video/mp4' });
+        const file = new File([blob], fileName, { type: getBaseMimeType(blob.type) });
         
         if (navigator.canShare({ files: [file] })) {
           await navigator.share({
             files: [file],
-            title: '提词器录制视频',
+            title: t.share.videoTitle,
           });
           return;
         }
@@ -250,20 +553,18 @@ export default function App() {
     }
 
     // Fallback to traditional download
-    const a = document.createElement('a');
-    a.href = videoUrl;
-    a.download = `teleprompter_video_${new Date().getTime()}.mp4`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
+    downloadBlob(blob, fileName);
   };
 
+  // Offline install and update prompt
+  const pwa = usePwa();
+
   const shareApp = async () => {
     if (navigator.share) {
       try {
         await navigator.share({
-          title: '智能提词器',
-          text: '推荐一个超好用的专业口播提词器！',
+          title: t.share.appTitle,
+          text: t.share.appText,
           url: window.location.href,
         });
       } catch (err) {
@@ -273,7 +574,7 @@ export default function App() {
       // Fallback: Copy to clipboard
       try {
         await navigator.clipboard.writeText(window.location.href);
-        alert('应用链接已复制到剪贴板，快去分享给朋友吧！');
+        alert(t.share.linkCopied);
       } catch (err) {
         console.error("Copy failed:", err);
       }
@@ -299,51 +600,209 @@ export default function App() {
         <span className="font-bold text-sm tracking-widest drop-shadow-md hidden sm:block">蔡哥保平安</span>
       </div>
 
+      {/* Recording Timer / Estimated Read Time / Reading Progress */}
+      <div className="absolute top-6 left-1/2 -translate-x-1/2 z-50 pointer-events-none flex flex-col items-center gap-2">
+        {isRecording ? (
+          <div className="flex items-center gap-2 px-4 py-2 bg-black/60 backdrop-blur-md rounded-full font-mono font-bold">
+            <span className="w-3 h-3 rounded-full bg-red-500 animate-pulse" />
+            {formatDuration(recorder.elapsed)}
+            {maxDurationSeconds > 0 && <span className="text-zinc-400">/ {formatDuration(maxDurationSeconds)}</span>}
+            <LevelMeter processor={audio.processor} compact />
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 px-3 py-1 bg-black/40 backdrop-blur-md rounded-full text-xs text-zinc-300">
+            <Timer className="w-3 h-3" /> {t.app.estimate(formatDurationText(estimatedSeconds, locale))}
+          </div>
+        )}
+        {isSharingScreen && (
+          <div className="flex items-center gap-2 px-3 py-1 bg-emerald-500/90 text-black rounded-full text-xs font-bold">
+            <Monitor className="w-3 h-3" /> {t.app.screenRecordingActive}
+          </div>
+        )}
+        {/* Switching to the demoed window hides this tab, but the screen canvas keeps drawing */}
+        {isRecording && (recorder.persistFailed || (recorder.wasInterrupted && !isSharingScreen)) && (
+          <div className="px-3 py-1 bg-amber-500/90 text-black rounded-full text-xs font-bold">
+            {recorder.persistFailed ? t.app.persistFailed : t.app.interrupted}
+          </div>
+        )}
+        {recorder.startFailed && !isRecording && (
+          <div className="px-3 py-1 bg-red-500/90 text-white rounded-full text-xs font-bold">
+            {t.app.recordFailed}
+          </div>
+        )}
+        <ReadingProgress containerRef={scrollContainerRef} totalSeconds={estimatedSeconds} />
+      </div>
+
+      {/* New Version: reloading mid-take would lose the recording, so wait until it's done */}
+      <div className="absolute top-24 left-1/2 -translate-x-1/2 z-[70] flex flex-col items-center gap-2">
+        <AnimatePresence>
+          {recovery.recoveredCount > 0 && (
+            <motion.div 
+              initial={{ y: -20, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="flex items-center gap-3 pl-4 pr-2 py-2 bg-zinc-900/90 backdrop-blur-md rounded-full text-sm shadow-lg whitespace-nowrap"
+            >
+              <Film className="w-4 h-4 text-emerald-400" /> {t.app.recovered(recovery.recoveredCount)}
+              <button 
+                onClick={() => {
+                  recovery.dismiss();
+                  setShowGallery(true);
+                }} 
+                className="px-3 py-1 bg-emerald-500 rounded-full font-bold"
+              >
+                {t.common.view}
+              </button>
+              <button onClick={recovery.dismiss} className="px-3 py-1 text-zinc-400 hover:text-white">
+                {t.common.gotIt}
+              </button>
+            </motion.div>
+          )}
+          {pwa.updateReady && !isRecording && (
+            <motion.div 
+              initial={{ y: -20, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="flex items-center gap-3 pl-4 pr-2 py-2 bg-zinc-900/90 backdrop-blur-md rounded-full text-sm shadow-lg whitespace-nowrap"
+            >
+              <RefreshCw className="w-4 h-4 text-emerald-400" /> {t.app.updateReady}
+              <button onClick={pwa.applyUpdate} className="px-3 py-1 bg-emerald-500 rounded-full font-bold">
+                {t.app.reload}
+              </button>
+              <button onClick={pwa.dismissUpdate} className="px-3 py-1 text-zinc-400 hover:text-white">
+                {t.common.later}
+              </button>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
       {/* Camera Preview */}
       <video
         ref={videoRef}
         autoPlay
         playsInline
         muted
-        className={`absolute inset-0 w-full h-full object-cover ${facingMode === 'user' ? 'scale-x-[-1]' : ''}`}
+        className={`absolute inset-0 w-full h-full object-cover ${isFrontCamera ? 'scale-x-[-1]' : ''} ${config.hideCamera ? 'invisible' : ''}`}
       />
 
+      {/* Camera Status: explains a black preview instead of leaving it to the console */}
+      {camera.status !== 'ready' && (
+        <div className="absolute top-36 left-1/2 -translate-x-1/2 z-40 w-[min(90%,28rem)] p-5 bg-zinc-900/90 backdrop-blur-md rounded-3xl shadow-lg space-y-3">
+          <div className="flex items-center gap-3 font-bold">
+            {camera.status === 'requesting'
+              ? <Camera className="w-5 h-5 text-emerald-400 animate-pulse" />
+              : <VideoOff className="w-5 h-5 text-red-400" />}
+            {t.camera[camera.status].title}
+          </div>
+          <p className="text-sm text-zinc-400">{t.camera[camera.status].hint}</p>
+          {camera.status !== 'requesting' && camera.status !== 'unsupported' && (
+            <div className="flex gap-2">
+              <button onClick={camera.retry} className="flex items-center gap-2 px-4 py-2 bg-emerald-500 rounded-full text-sm font-bold">
+                <RotateCcw className="w-4 h-4" /> {t.common.retry}
+              </button>
+              {camera.status !== 'denied' && (
+                <button onClick={() => setShowDevices(true)} className="px-4 py-2 bg-zinc-800 rounded-full text-sm hover:bg-zinc-700">
+                  {t.app.chooseOtherDevice}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Teleprompter Overlay */}
       <div 
         className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none"
-        style={{ paddingBottom: '20vh' }}
+        style={{ paddingBottom: config.fullscreenText ? 0 : '20vh' }}
       >
+        {/* Text box and focus line are mirrored together for beam-splitter rigs */}
         <div 
-          ref={scrollContainerRef}
-          className="w-full max-w-2xl h-[50vh] overflow-y-auto pointer-events-auto hide-scrollbar select-none active:cursor-grabbing cursor-grab"
-          style={{ 
-            backgroundColor: `rgba(0,0,0,${config.opacity})`,
-            maskImage: 'linear-gradient(to bottom, transparent, black 15%, black 85%, transparent)'
-          }}
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseUp}
-          onTouchStart={handleTouchStart}
+          className={`relative w-full ${config.fullscreenText ? 'h-full' : 'max-w-2xl h-[50vh]'}`}
+          style={{ transform: `scale(${config.mirrorX ? -1 : 1}, ${config.mirrorY ? -1 : 1})` }}
         >
-          <div className="py-[25vh] px-8">
-            <p 
+          <div 
+            ref={scrollContainerRef}
+            className="relative w-full h-full overflow-y-auto pointer-events-auto hide-scrollbar select-none active:cursor-grabbing cursor-grab"
+            style={{ 
+              backgroundColor: `rgba(0,0,0,${config.opacity})`,
+              maskImage: getScrollMask(config)
+            }}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+            onTouchStart={handleTouchStart}
+            onScroll={navigation.handleScroll}
+          >
+            {/* Padding lets the first and last lines reach the focus line */}
+            <div 
               style={{ 
-                fontSize: `${config.fontSize}px`, 
-                color: config.color,
-                lineHeight: 1.5,
-                textAlign: 'center',
-                fontWeight: 600,
-                textShadow: '0 2px 4px rgba(0,0,0,0.5)'
+                paddingTop: `${config.focusLinePosition * boxHeightVh}vh`,
+                paddingBottom: `${(1 - config.focusLinePosition) * boxHeightVh}vh`,
+                paddingLeft: config.sideMargin,
+                paddingRight: config.sideMargin
               }}
             >
-              {text}
-            </p>
+              <div ref={textRef}>
+                <ScriptView 
+                  text={text}
+                  doc={doc}
+                  style={getTextStyle(config)}
+                />
+              </div>
+            </div>
           </div>
+
+          {/* Focus Line */}
+          {config.highlightCurrentLine && (
+            <div 
+              className="absolute left-0 right-0 -translate-y-1/2 pointer-events-none"
+              style={{ 
+                top: `${config.focusLinePosition * 100}%`,
+                height: config.fontSize * config.lineHeight,
+                backgroundColor: withAlpha(config.focusLineColor, 0.15)
+              }}
+            />
+          )}
+          <div 
+            ref={focusLineRef} 
+            className="absolute left-0 right-0 h-1 -translate-y-1/2 pointer-events-none"
+            style={{ top: `${config.focusLinePosition * 100}%`, backgroundColor: withAlpha(config.focusLineColor, 0.5) }}
+          />
         </div>
-        
-        {/* Focus Line */}
-        <div className="absolute top-1/2 left-0 right-0 h-1 bg-emerald-500/50 -translate-y-1/2 pointer-events-none" />
+
+        {/* Paragraph Navigation */}
+        <div className="absolute top-1/2 left-4 -translate-y-1/2 flex flex-col gap-2 pointer-events-auto">
+          <button 
+            onClick={navigation.jumpPrev}
+            className="p-2 bg-white/10 backdrop-blur-md rounded-full hover:bg-white/20 transition-colors"
+            title={t.app.prevParagraph}
+          >
+            <ChevronUp className="w-5 h-5" />
+          </button>
+          <button 
+            onClick={() => setShowOutline(!showOutline)}
+            className={`p-2 backdrop-blur-md rounded-full transition-colors ${showOutline ? 'bg-emerald-500' : 'bg-white/10 hover:bg-white/20'}`}
+            title={t.app.outline}
+          >
+            <ListTree className="w-5 h-5" />
+          </button>
+          <button 
+            onClick={navigation.jumpNext}
+            className="p-2 bg-white/10 backdrop-blur-md rounded-full hover:bg-white/20 transition-colors"
+            title={t.app.nextParagraph}
+          >
+            <ChevronDown className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Voice Tracking Indicator */}
+        {voiceActive && (
+          <div className={`absolute top-1/2 right-4 -translate-y-1/2 p-2 rounded-full backdrop-blur-md transition-colors ${isSpeaking ? 'bg-emerald-500/80' : 'bg-white/10'}`}>
+            <Mic className="w-4 h-4" />
+          </div>
+        )}
       </div>
 
       {/* Main Controls */}
@@ -359,18 +818,24 @@ export default function App() {
           </button>
 
           <div className="flex gap-4">
+            {pwa.canInstall && (
+              <button 
+                onClick={pwa.install}
+                className="p-3 bg-white/10 backdrop-blur-md rounded-full hover:bg-white/20 transition-colors"
+                title={t.app.install}
+              >
+                <SquarePlus className="w-6 h-6" />
+              </button>
+            )}
             <button 
               onClick={shareApp}
               className="p-3 bg-white/10 backdrop-blur-md rounded-full hover:bg-white/20 transition-colors"
-              title="分享应用"
+              title={t.app.shareApp}
             >
               <Share2 className="w-6 h-6" />
             </button>
             <button 
-              onClick={() => {
-                scrollPosRef.current = 0;
-                if (scrollContainerRef.current) scrollContainerRef.current.scrollTop = 0;
-              }}
+              onClick={() => scrollTo(0)}
               className="p-3 bg-white/10 backdrop-blur-md rounded-full hover:bg-white/20 transition-colors"
             >
               <RotateCcw className="w-6 h-6" />
@@ -381,6 +846,20 @@ export default function App() {
             >
               <Camera className="w-6 h-6" />
             </button>
+            <button 
+              onClick={() => setShowGallery(true)}
+              className="p-3 bg-white/10 backdrop-blur-md rounded-full hover:bg-white/20 transition-colors"
+              title={t.common.takeGallery}
+            >
+              <Film className="w-6 h-6" />
+            </button>
+            <button 
+              onClick={() => setShowLibrary(true)}
+              className="p-3 bg-white/10 backdrop-blur-md rounded-full hover:bg-white/20 transition-colors"
+              title={t.common.scriptLibrary}
+            >
+              <Library className="w-6 h-6" />
+            </button>
             <button 
               onClick={() => setIsEditing(true)}
               className="p-3 bg-white/10 backdrop-blur-md rounded-full hover:bg-white/20 transition-colors"
@@ -400,18 +879,45 @@ export default function App() {
           </button>
 
           <button 
-            onClick={isRecording ? stopRecording : startRecording}
+            onClick={recorder.toggle}
             className={`w-20 h-20 rounded-full border-4 flex items-center justify-center transition-all ${
-              isRecording ? 'border-red-500 bg-red-500/20' : 'border-white bg-white/10'
+              isRecording || recorder.isCountingDown ? 'border-red-500 bg-red-500/20' : 'border-white bg-white/10'
             }`}
           >
-            <div className={`transition-all ${isRecording ? 'w-8 h-8 bg-red-500 rounded-sm' : 'w-14 h-14 bg-red-500 rounded-full'}`} />
+            <div className={`transition-all ${isRecording || recorder.isCountingDown ? 'w-8 h-8 bg-red-500 rounded-sm' : 'w-14 h-14 bg-red-500 rounded-full'}`} />
           </button>
 
           <div className="w-14" /> {/* Spacer */}
         </div>
       </div>
 
+      {/* Countdown */}
+      <AnimatePresence>
+        {recorder.countdown !== null && (
+          <motion.div 
+            key={recorder.countdown}
+            initial={{ scale: 1.6, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.6, opacity: 0 }}
+            className="absolute inset-0 z-[55] flex items-center justify-center pointer-events-none"
+          >
+            <span className="text-[12rem] font-black drop-shadow-2xl">{recorder.countdown}</span>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Outline */}
+      <AnimatePresence>
+        {showOutline && (
+          <ScriptOutline 
+            doc={doc}
+            currentIndex={navigation.currentIndex}
+            onJump={navigation.jumpTo}
+            onClose={() => setShowOutline(false)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Settings Panel */}
       <AnimatePresence>
         {showSettings && (
@@ -419,10 +925,10 @@ export default function App() {
             initial={{ y: '100%' }}
             animate={{ y: 0 }}
             exit={{ y: '100%' }}
-            className="absolute bottom-0 left-0 right-0 bg-zinc-900 rounded-t-3xl p-8 z-50 shadow-2xl"
+            className="absolute bottom-0 left-0 right-0 max-h-[85vh] overflow-y-auto bg-zinc-900 rounded-t-3xl p-8 z-50 shadow-2xl"
           >
             <div className="flex justify-between items-center mb-8">
-              <h3 className="text-xl font-bold">提词器设置</h3>
+              <h3 className="text-xl font-bold">{t.settings.title}</h3>
               <button onClick={() => setShowSettings(false)} className="p-2 hover:bg-white/10 rounded-full">
                 <ChevronDown className="w-6 h-6" />
               </button>
@@ -432,11 +938,11 @@ export default function App() {
               {/* Font Size */}
               <div className="space-y-4">
                 <div className="flex justify-between text-sm text-zinc-400">
-                  <span className="flex items-center gap-2"><Type className="w-4 h-4" /> 字号</span>
+                  <span className="flex items-center gap-2"><Type className="w-4 h-4" /> {t.settings.fontSize}</span>
                   <span>{config.fontSize}px</span>
                 </div>
                 <input 
-                  type="range" min="16" max="64" value={config.fontSize}
+                  type="range" min="16" max="96" value={config.fontSize}
                   onChange={(e) => setConfig({...config, fontSize: parseInt(e.target.value)})}
                   className="w-full accent-emerald-500"
                 />
@@ -445,23 +951,53 @@ export default function App() {
               {/* Speed */}
               <div className="space-y-4">
                 <div className="flex justify-between text-sm text-zinc-400">
-                  <span className="flex items-center gap-2"><Zap className="w-4 h-4" /> 滚动速度</span>
-                  <span>{config.speed}x</span>
+                  <span className="flex items-center gap-2"><Zap className="w-4 h-4" /> {t.settings.speed}</span>
+                  <span>{voiceActive ? t.settings.scrollModes.voice : formatPace(config, t, locale)}</span>
+                </div>
+                <div className="grid grid-cols-2 gap-2 p-1 bg-zinc-800 rounded-xl text-sm">
+                  {(['fixed', 'voice'] as const).map(mode => (
+                    <button 
+                      key={mode}
+                      onClick={() => setConfig({...config, scrollMode: mode})}
+                      className={`py-2 rounded-lg transition-colors ${config.scrollMode === mode ? 'bg-emerald-500 font-bold' : 'hover:bg-white/10'}`}
+                    >
+                      {t.settings.scrollModes[mode]}
+                    </button>
+                  ))}
+                </div>
+                {config.scrollMode === 'voice' && !voiceAvailable && (
+                  <p className="text-xs text-amber-400">{t.settings.noMicFallback}</p>
+                )}
+                <div className={`grid grid-cols-3 gap-2 p-1 bg-zinc-800 rounded-xl text-sm ${voiceActive ? 'opacity-30 pointer-events-none' : ''}`}>
+                  {(Object.keys(PACE_SLIDERS) as PaceMode[]).map(mode => (
+                    <button 
+                      key={mode}
+                      onClick={() => setConfig({...config, paceMode: mode})}
+                      className={`py-2 rounded-lg transition-colors ${config.paceMode === mode ? 'bg-emerald-500 font-bold' : 'hover:bg-white/10'}`}
+                    >
+                      {t.pace.modes[mode]}
+                    </button>
+                  ))}
                 </div>
                 <input 
-                  type="range" min="1" max="10" step="0.5" value={config.speed}
-                  onChange={(e) => setConfig({...config, speed: parseFloat(e.target.value)})}
-                  className="w-full accent-emerald-500"
+                  type="range"
+                  min={paceSlider.min} max={paceSlider.max} step={paceSlider.step} value={config[paceSlider.field]}
+                  onChange={(e) => setConfig({...config, [paceSlider.field]: parseFloat(e.target.value)})}
+                  disabled={voiceActive}
+                  className="w-full accent-emerald-500 disabled:opacity-30"
                 />
               </div>
 
               {/* Color */}
               <div className="space-y-4">
                 <div className="flex justify-between text-sm text-zinc-400">
-                  <span className="flex items-center gap-2"><Palette className="w-4 h-4" /> 文字颜色</span>
+                  <span className="flex items-center gap-2"><Palette className="w-4 h-4" /> {t.settings.textColor}</span>
+                  <button onClick={() => setShowTypography(true)} className="text-emerald-400 hover:text-emerald-300">
+                    {t.settings.typographyLink}
+                  </button>
                 </div>
                 <div className="flex gap-4">
-                  {['#ffffff', '#ffff00', '#00ff00', '#00ffff', '#ff00ff'].map(c => (
+                  {TEXT_COLORS.map(c => (
                     <button 
                       key={c}
                       onClick={() => setConfig({...config, color: c})}
@@ -471,6 +1007,155 @@ export default function App() {
                   ))}
                 </div>
               </div>
+
+              {/* Recording */}
+              <div className="space-y-4">
+                <div className="flex justify-between text-sm text-zinc-400">
+                  <span className="flex items-center gap-2"><Timer className="w-4 h-4" /> {t.settings.countdown}</span>
+                  <span>{t.settings.estimatedLength(formatDurationText(estimatedSeconds, locale))}</span>
+                </div>
+                <div className="grid grid-cols-4 gap-2 p-1 bg-zinc-800 rounded-xl text-sm">
+                  {[0, 3, 5, 10].map(seconds => (
+                    <button 
+                      key={seconds}
+                      onClick={() => setCountdownSeconds(seconds)}
+                      className={`py-2 rounded-lg transition-colors ${countdownSeconds === seconds ? 'bg-emerald-500 font-bold' : 'hover:bg-white/10'}`}
+                    >
+                      {seconds === 0 ? t.common.off : t.common.seconds(seconds)}
+                    </button>
+                  ))}
+                </div>
+                <div className="text-sm text-zinc-400">{t.settings.maxDuration}</div>
+                <div className="grid grid-cols-5 gap-2 p-1 bg-zinc-800 rounded-xl text-sm">
+                  {[0, 15, 30, 60, 180].map(seconds => (
+                    <button 
+                      key={seconds}
+                      onClick={() => setMaxDurationSeconds(seconds)}
+                      className={`py-2 rounded-lg transition-colors ${maxDurationSeconds === seconds ? 'bg-emerald-500 font-bold' : 'hover:bg-white/10'}`}
+                    >
+                      {seconds === 0 ? t.settings.unlimited : formatDuration(seconds)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Audio Processing */}
+              <div className="space-y-4">
+                <div className="flex justify-between text-sm text-zinc-400">
+                  <span className="flex items-center gap-2"><AudioLines className="w-4 h-4" /> {t.settings.audio}</span>
+                  <span>{audioPreset === 'raw' ? t.settings.audioRaw : t.settings.audioProcessed}</span>
+                </div>
+                <div className="grid grid-cols-4 gap-2 p-1 bg-zinc-800 rounded-xl text-sm">
+                  {AUDIO_PRESETS.map(preset => (
+                    <button 
+                      key={preset}
+                      onClick={() => setAudioPreset(preset)}
+                      disabled={isRecording}
+                      className={`py-2 rounded-lg transition-colors disabled:opacity-50 ${audioPreset === preset ? 'bg-emerald-500 font-bold' : 'hover:bg-white/10'}`}
+                    >
+                      {t.audioPresets[preset]}
+                    </button>
+                  ))}
+                </div>
+                <LevelMeter processor={audio.processor} />
+              </div>
+
+              {/* Mirror & Layout */}
+              <div className="space-y-4">
+                <div className="flex justify-between text-sm text-zinc-400">
+                  <span>{t.settings.mirrorLayout}</span>
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  {([
+                    ['mirrorX', FlipHorizontal2],
+                    ['mirrorY', FlipVertical2],
+                    ['hideCamera', VideoOff],
+                    ['fullscreenText', Maximize2]
+                  ] as const).map(([key, Icon]) => (
+                    <button 
+                      key={key}
+                      onClick={() => setConfig({...config, [key]: !config[key]})}
+                      className={`flex items-center justify-center gap-2 py-3 rounded-xl transition-colors ${config[key] ? 'bg-emerald-500 font-bold' : 'bg-zinc-800 hover:bg-zinc-700'}`}
+                    >
+                      <Icon className="w-4 h-4" /> {t.settings.layoutToggles[key]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Capture Devices */}
+              <button 
+                onClick={() => setShowDevices(true)}
+                className="w-full flex items-center justify-between py-3 px-4 bg-zinc-800 rounded-xl text-sm hover:bg-zinc-700 transition-colors"
+              >
+                <span className="flex items-center gap-2"><Video className="w-4 h-4" /> {t.devices.title}</span>
+                <span className="text-zinc-400">{capture.resolution.toUpperCase()} · {capture.frameRate}fps · {capture.aspectRatio}</span>
+              </button>
+
+              {/* Composited Recording */}
+              <button 
+                onClick={() => setShowComposite(true)}
+                className="w-full flex items-center justify-between py-3 px-4 bg-zinc-800 rounded-xl text-sm hover:bg-zinc-700 transition-colors"
+              >
+                <span className="flex items-center gap-2"><Layers className="w-4 h-4" /> {t.composite.title}</span>
+                <span className="text-zinc-400">{compositeEnabled ? overlays.current.name : t.settings.notEnabled}</span>
+              </button>
+
+              {/* Screen Recording */}
+              <button 
+                onClick={() => setShowScreen(true)}
+                className="w-full flex items-center justify-between py-3 px-4 bg-zinc-800 rounded-xl text-sm hover:bg-zinc-700 transition-colors"
+              >
+                <span className="flex items-center gap-2"><Monitor className="w-4 h-4" /> {t.screen.title}</span>
+                <span className={isSharingScreen ? 'text-emerald-400' : 'text-zinc-400'}>{isSharingScreen ? t.settings.screenSharing : t.settings.screenHint}</span>
+              </button>
+
+              {/* Two-Device Mode */}
+              <button 
+                onClick={() => setShowRemote(true)}
+                className="w-full flex items-center justify-between py-3 px-4 bg-zinc-800 rounded-xl text-sm hover:bg-zinc-700 transition-colors"
+              >
+                <span className="flex items-center gap-2"><MonitorSmartphone className="w-4 h-4" /> {t.remote.title}</span>
+                <span className="text-zinc-400">{remoteEnabled ? (remote.peers > 0 ? t.settings.remotePeers(remote.peers) : remote.code ?? t.settings.remoteConnecting) : t.settings.remoteHint}</span>
+              </button>
+
+              {/* Input Bindings */}
+              <button 
+                onClick={() => setShowBindings(true)}
+                className="w-full flex items-center justify-between py-3 px-4 bg-zinc-800 rounded-xl text-sm hover:bg-zinc-700 transition-colors"
+              >
+                <span className="flex items-center gap-2"><Keyboard className="w-4 h-4" /> {t.bindings.title}</span>
+                <span className="text-zinc-400">{t.settings.bindingsHint}</span>
+              </button>
+
+              {/* Team Sync */}
+              <button 
+                onClick={() => setShowSync(true)}
+                className="w-full flex items-center justify-between py-3 px-4 bg-zinc-800 rounded-xl text-sm hover:bg-zinc-700 transition-colors"
+              >
+                <span className="flex items-center gap-2"><Cloud className="w-4 h-4" /> {t.sync.title}</span>
+                <span className={sync.status === 'error' ? 'text-red-400' : 'text-zinc-400'}>
+                  {sync.account ? `${sync.account.userName} · ${t.sync.status[sync.status]}` : t.sync.status.off}
+                </span>
+              </button>
+
+              {/* Language */}
+              <div className="space-y-4">
+                <div className="flex justify-between text-sm text-zinc-400">
+                  <span className="flex items-center gap-2"><Languages className="w-4 h-4" /> {t.settings.language}</span>
+                </div>
+                <div className="grid grid-cols-4 gap-2 p-1 bg-zinc-800 rounded-xl text-sm">
+                  {(['auto', ...Object.keys(LOCALE_NAMES)] as LocalePreference[]).map(option => (
+                    <button 
+                      key={option}
+                      onClick={() => setLocalePreference(option)}
+                      className={`py-2 rounded-lg transition-colors ${localePreference === option ? 'bg-emerald-500 font-bold' : 'hover:bg-white/10'}`}
+                    >
+                      {option === 'auto' ? t.settings.languageAuto : LOCALE_NAMES[option as Locale]}
+                    </button>
+                  ))}
+                </div>
+              </div>
             </div>
           </motion.div>
         )}
@@ -484,26 +1169,235 @@ export default function App() {
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             className="absolute inset-0 bg-black/95 z-[60] p-8 flex flex-col"
+            {...editorDrop.dropProps}
           >
-            <div className="flex justify-between items-center mb-6">
-              <h3 className="text-xl font-bold">编辑台词</h3>
-              <button 
-                onClick={() => setIsEditing(false)}
-                className="flex items-center gap-2 px-4 py-2 bg-emerald-500 rounded-full font-bold"
-              >
-                <Check className="w-5 h-5" /> 完成
-              </button>
+            {editorDrop.isDragging && (
+              <div className="absolute inset-4 z-10 flex items-center justify-center rounded-3xl border-2 border-dashed border-emerald-500 bg-black/80 text-lg font-bold pointer-events-none">
+                {t.editor.dropToImport}
+              </div>
+            )}
+            <div className="flex justify-between items-center gap-4 mb-6">
+              <h3 className="text-xl font-bold shrink-0">{t.editor.title}</h3>
+              <div className="flex gap-2">
+                <button 
+                  onClick={() => importInputRef.current?.click()}
+                  className="p-2 hover:bg-white/10 rounded-full"
+                  title={t.editor.importFile}
+                >
+                  <Upload className="w-6 h-6" />
+                </button>
+                <input 
+                  ref={importInputRef}
+                  type="file"
+                  accept={IMPORT_ACCEPT}
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    const files: File[] = Array.from(e.target.files ?? []);
+                    e.target.value = '';
+                    if (files.length > 0) transfer.importFiles(files);
+                  }}
+                />
+                <button 
+                  onClick={() => transfer.exportScript()}
+                  className="p-2 hover:bg-white/10 rounded-full"
+                  title={t.editor.exportJson}
+                >
+                  <FileDown className="w-6 h-6" />
+                </button>
+                <button 
+                  onClick={() => transfer.shareScript()}
+                  className="p-2 hover:bg-white/10 rounded-full"
+                  title={t.common.copyShareLink}
+                >
+                  <Link2 className="w-6 h-6" />
+                </button>
+                {assistantAvailable && (
+                  <button 
+                    onClick={() => setShowAssistant(true)}
+                    className="flex items-center gap-2 px-4 py-2 bg-zinc-800 rounded-full hover:bg-zinc-700"
+                  >
+                    <Sparkles className="w-5 h-5 text-emerald-400" /> {t.assistant.title}
+                  </button>
+                )}
+                <button 
+                  onClick={() => {
+                    setIsEditing(false);
+                    setShowLibrary(true);
+                  }}
+                  className="p-2 hover:bg-white/10 rounded-full"
+                  title={t.common.scriptLibrary}
+                >
+                  <Library className="w-6 h-6" />
+                </button>
+                <button 
+                  onClick={() => setIsEditing(false)}
+                  className="flex items-center gap-2 px-4 py-2 bg-emerald-500 rounded-full font-bold"
+                >
+                  <Check className="w-5 h-5" /> {t.common.done}
+                </button>
+              </div>
             </div>
+            <input 
+              value={library.current.title}
+              onChange={(e) => library.updateCurrent({ title: e.target.value })}
+              className="mb-4 bg-transparent text-2xl font-bold outline-none border-b border-zinc-800 focus:border-emerald-500 pb-2 transition-colors"
+              placeholder={t.editor.titlePlaceholder}
+            />
             <textarea 
               value={text}
               onChange={(e) => setText(e.target.value)}
               className="flex-1 bg-zinc-900 rounded-2xl p-6 text-xl outline-none border border-zinc-800 focus:border-emerald-500 transition-colors resize-none"
-              placeholder="请输入您的台词..."
+              placeholder={t.editor.textPlaceholder}
             />
+            <p className="mt-3 text-xs text-zinc-500 leading-relaxed">
+              {t.editor.markupHelp.intro}<code>## {t.editor.markupHelp.heading}</code> · <code>**{t.editor.markupHelp.emphasis}**</code> · <code>[pause 2s]</code> {t.editor.markupHelp.pause} · <code>[cue: {t.editor.markupHelp.cueExample}]</code> {t.editor.markupHelp.cue}
+            </p>
+
+            {/* Script Assistant */}
+            <AnimatePresence>
+              {showAssistant && (
+                <AssistantPanel 
+                  text={text}
+                  estimatedSeconds={estimatedSeconds}
+                  spokenLength={spokenLength}
+                  onApply={setText}
+                  onClose={() => setShowAssistant(false)}
+                />
+              )}
+            </AnimatePresence>
           </motion.div>
         )}
       </AnimatePresence>
 
+      {/* Typography */}
+      <AnimatePresence>
+        {showTypography && (
+          <TypographyPanel 
+            config={config}
+            onChange={setConfig}
+            onClose={() => setShowTypography(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Script Library */}
+      <AnimatePresence>
+        {showLibrary && (
+          <ScriptLibrary 
+            library={library}
+            transfer={transfer}
+            folders={folders}
+            onClose={() => setShowLibrary(false)}
+            onEdit={() => {
+              setShowLibrary(false);
+              setIsEditing(true);
+            }}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Input Bindings */}
+      <AnimatePresence>
+        {showBindings && (
+          <InputBindingsPanel 
+            bindings={input.bindings}
+            onChange={input.setBindings}
+            onReset={input.resetBindings}
+            onClose={() => setShowBindings(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Capture Devices */}
+      <AnimatePresence>
+        {showDevices && (
+          <DeviceSettingsPanel 
+            settings={capture}
+            devices={mediaDevices.devices}
+            active={mediaDevices.active}
+            onChange={setCapture}
+            onClose={() => setShowDevices(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Composited Recording */}
+      <AnimatePresence>
+        {showComposite && (
+          <CompositePanel 
+            enabled={compositeEnabled}
+            onToggle={setCompositeEnabled}
+            overlays={overlays}
+            compositor={composite.compositor}
+            isRecording={isRecording}
+            onClose={() => setShowComposite(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Screen Recording */}
+      <AnimatePresence>
+        {showScreen && (
+          <ScreenPanel 
+            screen={screenRecording}
+            layout={screenLayout}
+            onLayoutChange={setScreenLayout}
+            isRecording={isRecording}
+            onClose={() => setShowScreen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Two-Device Mode */}
+      <AnimatePresence>
+        {showRemote && (
+          <RemotePanel 
+            enabled={remoteEnabled}
+            status={remote.status}
+            code={remote.code}
+            peers={remote.peers}
+            onToggle={setRemoteEnabled}
+            onClose={() => setShowRemote(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Team Sync */}
+      <AnimatePresence>
+        {showSync && (
+          <SyncPanel 
+            sync={sync}
+            onClose={() => setShowSync(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Take Gallery */}
+      <AnimatePresence>
+        {showGallery && (
+          <TakeGallery 
+            gallery={gallery}
+            currentScriptId={library.current.id}
+            onDownload={(galleryTake, blob) => handleDownload(blob, galleryTake.name)}
+            onEditSubtitles={(galleryTake) => setSubtitleTakeId(galleryTake.id)}
+            onClose={() => setShowGallery(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Subtitle Editor */}
+      <AnimatePresence>
+        {subtitleTake && (
+          <SubtitleEditor 
+            take={subtitleTake}
+            onChange={(cues) => gallery.update(subtitleTake.id, { cues })}
+            onDownload={handleDownload}
+            onClose={() => setSubtitleTakeId(null)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Recording Result */}
       <AnimatePresence>
         {videoUrl && !isRecording && (
@@ -513,20 +1407,79 @@ export default function App() {
             className="absolute inset-0 z-[70] bg-black/90 flex items-center justify-center p-6"
           >
             <div className="bg-zinc-900 rounded-3xl p-8 w-full max-w-md space-y-6">
-              <h3 className="text-2xl font-bold text-center">录制完成！</h3>
+              <h3 className="text-2xl font-bold text-center">{t.result.title}</h3>
               <video src={videoUrl} controls className="w-full rounded-xl aspect-video bg-black" />
+              {take && (
+                <div className="flex justify-between text-sm text-zinc-400">
+                  <span className="truncate">{take.scriptTitle}</span>
+                  <span className="shrink-0">
+                    {getVideoExtension(take.mimeType).toUpperCase()} · {formatDuration(take.duration)} · {formatFileSize(take.blob.size, locale)}
+                  </span>
+                </div>
+              )}
+              <p className="text-xs text-center text-zinc-500">{t.result.savedToGallery}</p>
+
+              {/* Subtitles */}
+              <button 
+                onClick={() => setSubtitleTakeId(savedTakeId)}
+                disabled={!savedTakeId}
+                className="w-full flex items-center justify-center gap-2 py-3 bg-zinc-800 rounded-xl text-sm font-bold hover:bg-zinc-700 transition-colors disabled:opacity-50"
+              >
+                <Captions className="w-4 h-4" /> {savedTake ? t.result.subtitlesWithCount(savedTake.cues?.length ?? 0) : t.result.subtitles}
+              </button>
+
+              {/* MP4 Export */}
+              {take && !isMp4(take.mimeType) && canConvertToMp4() && (
+                <div className="space-y-2">
+                  {mp4Export.state.status === 'idle' && (
+                    <button 
+                      onClick={() => mp4Export.start(take.blob)}
+                      className="w-full flex items-center justify-center gap-2 py-3 bg-zinc-800 rounded-xl text-sm font-bold hover:bg-zinc-700 transition-colors"
+                    >
+                      <FileVideo className="w-4 h-4" /> {t.result.convertToMp4}
+                    </button>
+                  )}
+                  {mp4Export.state.status === 'converting' && (
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-sm text-zinc-400">
+                        <span>{t.result.converting}</span>
+                        <span>{Math.round(mp4Export.state.progress * 100)}%</span>
+                      </div>
+                      <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
+                        <div className="h-full bg-emerald-500 transition-all" style={{ width: `${mp4Export.state.progress * 100}%` }} />
+                      </div>
+                      <button onClick={mp4Export.reset} className="w-full text-xs text-zinc-500 hover:text-white">{t.common.cancel}</button>
+                    </div>
+                  )}
+                  {mp4Export.state.status === 'done' && (
+                    <button 
+                      onClick={() => mp4Export.state.status === 'done' && handleDownload(mp4Export.state.blob)}
+                      className="w-full flex items-center justify-center gap-2 py-3 bg-emerald-500/20 text-emerald-300 rounded-xl text-sm font-bold hover:bg-emerald-500/30 transition-colors"
+                    >
+                      <Download className="w-4 h-4" /> {t.result.saveMp4(formatFileSize(mp4Export.state.blob.size, locale))}
+                    </button>
+                  )}
+                  {mp4Export.state.status === 'error' && (
+                    <p className="text-xs text-center text-red-400">
+                      {t.result.convertFailed(mp4Export.state.message)}
+                      <button onClick={() => mp4Export.start(take.blob)} className="ml-2 underline">{t.common.retry}</button>
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <button 
-                  onClick={handleDownload}
+                  onClick={() => take && handleDownload(take.blob)}
                   className="flex items-center justify-center gap-2 py-4 bg-emerald-500 rounded-xl font-bold hover:bg-emerald-600 transition-colors"
                 >
-                  <Download className="w-5 h-5" /> 保存视频
+                  <Download className="w-5 h-5" /> {t.common.saveVideo}
                 </button>
                 <button 
-                  onClick={() => setVideoUrl(null)}
+                  onClick={recorder.discardTake}
                   className="flex items-center justify-center gap-2 py-4 bg-zinc-800 rounded-xl font-bold hover:bg-zinc-700 transition-colors"
                 >
-                  <Trash2 className="w-5 h-5" /> 重新录制
+                  <RotateCcw className="w-5 h-5" /> {t.result.retake}
                 </button>
               </div>
             </div>
@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useMemo } from 'react';
+import { Check, Loader2, Sparkles, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { AssistantTask, TRANSLATE_LANGUAGES, TranslateLanguage } from '../lib/assistant';
+import { diffText } from '../lib/textDiff';
+import { useAssistant } from '../hooks/useAssistant';
+import { formatDurationText } from '../lib/format';
+import { useI18n } from '../hooks/useI18n';
+
+interface AssistantPanelProps {
+  text: string;
+  /** Read time of `text` at the current speed */
+  estimatedSeconds: number;
+  spokenLength: number;
+  onApply: (text: string) => void;
+  onClose: () => void;
+}
+
+type TaskType = AssistantTask['type'];
+
+const TASK_TYPES: TaskType[] = ['rewrite', 'shorten', 'hooks', 'translate'];
+
+const TARGET_SECONDS = [15, 30, 60, 90];
+const HOOK_COUNT = 3;
+const FALLBACK_CHARS_PER_SECOND = 4;
+
+export function AssistantPanel({ text, estimatedSeconds, spokenLength, onApply, onClose }: AssistantPanelProps) {
+  const { t, locale } = useI18n();
+  const assistant = useAssistant();
+  const [taskType, setTaskType] = useState<TaskType>('rewrite');
+  const [targetSeconds, setTargetSeconds] = useState(30);
+  const [language, setLanguage] = useState<TranslateLanguage>('en');
+  const [variant, setVariant] = useState(0);
+  const { state } = assistant;
+
+  // Characters per second at the current speed, so "30 seconds" means 30 seconds on this prompter
+  const charsPerSecond = estimatedSeconds > 0 && spokenLength > 0 ? spokenLength / estimatedSeconds : FALLBACK_CHARS_PER_SECOND;
+
+  const buildTask = (): AssistantTask => {
+    switch (taskType) {
+      case 'rewrite': return { type: 'rewrite' };
+      case 'shorten': return { type: 'shorten', targetSeconds, targetChars: Math.round(targetSeconds * charsPerSecond) };
+      case 'hooks': return { type: 'hooks', count: HOOK_COUNT };
+      case 'translate': return { type: 'translate', language };
+    }
+  };
+
+  const run = () => {
+    setVariant(0);
+    assistant.run(buildTask(), text);
+  };
+
+  // Hooks are prepended to the script; every other task replaces it
+  const proposal = state.status === 'done'
+    ? state.task.type === 'hooks'
+      ? `${state.results[variant] ?? ''}\n\n${state.source}`
+      : state.results[0]
+    : null;
+  const diff = useMemo(
+    () => (state.status === 'done' && proposal !== null ? diffText(state.source, proposal) : []),
+    [state, proposal]
+  );
+
+  const apply = () => {
+    if (proposal === null) return;
+    onApply(proposal);
+    assistant.reset();
+    onClose();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 z-10 bg-black/95 p-8 flex flex-col gap-6"
+    >
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <Sparkles className="w-5 h-5 text-emerald-400" /> {t.assistant.title}
+          {assistant.provider && <span className="text-xs font-normal text-zinc-500">{assistant.provider.name}</span>}
+        </h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 p-1 bg-zinc-800 rounded-xl text-sm">
+        {TASK_TYPES.map(type => (
+          <button
+            key={type}
+            onClick={() => setTaskType(type)}
+            className={`py-2 rounded-lg transition-colors ${taskType === type ? 'bg-emerald-500 font-bold' : 'hover:bg-white/10'}`}
+          >
+            {t.assistant.tasks[type]}
+          </button>
+        ))}
+      </div>
+
+      {taskType === 'shorten' && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-zinc-400">
+            <span>{t.assistant.targetLength}</span>
+            <span>{t.assistant.targetSummary(formatDurationText(estimatedSeconds, locale), Math.round(targetSeconds * charsPerSecond))}</span>
+          </div>
+          <div className="grid grid-cols-4 gap-2 p-1 bg-zinc-800 rounded-xl text-sm">
+            {TARGET_SECONDS.map(seconds => (
+              <button
+                key={seconds}
+                onClick={() => setTargetSeconds(seconds)}
+                className={`py-2 rounded-lg transition-colors ${targetSeconds === seconds ? 'bg-emerald-500 font-bold' : 'hover:bg-white/10'}`}
+              >
+                {t.common.seconds(seconds)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {taskType === 'translate' && (
+        <div className="grid grid-cols-4 gap-2 p-1 bg-zinc-800 rounded-xl text-sm">
+          {TRANSLATE_LANGUAGES.map(code => (
+            <button
+              key={code}
+              onClick={() => setLanguage(code)}
+              className={`py-2 rounded-lg transition-colors ${language === code ? 'bg-emerald-500 font-bold' : 'hover:bg-white/10'}`}
+            >
+              {t.assistant.languages[code]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {state.status === 'running' ? (
+        <button onClick={assistant.reset} className="flex items-center justify-center gap-2 py-3 bg-zinc-800 rounded-xl font-bold hover:bg-zinc-700">
+          <Loader2 className="w-5 h-5 animate-spin" /> {t.assistant.running}
+        </button>
+      ) : (
+        <button
+          onClick={run}
+          disabled={!text.trim()}
+          className="flex items-center justify-center gap-2 py-3 bg-emerald-500 rounded-xl font-bold hover:bg-emerald-600 disabled:opacity-50 transition-colors"
+        >
+          <Sparkles className="w-5 h-5" /> {t.assistant.generate}
+        </button>
+      )}
+
+      {state.status === 'error' && <p className="text-sm text-center text-red-400">{t.assistant.failed(state.message)}</p>}
+
+      {state.status === 'done' && (
+        <>
+          {state.task.type === 'hooks' && (
+            <div className="space-y-2">
+              {state.results.map((hook, i) => (
+                <button
+                  key={i}
+                  onClick={() => setVariant(i)}
+                  className={`w-full text-left p-3 rounded-xl text-sm transition-colors ${variant === i ? 'bg-emerald-500/20 ring-1 ring-emerald-500' : 'bg-zinc-900 hover:bg-zinc-800'}`}
+                >
+                  {hook}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Diff preview: nothing changes until it is applied */}
+          <div className="flex-1 min-h-0 overflow-y-auto bg-zinc-900 rounded-2xl p-6 text-lg leading-relaxed whitespace-pre-wrap">
+            {diff.map((part, i) => part.type === 'equal'
+              ? <span key={i}>{part.text}</span>
+              : part.type === 'delete'
+                ? <del key={i} className="bg-red-500/20 text-red-300">{part.text}</del>
+                : <ins key={i} className="bg-emerald-500/20 text-emerald-300 no-underline">{part.text}</ins>
+            )}
+          </div>
+          {state.source !== text && (
+            <p className="text-xs text-center text-amber-400">{t.assistant.sourceChanged}</p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <button onClick={apply} className="flex items-center justify-center gap-2 py-3 bg-emerald-500 rounded-xl font-bold hover:bg-emerald-600">
+              <Check className="w-5 h-5" /> {t.assistant.apply}
+            </button>
+            <button onClick={assistant.reset} className="flex items-center justify-center gap-2 py-3 bg-zinc-800 rounded-xl font-bold hover:bg-zinc-700">
+              <X className="w-5 h-5" /> {t.assistant.discard}
+            </button>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,239 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useEffect } from 'react';
+import { ChevronDown, FlipHorizontal2, ImagePlus, Save, Trash2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { OverlayPosition, OverlayTemplate } from '../types';
+import { OverlayTemplates } from '../hooks/useOverlayTemplates';
+import { Compositor } from '../lib/compositor';
+import { useI18n } from '../hooks/useI18n';
+
+interface CompositePanelProps {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  overlays: OverlayTemplates;
+  compositor: Compositor | null;
+  isRecording: boolean;
+  onClose: () => void;
+}
+
+const POSITIONS: OverlayPosition[] = ['top-left', 'top-right', 'center', 'bottom-left', 'bottom-right'];
+
+export function CompositePanel({ enabled, onToggle, overlays, compositor, isRecording, onClose }: CompositePanelProps) {
+  const { t } = useI18n();
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const template = overlays.current;
+
+  // Preview the canvas exactly as it will be recorded
+  useEffect(() => {
+    const video = previewRef.current;
+    const track = compositor?.videoTrack;
+    if (!video) return;
+    video.srcObject = track ? new MediaStream([track]) : null;
+  }, [compositor]);
+
+  const updateLogo = (changes: Partial<OverlayTemplate['logo']>) => overlays.update({ logo: { ...template.logo, ...changes } });
+  const updateWatermark = (changes: Partial<OverlayTemplate['watermark']>) =>
+    overlays.update({ watermark: { ...template.watermark, ...changes } });
+  const updateLowerThird = (changes: Partial<OverlayTemplate['lowerThird']>) =>
+    overlays.update({ lowerThird: { ...template.lowerThird, ...changes } });
+
+  const saveAs = () => {
+    const name = prompt(t.composite.templateNamePrompt, t.common.copyName(template.name));
+    if (name?.trim()) overlays.saveAs(name.trim());
+  };
+
+  const renderToggle = (active: boolean, onClick: () => void, label: string) => (
+    <button
+      onClick={onClick}
+      className={`px-4 py-1.5 rounded-full text-sm transition-colors ${active ? 'bg-emerald-500 font-bold' : 'bg-zinc-800 hover:bg-zinc-700'}`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderPositions = (value: OverlayPosition, onSelect: (position: OverlayPosition) => void) => (
+    <div className="grid grid-cols-5 gap-2 p-1 bg-zinc-800 rounded-xl text-sm">
+      {POSITIONS.map(position => (
+        <button
+          key={position}
+          onClick={() => onSelect(position)}
+          className={`py-2 rounded-lg transition-colors ${value === position ? 'bg-emerald-500 font-bold' : 'hover:bg-white/10'}`}
+        >
+          {t.common.positions[position]}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderSlider = (label: string, value: number, min: number, max: number, onChange: (value: number) => void) => (
+    <label className="block space-y-2">
+      <div className="flex justify-between text-sm text-zinc-400">
+        <span>{label}</span>
+        <span>{Math.round(value * 100)}%</span>
+      </div>
+      <input
+        type="range" min={min} max={max} step="0.01" value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full accent-emerald-500"
+      />
+    </label>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 bg-black/95 z-[60] p-8 flex flex-col gap-6"
+    >
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-bold">{t.composite.title}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <ChevronDown className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-8">
+        <div className="flex items-center justify-between gap-4 p-4 bg-zinc-900 rounded-2xl">
+          <div className="text-sm">
+            <div className="font-bold">{t.composite.enableTitle}</div>
+            <div className="text-zinc-500">{isRecording ? t.composite.lockedWhileRecording : t.composite.disabledHint}</div>
+          </div>
+          <button
+            onClick={() => onToggle(!enabled)}
+            disabled={isRecording}
+            className={`shrink-0 px-5 py-2 rounded-full font-bold transition-colors disabled:opacity-50 ${enabled ? 'bg-emerald-500' : 'bg-zinc-800 hover:bg-zinc-700'}`}
+          >
+            {enabled ? t.composite.enabled : t.composite.disabled}
+          </button>
+        </div>
+
+        {enabled && (
+          <video ref={previewRef} autoPlay playsInline muted className="w-full max-h-[40vh] rounded-2xl bg-black object-contain" />
+        )}
+
+        {/* Templates */}
+        <div className="space-y-4">
+          <div className="flex justify-between items-center text-sm text-zinc-400">
+            <span>{t.composite.templates}</span>
+            <div className="flex gap-2">
+              <button onClick={saveAs} className="flex items-center gap-1 px-3 py-1 bg-zinc-800 rounded-full hover:bg-zinc-700 text-white">
+                <Save className="w-3 h-3" /> {t.composite.saveAs}
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm(t.composite.confirmDeleteTemplate(template.name))) overlays.remove(template.id);
+                }}
+                disabled={overlays.templates.length <= 1}
+                className="p-1.5 bg-zinc-800 rounded-full hover:bg-red-500/20 hover:text-red-400 disabled:opacity-30"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {overlays.templates.map(item => (
+              <button
+                key={item.id}
+                onClick={() => overlays.select(item.id)}
+                className={`px-4 py-2 rounded-xl text-sm transition-colors ${item.id === template.id ? 'bg-emerald-500 font-bold' : 'bg-zinc-800 hover:bg-zinc-700'}`}
+              >
+                {item.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Logo */}
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-zinc-400">LOGO</span>
+            {renderToggle(template.logo.enabled, () => updateLogo({ enabled: !template.logo.enabled }), template.logo.enabled ? t.common.show : t.common.hide)}
+          </div>
+          <div className="flex gap-2 text-sm">
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-4 py-2 bg-zinc-800 rounded-xl hover:bg-zinc-700">
+              <ImagePlus className="w-4 h-4" /> {t.composite.changeImage}
+            </button>
+            {template.logo.image && (
+              <button onClick={() => updateLogo({ image: undefined })} className="px-4 py-2 bg-zinc-800 rounded-xl hover:bg-zinc-700">
+                {t.common.restoreDefaults}
+              </button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) updateLogo({ image: file, enabled: true });
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {renderPositions(template.logo.position, position => updateLogo({ position }))}
+          {renderSlider(t.common.size, template.logo.size, 0.05, 0.3, size => updateLogo({ size }))}
+          {renderSlider(t.common.opacity, template.logo.opacity, 0.1, 1, opacity => updateLogo({ opacity }))}
+        </div>
+
+        {/* Watermark */}
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-zinc-400">{t.composite.watermark}</span>
+            {renderToggle(template.watermark.enabled, () => updateWatermark({ enabled: !template.watermark.enabled }), template.watermark.enabled ? t.common.show : t.common.hide)}
+          </div>
+          <input
+            value={template.watermark.text}
+            onChange={(e) => updateWatermark({ text: e.target.value })}
+            placeholder={t.composite.watermarkPlaceholder}
+            className="w-full bg-zinc-800 rounded-xl px-4 py-3 outline-none"
+          />
+          {renderPositions(template.watermark.position, position => updateWatermark({ position }))}
+          {renderSlider(t.common.opacity, template.watermark.opacity, 0.1, 1, opacity => updateWatermark({ opacity }))}
+        </div>
+
+        {/* Lower Third */}
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-zinc-400">{t.composite.lowerThird}</span>
+            {renderToggle(template.lowerThird.enabled, () => updateLowerThird({ enabled: !template.lowerThird.enabled }), template.lowerThird.enabled ? t.common.show : t.common.hide)}
+          </div>
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+            <input
+              value={template.lowerThird.name}
+              onChange={(e) => updateLowerThird({ name: e.target.value })}
+              placeholder={t.composite.namePlaceholder}
+              className="min-w-0 bg-zinc-800 rounded-xl px-4 py-3 outline-none"
+            />
+            <input
+              value={template.lowerThird.title}
+              onChange={(e) => updateLowerThird({ title: e.target.value })}
+              placeholder={t.composite.titlePlaceholder}
+              className="min-w-0 bg-zinc-800 rounded-xl px-4 py-3 outline-none"
+            />
+            <input
+              type="color"
+              value={template.lowerThird.accent}
+              onChange={(e) => updateLowerThird({ accent: e.target.value })}
+              className="w-12 h-full bg-zinc-800 rounded-xl cursor-pointer"
+              title={t.composite.accentColor}
+            />
+          </div>
+        </div>
+
+        {/* Mirror */}
+        <button
+          onClick={() => overlays.update({ mirror: !template.mirror })}
+          className={`w-full flex items-center justify-center gap-2 py-3 rounded-xl text-sm transition-colors ${template.mirror ? 'bg-emerald-500 font-bold' : 'bg-zinc-800 hover:bg-zinc-700'}`}
+        >
+          <FlipHorizontal2 className="w-4 h-4" /> {t.composite.mirror}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
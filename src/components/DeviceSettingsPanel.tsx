@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { ChevronDown } from 'lucide-react';
+import { motion } from 'motion/react';
+import {
+  ASPECT_RATIO_OPTIONS,
+  ActiveTrackInfo,
+  CaptureSettings,
+  DeviceLists,
+  FRAME_RATE_OPTIONS,
+  RESOLUTION_OPTIONS
+} from '../lib/mediaDevices';
+import { useI18n } from '../hooks/useI18n';
+
+interface DeviceSettingsPanelProps {
+  settings: CaptureSettings;
+  devices: DeviceLists;
+  active: ActiveTrackInfo;
+  onChange: (settings: CaptureSettings) => void;
+  onClose: () => void;
+}
+
+export function DeviceSettingsPanel({ settings, devices, active, onChange, onClose }: DeviceSettingsPanelProps) {
+  const { t } = useI18n();
+  const update = (changes: Partial<CaptureSettings>) => onChange({ ...settings, ...changes });
+
+  const renderSegments = <T extends string | number>(options: T[], value: T, onSelect: (v: T) => void, label = (v: T) => String(v)) => (
+    <div className="grid gap-2 p-1 bg-zinc-800 rounded-xl" style={{ gridTemplateColumns: `repeat(${options.length}, minmax(0, 1fr))` }}>
+      {options.map(option => (
+        <button
+          key={option}
+          onClick={() => onSelect(option)}
+          className={`py-2 rounded-lg text-sm transition-colors ${value === option ? 'bg-emerald-500 font-bold' : 'hover:bg-white/10'}`}
+        >
+          {label(option)}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderDeviceSelect = (list: MediaDeviceInfo[], value: string, fallbackLabel: string, onSelect: (id: string) => void) => (
+    <select
+      value={list.some(d => d.deviceId === value) ? value : ''}
+      onChange={(e) => onSelect(e.target.value)}
+      className="w-full bg-zinc-800 rounded-xl px-4 py-3 outline-none"
+    >
+      <option value="">{fallbackLabel}</option>
+      {list.map((device, i) => (
+        <option key={device.deviceId} value={device.deviceId}>
+          {device.label || t.devices.unnamedDevice(i + 1)}
+        </option>
+      ))}
+    </select>
+  );
+
+  // Browsers treat the presets as hints; show what the hardware actually delivers
+  const actual = [
+    active.width && active.height ? `${active.width}×${active.height}` : null,
+    active.frameRate ? `${Math.round(active.frameRate)}fps` : null,
+    active.sampleRate ? `${(active.sampleRate / 1000).toFixed(1)}kHz` : null,
+    active.channelCount ? (active.channelCount > 1 ? t.devices.stereo : t.devices.mono) : null
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 bg-black/95 z-[60] p-8 flex flex-col gap-6"
+    >
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-bold">{t.devices.title}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <ChevronDown className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-8">
+        <div className="space-y-4">
+          <div className="flex justify-between text-sm text-zinc-400">
+            <span>{t.devices.camera}</span>
+          </div>
+          {renderDeviceSelect(devices.video, settings.videoDeviceId, t.devices.cameraAuto, id => update({ videoDeviceId: id }))}
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex justify-between text-sm text-zinc-400">
+            <span>{t.devices.microphone}</span>
+          </div>
+          {renderDeviceSelect(devices.audio, settings.audioDeviceId, t.devices.microphoneDefault, id => update({ audioDeviceId: id }))}
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex justify-between text-sm text-zinc-400">
+            <span>{t.devices.resolution}</span>
+          </div>
+          {renderSegments(RESOLUTION_OPTIONS, settings.resolution, resolution => update({ resolution }), v => v.toUpperCase())}
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex justify-between text-sm text-zinc-400">
+            <span>{t.devices.frameRate}</span>
+          </div>
+          {renderSegments(FRAME_RATE_OPTIONS, settings.frameRate, frameRate => update({ frameRate }), v => `${v}fps`)}
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex justify-between text-sm text-zinc-400">
+            <span>{t.devices.aspectRatio}</span>
+          </div>
+          {renderSegments(ASPECT_RATIO_OPTIONS, settings.aspectRatio, aspectRatio => update({ aspectRatio }), v => `${v} ${t.devices.aspectRatios[v]}`)}
+        </div>
+
+        <div className="p-4 bg-zinc-900 rounded-2xl text-sm space-y-1">
+          <div className="text-zinc-400">{t.devices.actual}</div>
+          <div className="font-mono">{actual || t.devices.cameraOff}</div>
+          {active.videoLabel && <div className="text-zinc-500 truncate">{active.videoLabel}</div>}
+          {active.audioLabel && <div className="text-zinc-500 truncate">{active.audioLabel}</div>}
+        </div>
+
+        {devices.video.length > 0 && devices.video.every(d => !d.label) && (
+          <p className="text-sm text-zinc-500">{t.devices.labelsHidden}</p>
+        )}
+      </div>
+    </motion.div>
+  );
+}
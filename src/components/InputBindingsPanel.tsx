@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect } from 'react';
+import { ChevronDown, Plus, RotateCcw, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { DEFAULT_BINDINGS, InputAction, InputBindings, eventKey, formatKey } from '../lib/inputBindings';
+import { useI18n } from '../hooks/useI18n';
+
+interface InputBindingsPanelProps {
+  bindings: InputBindings;
+  onChange: (bindings: InputBindings) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+export function InputBindingsPanel({ bindings, onChange, onReset, onClose }: InputBindingsPanelProps) {
+  const { t } = useI18n();
+  // Action waiting for the next key press (from keyboard, remote or pedal)
+  const [capturing, setCapturing] = useState<InputAction | null>(null);
+
+  useEffect(() => {
+    if (!capturing) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setCapturing(null);
+        return;
+      }
+      const key = eventKey(e);
+      // A key drives a single action: take it away from any other binding
+      const next = Object.fromEntries(
+        Object.entries(bindings).map(([action, keys]) => [action, keys.filter(k => k !== key)])
+      ) as InputBindings;
+      next[capturing] = [...next[capturing], key];
+      onChange(next);
+      setCapturing(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing, bindings, onChange]);
+
+  const removeKey = (action: InputAction, key: string) => {
+    onChange({ ...bindings, [action]: bindings[action].filter(k => k !== key) });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 bg-black/95 z-[60] p-8 flex flex-col gap-6"
+    >
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-bold">{t.bindings.title}</h3>
+        <div className="flex gap-2">
+          <button onClick={onReset} className="flex items-center gap-2 px-4 py-2 bg-zinc-800 rounded-full text-sm hover:bg-zinc-700">
+            <RotateCcw className="w-4 h-4" /> {t.common.restoreDefaults}
+          </button>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+            <ChevronDown className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-zinc-400">
+        {t.bindings.intro}
+      </p>
+
+      <div className="flex-1 overflow-y-auto space-y-3">
+        {(Object.keys(DEFAULT_BINDINGS) as InputAction[]).map(action => (
+          <div key={action} className="flex items-center justify-between gap-4 p-4 bg-zinc-900 rounded-2xl">
+            <span className="font-bold shrink-0">{t.bindings.actions[action]}</span>
+            <div className="flex flex-wrap justify-end gap-2">
+              {bindings[action].map(key => (
+                <span key={key} className="flex items-center gap-1 pl-3 pr-1 py-1 bg-zinc-800 rounded-full text-sm">
+                  {formatKey(key, t.bindings.space)}
+                  <button onClick={() => removeKey(action, key)} className="p-1 hover:bg-white/10 rounded-full">
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              <button
+                onClick={() => setCapturing(action)}
+                className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm transition-colors ${
+                  capturing === action ? 'bg-emerald-500 animate-pulse' : 'bg-white/10 hover:bg-white/20'
+                }`}
+              >
+                {capturing === action ? t.bindings.pressKey : <Plus className="w-4 h-4" />}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
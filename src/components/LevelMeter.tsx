@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect } from 'react';
+import { AudioProcessor } from '../lib/audioProcessing';
+import { useI18n } from '../hooks/useI18n';
+
+interface LevelMeterProps {
+  processor: AudioProcessor | null;
+  compact?: boolean;
+}
+
+const CLIP_HOLD_MS = 1500;
+const PEAK_DECAY_PER_FRAME = 0.015;
+
+// Samples on its own animation frame so the meter doesn't re-render the whole app
+export function LevelMeter({ processor, compact = false }: LevelMeterProps) {
+  const { t } = useI18n();
+  const [level, setLevel] = useState(0);
+  const [peak, setPeak] = useState(0);
+  const [clipping, setClipping] = useState(false);
+
+  useEffect(() => {
+    if (!processor) return;
+    let frame: number;
+    let heldPeak = 0;
+    let clippedAt = -Infinity;
+    const tick = (time: number) => {
+      const sample = processor.readLevel();
+      heldPeak = Math.max(sample.level, heldPeak - PEAK_DECAY_PER_FRAME);
+      setLevel(sample.level);
+      setPeak(heldPeak);
+      if (sample.clipping) clippedAt = time;
+      setClipping(time - clippedAt < CLIP_HOLD_MS);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [processor]);
+
+  const barColor = clipping ? 'bg-red-500' : level > 0.85 ? 'bg-amber-400' : 'bg-emerald-500';
+
+  if (!processor) {
+    return compact ? null : <div className="text-sm text-zinc-500">{t.meter.noMicrophone}</div>;
+  }
+
+  return (
+    <div className={`flex items-center gap-2 ${compact ? 'w-24' : 'w-full'}`}>
+      <div className={`relative flex-1 ${compact ? 'h-1.5' : 'h-2.5'} bg-white/10 rounded-full overflow-hidden`}>
+        <div className={`absolute inset-y-0 left-0 ${barColor}`} style={{ width: `${level * 100}%` }} />
+        <div className="absolute inset-y-0 w-0.5 bg-white/70" style={{ left: `${peak * 100}%` }} />
+      </div>
+      {clipping && (
+        <span className={`shrink-0 font-bold text-red-400 ${compact ? 'text-[10px]' : 'text-xs'}`}>
+          {compact ? t.meter.clippingShort : t.meter.clipping}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect } from 'react';
+import { getReadingProgress } from '../lib/scrollEngine';
+import { formatDuration } from '../lib/format';
+import { useI18n } from '../hooks/useI18n';
+
+interface ReadingProgressProps {
+  containerRef: { current: HTMLDivElement | null };
+  /** Read time of the whole script at the current pace */
+  totalSeconds: number;
+}
+
+const POLL_MS = 250;
+
+// Polls the scroll position on its own so progress doesn't re-render the whole app
+export function ReadingProgress({ containerRef, totalSeconds }: ReadingProgressProps) {
+  const { t } = useI18n();
+  const [progress, setProgress] = useState({ fraction: 0, remainingSeconds: totalSeconds });
+
+  useEffect(() => {
+    const update = () => {
+      const container = containerRef.current;
+      if (!container) return;
+      setProgress(getReadingProgress(container.scrollTop, container.scrollHeight - container.clientHeight, totalSeconds));
+    };
+    update();
+    const timer = setInterval(update, POLL_MS);
+    return () => clearInterval(timer);
+  }, [containerRef, totalSeconds]);
+
+  return (
+    <div className="flex items-center gap-2 w-56 text-[10px] text-zinc-300 font-mono">
+      <div className="relative flex-1 h-1 bg-white/15 rounded-full overflow-hidden">
+        <div className="absolute inset-y-0 left-0 bg-emerald-500" style={{ width: `${progress.fraction * 100}%` }} />
+      </div>
+      <span>{Math.round(progress.fraction * 100)}%</span>
+      <span className="text-zinc-400">{t.app.remaining(formatDuration(progress.remainingSeconds))}</span>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Check, ChevronDown, ChevronUp, Edit3, Play, Square, Unplug, Zap } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { useRemoteController } from '../hooks/useRemote';
+import { parseScript } from '../lib/scriptMarkup';
+import { ScriptView } from './ScriptView';
+import { formatPace, PACE_SLIDERS } from '../lib/scrollEngine';
+import { getTextStyle } from '../lib/typography';
+import { useI18n } from '../hooks/useI18n';
+
+const TEXT_SEND_DELAY_MS = 300;
+const SCROLL_SEND_INTERVAL_MS = 80;
+const WHEEL_IDLE_MS = 300;
+
+// Standalone page (opened with ?controller=<code>) that drives a recording device
+export function RemoteController({ initialCode }: { initialCode: string | null }) {
+  const { t, locale } = useI18n();
+  const [code, setCode] = useState<string | null>(initialCode && /^\d{6}$/.test(initialCode) ? initialCode : null);
+  const [codeInput, setCodeInput] = useState('');
+  const [draft, setDraft] = useState<string | null>(null);
+  const remote = useRemoteController(code);
+  const { state } = remote;
+
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const userScrollingRef = useRef(false);
+  const lastScrollSentRef = useRef(0);
+  const textTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const wheelTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const doc = useMemo(() => parseScript(state?.text ?? ''), [state?.text]);
+  // A host from before pace modes sends no paceMode
+  const paceSlider = PACE_SLIDERS[state?.config.paceMode ?? 'pixels'];
+
+  // Follow the recording device unless the user is scrolling here
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container || userScrollingRef.current) return;
+    container.scrollTop = remote.scrollRatio * (container.scrollHeight - container.clientHeight);
+  }, [remote.scrollRatio, doc]);
+
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container || !userScrollingRef.current) return;
+    const now = performance.now();
+    if (now - lastScrollSentRef.current < SCROLL_SEND_INTERVAL_MS) return;
+    lastScrollSentRef.current = now;
+    const maxScroll = container.scrollHeight - container.clientHeight;
+    remote.send({ kind: 'scrollTo', ratio: maxScroll > 0 ? container.scrollTop / maxScroll : 0 });
+  };
+
+  const updateDraft = (value: string) => {
+    setDraft(value);
+    clearTimeout(textTimerRef.current);
+    textTimerRef.current = setTimeout(() => remote.send({ kind: 'setText', text: value }), TEXT_SEND_DELAY_MS);
+  };
+
+  const disconnect = () => {
+    setCode(null);
+    window.history.replaceState(null, '', '?controller');
+  };
+
+  if (!code) {
+    return (
+      <div className="fixed inset-0 bg-black text-white font-sans flex items-center justify-center p-8">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!/^\d{6}$/.test(codeInput)) return;
+            setCode(codeInput);
+            window.history.replaceState(null, '', `?controller=${codeInput}`);
+          }}
+          className="w-full max-w-sm bg-zinc-900 rounded-3xl p-8 space-y-6 text-center"
+        >
+          <h3 className="text-2xl font-bold">{t.controller.connectTitle}</h3>
+          <p className="text-sm text-zinc-400">{t.controller.connectHint}</p>
+          <input
+            autoFocus
+            inputMode="numeric"
+            maxLength={6}
+            value={codeInput}
+            onChange={(e) => setCodeInput(e.target.value.replace(/\D/g, ''))}
+            className="w-full bg-zinc-800 rounded-xl py-4 text-center text-4xl font-mono tracking-[0.3em] outline-none border border-zinc-700 focus:border-emerald-500"
+            placeholder="000000"
+          />
+          <button type="submit" className="w-full py-4 bg-emerald-500 rounded-xl font-bold disabled:opacity-30" disabled={codeInput.length !== 6}>
+            {t.controller.connect}
+          </button>
+          <a href="/" className="block text-sm text-zinc-500 hover:text-white">{t.controller.back}</a>
+        </form>
+      </div>
+    );
+  }
+
+  const statusText = remote.error === 'Pairing code not found'
+    ? t.controller.codeNotFound
+    : remote.status !== 'connected'
+      ? t.controller.connecting
+      : !remote.hostOnline
+        ? t.controller.hostOffline
+        : state?.isRecording ? t.controller.recording : t.controller.connected;
+
+  return (
+    <div className="fixed inset-0 bg-black text-white font-sans flex flex-col">
+      {/* Status */}
+      <div className="flex justify-between items-center p-4 gap-4">
+        <div className="flex items-center gap-3 min-w-0">
+          <span className={`w-3 h-3 rounded-full shrink-0 ${state?.isRecording ? 'bg-red-500 animate-pulse' : remote.hostOnline ? 'bg-emerald-500' : 'bg-zinc-600'}`} />
+          <span className="font-bold truncate">{state?.title ?? t.controller.title}</span>
+          <span className="text-sm text-zinc-400 shrink-0">{statusText}</span>
+        </div>
+        <button onClick={disconnect} className="flex items-center gap-2 px-3 py-2 bg-white/10 rounded-full text-sm hover:bg-white/20">
+          <Unplug className="w-4 h-4" /> {code}
+        </button>
+      </div>
+
+      {/* Prompter Mirror */}
+      <div className="relative flex-1 min-h-0">
+        <div
+          ref={scrollContainerRef}
+          className="h-full overflow-y-auto hide-scrollbar"
+          onScroll={handleScroll}
+          onPointerDown={() => { userScrollingRef.current = true; }}
+          onPointerUp={() => { userScrollingRef.current = false; }}
+          onTouchStart={() => { userScrollingRef.current = true; }}
+          onTouchEnd={() => { userScrollingRef.current = false; }}
+          onWheel={() => {
+            userScrollingRef.current = true;
+            clearTimeout(wheelTimerRef.current);
+            wheelTimerRef.current = setTimeout(() => { userScrollingRef.current = false; }, WHEEL_IDLE_MS);
+          }}
+          onMouseLeave={() => { userScrollingRef.current = false; }}
+        >
+          <div className="py-[40vh] max-w-3xl mx-auto" style={{ paddingLeft: state?.config.sideMargin, paddingRight: state?.config.sideMargin }}>
+            {state && (
+              <ScriptView
+                text={state.text}
+                doc={doc}
+                style={getTextStyle(state.config)}
+              />
+            )}
+          </div>
+        </div>
+        <div className="absolute top-1/2 left-0 right-0 h-1 bg-emerald-500/50 -translate-y-1/2 pointer-events-none" />
+      </div>
+
+      {/* Controls */}
+      {state && (
+        <div className="p-6 bg-zinc-900 space-y-6">
+          <div className="flex items-center gap-4 text-sm text-zinc-400">
+            <Zap className="w-4 h-4 shrink-0" />
+            <input
+              type="range"
+              min={paceSlider.min} max={paceSlider.max} step={paceSlider.step} value={state.config[paceSlider.field]}
+              onChange={(e) => remote.send({ kind: 'setConfig', config: { [paceSlider.field]: parseFloat(e.target.value) } })}
+              className="flex-1 accent-emerald-500"
+            />
+            <span className="w-20 text-right">{formatPace({ ...state.config, paceMode: state.config.paceMode ?? 'pixels' }, t, locale)}</span>
+          </div>
+
+          <div className="flex justify-center items-center gap-6">
+            <button onClick={() => remote.send({ kind: 'paragraph', direction: 'prev' })} className="p-3 bg-white/10 rounded-full hover:bg-white/20">
+              <ChevronUp className="w-6 h-6" />
+            </button>
+            <button
+              onClick={() => remote.send({ kind: 'setScrolling', scrolling: !state.isScrolling })}
+              className={`p-4 rounded-full transition-all ${state.isScrolling ? 'bg-emerald-500' : 'bg-white/20'}`}
+            >
+              {state.isScrolling ? <Square className="w-6 h-6 fill-current" /> : <Play className="w-6 h-6 fill-current" />}
+            </button>
+            <button
+              onClick={() => remote.send({ kind: 'setRecording', recording: !state.isRecording })}
+              className={`w-20 h-20 rounded-full border-4 flex items-center justify-center transition-all ${
+                state.isRecording ? 'border-red-500 bg-red-500/20' : 'border-white bg-white/10'
+              }`}
+            >
+              <div className={`transition-all ${state.isRecording ? 'w-8 h-8 bg-red-500 rounded-sm' : 'w-14 h-14 bg-red-500 rounded-full'}`} />
+            </button>
+            <button onClick={() => remote.send({ kind: 'paragraph', direction: 'next' })} className="p-3 bg-white/10 rounded-full hover:bg-white/20">
+              <ChevronDown className="w-6 h-6" />
+            </button>
+            <button onClick={() => setDraft(state.text)} className="p-3 bg-white/10 rounded-full hover:bg-white/20">
+              <Edit3 className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Remote Text Editor: keeps a local draft so echoes from the host don't fight typing */}
+      <AnimatePresence>
+        {draft !== null && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/95 z-[60] p-8 flex flex-col"
+          >
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-xl font-bold">{t.editor.title}</h3>
+              <button
+                onClick={() => {
+                  clearTimeout(textTimerRef.current);
+                  remote.send({ kind: 'setText', text: draft });
+                  setDraft(null);
+                }}
+                className="flex items-center gap-2 px-4 py-2 bg-emerald-500 rounded-full font-bold"
+              >
+                <Check className="w-5 h-5" /> {t.common.done}
+              </button>
+            </div>
+            <textarea
+              value={draft}
+              onChange={(e) => updateDraft(e.target.value)}
+              className="flex-1 bg-zinc-900 rounded-2xl p-6 text-xl outline-none border border-zinc-800 focus:border-emerald-500 transition-colors resize-none"
+              placeholder={t.editor.textPlaceholder}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <style>{`
+        .hide-scrollbar::-webkit-scrollbar {
+          display: none;
+        }
+        .hide-scrollbar {
+          -ms-overflow-style: none;
+          scrollbar-width: none;
+        }
+      `}</style>
+    </div>
+  );
+}
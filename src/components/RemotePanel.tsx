@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { ChevronDown, Copy, MonitorSmartphone, Gamepad2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { RemoteStatus } from '../hooks/useRemote';
+import { useI18n } from '../hooks/useI18n';
+
+interface RemotePanelProps {
+  enabled: boolean;
+  status: RemoteStatus;
+  code: string | null;
+  peers: number;
+  onToggle: (enabled: boolean) => void;
+  onClose: () => void;
+}
+
+export function RemotePanel({ enabled, status, code, peers, onToggle, onClose }: RemotePanelProps) {
+  const { t } = useI18n();
+  const controllerUrl = code ? `${window.location.origin}/?controller=${code}` : '';
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(controllerUrl);
+    } catch (err) {
+      console.error("Copy failed:", err);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 bg-black/95 z-[60] p-8 flex flex-col gap-6"
+    >
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-bold">{t.remote.title}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <ChevronDown className="w-6 h-6" />
+        </button>
+      </div>
+
+      <p className="text-sm text-zinc-400">
+        {t.remote.introBefore}<code>npm start</code>{t.remote.introAfter}
+      </p>
+
+      <button
+        onClick={() => onToggle(!enabled)}
+        className={`flex items-center justify-center gap-2 py-4 rounded-xl font-bold transition-colors ${enabled ? 'bg-zinc-800 hover:bg-zinc-700' : 'bg-emerald-500 hover:bg-emerald-600'}`}
+      >
+        <MonitorSmartphone className="w-5 h-5" /> {enabled ? t.remote.disable : t.remote.enable}
+      </button>
+
+      {!enabled && (
+        <button
+          onClick={() => {
+            window.location.search = '?controller';
+          }}
+          className="flex items-center justify-center gap-2 py-4 bg-zinc-800 rounded-xl font-bold hover:bg-zinc-700 transition-colors"
+        >
+          <Gamepad2 className="w-5 h-5" /> {t.remote.useAsController}
+        </button>
+      )}
+
+      {enabled && (
+        <div className="bg-zinc-900 rounded-3xl p-6 space-y-4 text-center">
+          <div className="text-sm text-zinc-400">
+            {peers > 0 ? t.remote.peers(peers) : t.remote.status[status]}
+          </div>
+          {code && (
+            <>
+              <div className="text-5xl font-mono font-bold tracking-[0.3em]">{code}</div>
+              <div className="text-sm text-zinc-400">{t.remote.linkHint}</div>
+              <button
+                onClick={copyLink}
+                className="w-full flex items-center justify-center gap-2 py-3 px-4 bg-zinc-800 rounded-xl text-sm break-all hover:bg-zinc-700"
+              >
+                <Copy className="w-4 h-4 shrink-0" /> {controllerUrl}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,193 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { ChevronDown, Monitor, MonitorOff } from 'lucide-react';
+import { motion } from 'motion/react';
+import { ScreenRecording } from '../hooks/useScreenRecording';
+import {
+  BUBBLE_SIZE_RANGE, BubbleShape, getBubbleRect, placeInCorner, ScreenCorner, ScreenLayout
+} from '../lib/screenCompositor';
+import { useI18n } from '../hooks/useI18n';
+
+interface ScreenPanelProps {
+  screen: ScreenRecording;
+  layout: ScreenLayout;
+  onLayoutChange: (layout: ScreenLayout) => void;
+  isRecording: boolean;
+  onClose: () => void;
+}
+
+const SHAPES: BubbleShape[] = ['circle', 'rect'];
+const CORNERS: ScreenCorner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export function ScreenPanel({ screen, layout, onLayoutChange, isRecording, onClose }: ScreenPanelProps) {
+  const { t } = useI18n();
+  const { compositor } = screen;
+  const previewRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: 'move' | 'resize'; startX: number; startY: number; start: ScreenLayout } | null>(null);
+  // The canvas only learns its size from the first screen frame
+  const [frame, setFrame] = useState({ aspect: 16 / 9, cameraAspect: 16 / 9 });
+  const update = (changes: Partial<ScreenLayout>) => onLayoutChange({ ...layout, ...changes });
+
+  useEffect(() => {
+    const container = previewRef.current;
+    if (!compositor || !container) return;
+    const { canvas } = compositor;
+    canvas.className = 'block w-full h-auto';
+    container.prepend(canvas);
+    const timer = setInterval(() => {
+      const aspect = canvas.width && canvas.height ? canvas.width / canvas.height : 16 / 9;
+      const cameraAspect = compositor.cameraAspect;
+      setFrame(prev => prev.aspect === aspect && prev.cameraAspect === cameraAspect ? prev : { aspect, cameraAspect });
+    }, 500);
+    return () => {
+      clearInterval(timer);
+      canvas.remove();
+    };
+  }, [compositor]);
+
+  // Bubble outline in percentages of the preview, matching what the canvas draws
+  const rect = getBubbleRect(layout, frame.aspect, 1, frame.cameraAspect);
+  const outline = {
+    left: `${(rect.x / frame.aspect) * 100}%`,
+    top: `${rect.y * 100}%`,
+    width: `${(rect.w / frame.aspect) * 100}%`,
+    height: `${rect.h * 100}%`,
+  };
+
+  const handlePointerDown = (mode: 'move' | 'resize') => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, start: layout };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const box = previewRef.current?.getBoundingClientRect();
+    if (!drag || !box) return;
+    const dx = (e.clientX - drag.startX) / box.width;
+    const dy = (e.clientY - drag.startY) / box.height;
+    if (drag.mode === 'move') {
+      onLayoutChange({ ...drag.start, x: clamp(drag.start.x + dx, 0, 1), y: clamp(drag.start.y + dy, 0, 1) });
+    } else {
+      onLayoutChange({ ...drag.start, size: clamp(drag.start.size + dx, BUBBLE_SIZE_RANGE.min, BUBBLE_SIZE_RANGE.max) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const renderSegments = <T extends string>(options: T[], labels: Record<T, string>, value: T | null, onSelect: (v: T) => void) => (
+    <div
+      className="grid gap-2 p-1 bg-zinc-800 rounded-xl text-sm"
+      style={{ gridTemplateColumns: `repeat(${options.length}, minmax(0, 1fr))` }}
+    >
+      {options.map(option => (
+        <button
+          key={option}
+          onClick={() => onSelect(option)}
+          className={`py-2 rounded-lg transition-colors ${value === option ? 'bg-emerald-500 font-bold' : 'hover:bg-white/10'}`}
+        >
+          {labels[option]}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderToggle = (label: string, value: boolean, onToggle: () => void) => (
+    <button
+      onClick={onToggle}
+      className="w-full flex items-center justify-between py-3 px-4 bg-zinc-800 rounded-xl text-sm hover:bg-zinc-700 transition-colors"
+    >
+      <span>{label}</span>
+      <span className={value ? 'text-emerald-400 font-bold' : 'text-zinc-400'}>{value ? t.common.on : t.common.off}</span>
+    </button>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 bg-black/95 z-[60] p-8 flex flex-col gap-6 overflow-y-auto"
+    >
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-bold">{t.screen.title}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <ChevronDown className="w-6 h-6" />
+        </button>
+      </div>
+
+      <p className="text-sm text-zinc-400">
+        {t.screen.intro}
+      </p>
+
+      {screen.status === 'unsupported' ? (
+        <p className="p-4 bg-zinc-900 rounded-2xl text-amber-400 text-sm">{t.screen.unsupported}</p>
+      ) : (
+        <button
+          onClick={screen.status === 'sharing' ? screen.stop : screen.start}
+          disabled={screen.status === 'requesting' || isRecording}
+          className={`flex items-center justify-center gap-2 py-4 rounded-xl font-bold transition-colors disabled:opacity-40 ${screen.status === 'sharing' ? 'bg-zinc-800 hover:bg-zinc-700' : 'bg-emerald-500 hover:bg-emerald-600'}`}
+        >
+          {screen.status === 'sharing'
+            ? <><MonitorOff className="w-5 h-5" /> {t.screen.stop}</>
+            : <><Monitor className="w-5 h-5" /> {screen.status === 'requesting' ? t.screen.requesting : t.screen.start}</>}
+        </button>
+      )}
+      {isRecording && <p className="-mt-4 text-xs text-zinc-500 text-center">{t.screen.lockedWhileRecording}</p>}
+      {screen.error && <p className="-mt-4 text-sm text-red-400">{t.screen.errors[screen.error]}</p>}
+      {screen.status === 'sharing' && screen.isMonitor && (
+        <p className="-mt-4 text-sm text-amber-400">{t.screen.monitorWarning}</p>
+      )}
+
+      {compositor && (
+        <div
+          ref={previewRef}
+          className="relative shrink-0 rounded-2xl overflow-hidden bg-zinc-900 touch-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <div
+            className={`absolute border-2 border-dashed border-emerald-400 cursor-move ${layout.shape === 'circle' ? 'rounded-full' : 'rounded-lg'}`}
+            style={outline}
+            onPointerDown={handlePointerDown('move')}
+            title={t.screen.dragBubble}
+          >
+            <div
+              className="absolute -right-2 -bottom-2 w-5 h-5 rounded-full bg-emerald-500 border-2 border-white cursor-nwse-resize"
+              onPointerDown={handlePointerDown('resize')}
+              title={t.screen.resizeBubble}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div className="text-sm text-zinc-400">{t.screen.bubble}</div>
+        {renderSegments(SHAPES, t.screen.shapes, layout.shape, shape => update({ shape }))}
+        {renderSegments(CORNERS, t.common.positions, null, corner => onLayoutChange(placeInCorner(layout, corner, frame.aspect, frame.cameraAspect)))}
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-zinc-400">
+            <span>{t.common.size}</span>
+            <span>{Math.round(layout.size * 100)}%</span>
+          </div>
+          <input
+            type="range" min={BUBBLE_SIZE_RANGE.min} max={BUBBLE_SIZE_RANGE.max} step={0.01} value={layout.size}
+            onChange={(e) => update({ size: parseFloat(e.target.value) })}
+            className="w-full accent-emerald-500"
+          />
+        </div>
+        {renderToggle(t.screen.mirror, layout.mirror, () => update({ mirror: !layout.mirror }))}
+        {renderToggle(t.screen.systemAudio, layout.systemAudio, () => update({ systemAudio: !layout.systemAudio }))}
+      </div>
+    </motion.div>
+  );
+}
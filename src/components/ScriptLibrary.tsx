@@ -0,0 +1,270 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useRef } from 'react';
+import { Check, ChevronDown, Copy, Edit3, FileDown, FilePlus, FolderPlus, Link2, Pencil, Search, Trash2, Upload } from 'lucide-react';
+import { motion } from 'motion/react';
+import { ScriptLibrary as Library } from '../hooks/useScriptLibrary';
+import { ScriptTransfer } from '../hooks/useScriptTransfer';
+import { Folders } from '../hooks/useFolders';
+import { useFileDrop } from '../hooks/useFileDrop';
+import { IMPORT_ACCEPT } from '../lib/scriptTransfer';
+import { useI18n } from '../hooks/useI18n';
+
+interface ScriptLibraryProps {
+  library: Library;
+  transfer: ScriptTransfer;
+  folders: Folders;
+  onClose: () => void;
+  onEdit: () => void;
+}
+
+export function ScriptLibrary({ library, transfer, folders, onClose, onEdit }: ScriptLibraryProps) {
+  const { t, locale } = useI18n();
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  // 'all', 'none' (scripts outside any folder) or a folder id
+  const [folderFilter, setFolderFilter] = useState('all');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { isDragging, dropProps } = useFileDrop(transfer.importFiles);
+
+  const folderIds = new Set(folders.folders.map(f => f.id));
+  const selectedFolder = folders.folders.find(f => f.id === folderFilter);
+  const inFilter = (folderId?: string | null) => {
+    if (folderFilter === 'all') return true;
+    // Scripts whose folder was deleted count as unfiled
+    if (folderFilter === 'none') return !folderId || !folderIds.has(folderId);
+    return folderId === folderFilter;
+  };
+
+  const needle = query.trim().toLowerCase();
+  const visible = library.scripts.filter(s => inFilter(s.folderId)
+    && (!needle || s.title.toLowerCase().includes(needle) || s.text.toLowerCase().includes(needle)));
+
+  const createFolder = () => {
+    const name = prompt(t.library.folderNamePrompt)?.trim();
+    if (name) setFolderFilter(folders.create(name).id);
+  };
+
+  const renameFolder = () => {
+    if (!selectedFolder) return;
+    const name = prompt(t.library.renameFolder, selectedFolder.name)?.trim();
+    if (name && name !== selectedFolder.name) folders.rename(selectedFolder.id, name);
+  };
+
+  const removeFolder = () => {
+    if (!selectedFolder || !confirm(t.library.confirmDeleteFolder(selectedFolder.name))) return;
+    folders.remove(selectedFolder);
+    setFolderFilter('all');
+  };
+
+  const chipClass = (active: boolean) =>
+    `shrink-0 px-4 py-2 rounded-full text-sm transition-colors ${active ? 'bg-emerald-500 font-bold' : 'bg-zinc-800 hover:bg-zinc-700'}`;
+
+  const commitRename = () => {
+    if (renamingId && draftTitle.trim()) library.rename(renamingId, draftTitle.trim());
+    setRenamingId(null);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 bg-black/95 z-[60] p-8 flex flex-col gap-6"
+      {...dropProps}
+    >
+      {isDragging && (
+        <div className="absolute inset-4 z-10 flex items-center justify-center rounded-3xl border-2 border-dashed border-emerald-500 bg-black/80 text-lg font-bold pointer-events-none">
+          {t.library.dropToImport}
+        </div>
+      )}
+
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-bold">{t.common.scriptLibrary}</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-2 px-4 py-2 bg-zinc-800 rounded-full hover:bg-zinc-700"
+            title={t.library.importHint}
+          >
+            <Upload className="w-5 h-5" /> {t.library.import}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={IMPORT_ACCEPT}
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              const files: File[] = Array.from(e.target.files ?? []);
+              e.target.value = '';
+              if (files.length > 0) transfer.importFiles(files);
+            }}
+          />
+          <button
+            onClick={() => {
+              const script = library.create();
+              if (selectedFolder) library.updateScript(script.id, { folderId: selectedFolder.id });
+              onEdit();
+            }}
+            className="flex items-center gap-2 px-4 py-2 bg-emerald-500 rounded-full font-bold"
+          >
+            <FilePlus className="w-5 h-5" /> {t.library.create}
+          </button>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+            <ChevronDown className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-3 px-4 py-3 bg-zinc-900 rounded-2xl border border-zinc-800 focus-within:border-emerald-500 transition-colors">
+        <Search className="w-5 h-5 text-zinc-500" />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t.library.searchPlaceholder}
+          className="flex-1 bg-transparent outline-none"
+        />
+      </label>
+
+      <div className="flex items-center gap-2 overflow-x-auto -mt-2">
+        <button onClick={() => setFolderFilter('all')} className={chipClass(folderFilter === 'all')}>{t.common.all}</button>
+        <button onClick={() => setFolderFilter('none')} className={chipClass(folderFilter === 'none')}>{t.library.unfiled}</button>
+        {folders.folders.map(folder => (
+          <button key={folder.id} onClick={() => setFolderFilter(folder.id)} className={chipClass(folderFilter === folder.id)}>
+            {folder.name}
+          </button>
+        ))}
+        <button onClick={createFolder} className="shrink-0 p-2 text-zinc-400 hover:bg-white/10 rounded-full" title={t.library.newFolder}>
+          <FolderPlus className="w-5 h-5" />
+        </button>
+        {selectedFolder && (
+          <>
+            <button onClick={renameFolder} className="shrink-0 p-2 text-zinc-400 hover:bg-white/10 rounded-full" title={t.library.renameFolder}>
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button onClick={removeFolder} className="shrink-0 p-2 text-zinc-400 hover:bg-red-500/20 hover:text-red-400 rounded-full" title={t.library.deleteFolder}>
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-3">
+        {visible.length === 0 && (
+          <p className="text-center text-zinc-500 py-12">{t.library.noMatches}</p>
+        )}
+        {visible.map(script => {
+          const isCurrent = script.id === library.current.id;
+          return (
+            <div
+              key={script.id}
+              className={`p-4 rounded-2xl border transition-colors ${isCurrent ? 'border-emerald-500 bg-emerald-500/10' : 'border-zinc-800 bg-zinc-900'}`}
+            >
+              {renamingId === script.id ? (
+                <div className="flex gap-2">
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    onBlur={commitRename}
+                    className="flex-1 bg-zinc-800 rounded-lg px-3 py-2 outline-none"
+                  />
+                  <button onClick={commitRename} className="p-2 bg-emerald-500 rounded-lg">
+                    <Check className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => {
+                    library.select(script.id);
+                    onClose();
+                  }}
+                  className="w-full text-left"
+                >
+                  <div className="font-bold truncate">{script.title}</div>
+                  <div className="text-sm text-zinc-400 truncate">{script.text || t.library.emptyScript}</div>
+                  <div className="text-xs text-zinc-600 mt-1">{new Date(script.updatedAt).toLocaleString(locale)}</div>
+                </button>
+              )}
+
+              <div className="flex justify-end items-center gap-1 mt-3 text-zinc-400">
+                {folders.folders.length > 0 && (
+                  <select
+                    value={script.folderId && folderIds.has(script.folderId) ? script.folderId : ''}
+                    onChange={(e) => library.updateScript(script.id, { folderId: e.target.value || null })}
+                    className="mr-auto max-w-40 bg-zinc-800 rounded-lg px-2 py-1 text-sm outline-none"
+                    title={t.library.moveToFolder}
+                  >
+                    <option value="">{t.library.unfiled}</option>
+                    {folders.folders.map(folder => (
+                      <option key={folder.id} value={folder.id}>{folder.name}</option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={() => {
+                    library.select(script.id);
+                    onEdit();
+                  }}
+                  className="p-2 hover:bg-white/10 rounded-full"
+                  title={t.common.edit}
+                >
+                  <Edit3 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => {
+                    setRenamingId(script.id);
+                    setDraftTitle(script.title);
+                  }}
+                  className="p-2 hover:bg-white/10 rounded-full"
+                  title={t.common.rename}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => transfer.exportScript(script)}
+                  className="p-2 hover:bg-white/10 rounded-full"
+                  title={t.library.exportJson}
+                >
+                  <FileDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => transfer.shareScript(script)}
+                  className="p-2 hover:bg-white/10 rounded-full"
+                  title={t.common.copyShareLink}
+                >
+                  <Link2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => library.duplicate(script.id)}
+                  className="p-2 hover:bg-white/10 rounded-full"
+                  title={t.library.duplicate}
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirm(t.common.confirmDelete(script.title))) library.remove(script.id);
+                  }}
+                  className="p-2 hover:bg-red-500/20 hover:text-red-400 rounded-full"
+                  title={t.common.delete}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
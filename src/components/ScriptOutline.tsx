@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { ScriptDocument, Span } from '../lib/scriptMarkup';
+import { useI18n } from '../hooks/useI18n';
+
+interface ScriptOutlineProps {
+  doc: ScriptDocument;
+  currentIndex: number;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+const SNIPPET_LENGTH = 24;
+
+function snippet(spans: Span[]): string {
+  const text = spans.map(s => s.type === 'text' || s.type === 'emphasis' ? s.text : '').join('').trim();
+  return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}…` : text;
+}
+
+export function ScriptOutline({ doc, currentIndex, onJump, onClose }: ScriptOutlineProps) {
+  const { t } = useI18n();
+  // Indices of sections whose paragraphs are folded away
+  const [collapsed, setCollapsed] = useState<Set<number>>(() => new Set());
+
+  const toggle = (index: number) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  let sectionIndex = -1;
+
+  return (
+    <motion.div
+      initial={{ x: '-100%', opacity: 0 }}
+      animate={{ x: 0, opacity: 1 }}
+      exit={{ x: '-100%', opacity: 0 }}
+      className="absolute top-20 left-4 bottom-56 w-64 z-40 bg-zinc-900/90 backdrop-blur-md rounded-2xl p-4 flex flex-col gap-3"
+    >
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold">{t.app.outline}</h3>
+        <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-full">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-1 text-sm">
+        {doc.blocks.map((block, i) => {
+          if (block.type === 'section') {
+            sectionIndex = i;
+            const isCollapsed = collapsed.has(i);
+            return (
+              <div key={i} className="flex items-center gap-1 pt-2">
+                <button onClick={() => toggle(i)} className="p-1 hover:bg-white/10 rounded text-zinc-400">
+                  {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => onJump(i)}
+                  className={`flex-1 text-left font-bold truncate ${i === currentIndex ? 'text-emerald-400' : ''}`}
+                >
+                  {block.title}
+                </button>
+              </div>
+            );
+          }
+
+          if (sectionIndex >= 0 && collapsed.has(sectionIndex)) return null;
+          return (
+            <button
+              key={i}
+              onClick={() => onJump(i)}
+              className={`block w-full text-left py-1 rounded-lg truncate transition-colors ${sectionIndex >= 0 ? 'pl-7 pr-2' : 'px-2'} ${
+                i === currentIndex ? 'bg-emerald-500/20 text-emerald-300' : 'text-zinc-400 hover:bg-white/10'
+              }`}
+            >
+              {snippet(block.spans) || '…'}
+            </button>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Pause } from 'lucide-react';
+import { ScriptDocument, Span } from '../lib/scriptMarkup';
+
+interface ScriptViewProps {
+  text: string;
+  doc: ScriptDocument;
+  style: React.CSSProperties;
+}
+
+// Pause markers carry their duration so the scroll loop can find them in the DOM
+export const PAUSE_SELECTOR = '[data-pause-seconds]';
+
+export function ScriptView({ text, doc, style }: ScriptViewProps) {
+  if (!doc.hasMarkup && doc.blocks.length <= 1) {
+    return <p data-block-index={0} style={style}>{text}</p>;
+  }
+
+  return (
+    <div style={style} className="space-y-[0.75em]">
+      {doc.blocks.map((block, i) => block.type === 'section' ? (
+        <h4
+          key={i}
+          data-block-index={i}
+          className="pt-[0.5em] text-[0.8em] font-bold tracking-widest text-emerald-400 border-t border-emerald-500/40"
+        >
+          {block.title}
+        </h4>
+      ) : (
+        <p key={i} data-block-index={i}>
+          {block.spans.map(renderSpan)}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+function renderSpan(span: Span, key: number) {
+  switch (span.type) {
+    case 'text':
+      return <React.Fragment key={key}>{span.text}</React.Fragment>;
+    case 'emphasis':
+      return <strong key={key} className="font-black underline decoration-emerald-400 decoration-2 underline-offset-4">{span.text}</strong>;
+    case 'pause':
+      return (
+        <span
+          key={key}
+          data-pause-seconds={span.seconds}
+          className="inline-flex items-center gap-1 mx-1 px-2 align-middle rounded-full bg-white/15 text-[0.5em] text-zinc-300"
+        >
+          <Pause className="w-[1em] h-[1em]" /> {span.seconds}s
+        </span>
+      );
+    case 'cue':
+      return (
+        <span key={key} className="inline-block mx-1 px-2 align-middle rounded-md bg-amber-500/80 text-black text-[0.5em] font-bold">
+          {span.label}
+        </span>
+      );
+  }
+}
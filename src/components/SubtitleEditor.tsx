@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { ChevronDown, Clock, Download, FileVideo, Minus, Plus, Trash2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import { SubtitleCue, Take } from '../types';
+import { getTakeBlob } from '../lib/takeStore';
+import { cueAt, toSrt, toVtt } from '../lib/subtitles';
+import { canConvertToMp4, getVideoFileName } from '../lib/videoExport';
+import { useMp4Export } from '../hooks/useMp4Export';
+import { formatFileSize } from '../lib/format';
+import { downloadBlob } from '../lib/download';
+import { useI18n } from '../hooks/useI18n';
+
+interface SubtitleEditorProps {
+  take: Take;
+  onChange: (cues: SubtitleCue[]) => void;
+  onDownload: (blob: Blob, name: string) => void;
+  onClose: () => void;
+}
+
+const NUDGE_SECONDS = 0.1;
+
+function formatCueTime(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+}
+
+function saveText(content: string, fileName: string, type: string) {
+  downloadBlob(new Blob([content], { type }), fileName);
+}
+
+export function SubtitleEditor({ take, onChange, onDownload, onClose }: SubtitleEditorProps) {
+  const { t, locale } = useI18n();
+  const [blob, setBlob] = useState<Blob | null>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+  const [time, setTime] = useState(0);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const burnIn = useMp4Export();
+  const cues = take.cues ?? [];
+  const active = cueAt(cues, time);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    setIsMissing(false);
+    getTakeBlob(take.id)
+      .catch(err => {
+        console.error("Loading take failed:", err);
+        return undefined;
+      })
+      .then(stored => {
+        if (cancelled) return;
+        if (!stored) {
+          setIsMissing(true);
+          return;
+        }
+        objectUrl = URL.createObjectURL(stored);
+        setBlob(stored);
+        setUrl(objectUrl);
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [take.id]);
+
+  const updateCue = (index: number, changes: Partial<SubtitleCue>) => {
+    onChange(cues.map((cue, i) => {
+      if (i !== index) return cue;
+      const next = { ...cue, ...changes };
+      next.start = Math.max(0, Math.min(next.start, take.duration));
+      next.end = Math.max(next.start + NUDGE_SECONDS, Math.min(next.end, take.duration));
+      return next;
+    }));
+  };
+
+  const shiftAll = (delta: number) => {
+    onChange(cues.map(cue => ({
+      ...cue,
+      start: Math.max(0, cue.start + delta),
+      end: Math.max(NUDGE_SECONDS, cue.end + delta)
+    })));
+  };
+
+  const seek = (seconds: number) => {
+    if (videoRef.current) videoRef.current.currentTime = seconds;
+    setTime(seconds);
+  };
+
+  const baseName = getVideoFileName(take.mimeType, take.name).replace(/\.\w+$/, '');
+
+  const renderTime = (index: number, field: 'start' | 'end') => (
+    <div className="flex items-center gap-1">
+      <button onClick={() => updateCue(index, { [field]: cues[index][field] - NUDGE_SECONDS })} className="p-1 hover:bg-white/10 rounded">
+        <Minus className="w-3 h-3" />
+      </button>
+      <button onClick={() => seek(cues[index][field])} className="w-14 font-mono text-xs text-center hover:text-emerald-400">
+        {formatCueTime(cues[index][field])}
+      </button>
+      <button onClick={() => updateCue(index, { [field]: cues[index][field] + NUDGE_SECONDS })} className="p-1 hover:bg-white/10 rounded">
+        <Plus className="w-3 h-3" />
+      </button>
+      <button onClick={() => updateCue(index, { [field]: time })} className="p-1 hover:bg-white/10 rounded" title={t.subtitles.setToCurrentTime}>
+        <Clock className="w-3 h-3" />
+      </button>
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 bg-black/95 z-[80] p-8 flex flex-col gap-6"
+    >
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-bold truncate">{t.subtitles.title(take.name)}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <ChevronDown className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="relative w-full max-w-2xl mx-auto">
+        {url && (
+          <video
+            ref={videoRef}
+            src={url}
+            controls
+            onTimeUpdate={(e) => setTime(e.currentTarget.currentTime)}
+            onSeeked={(e) => setTime(e.currentTarget.currentTime)}
+            className="w-full max-h-[40vh] rounded-xl bg-black"
+          />
+        )}
+        {isMissing && (
+          <div className="w-full aspect-video max-h-[40vh] flex items-center justify-center rounded-xl bg-zinc-900 text-sm text-zinc-500">
+            {t.gallery.fileMissing}
+          </div>
+        )}
+        {active && (
+          <div className="absolute bottom-12 inset-x-0 text-center pointer-events-none">
+            <span className="px-3 py-1 bg-black/70 rounded text-lg font-bold">{active.text}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-sm">
+        <button onClick={() => shiftAll(-NUDGE_SECONDS)} disabled={cues.length === 0} className="px-4 py-2 bg-zinc-800 rounded-full hover:bg-zinc-700 disabled:opacity-30">
+          {t.subtitles.shiftEarlier(NUDGE_SECONDS)}
+        </button>
+        <button onClick={() => shiftAll(NUDGE_SECONDS)} disabled={cues.length === 0} className="px-4 py-2 bg-zinc-800 rounded-full hover:bg-zinc-700 disabled:opacity-30">
+          {t.subtitles.shiftLater(NUDGE_SECONDS)}
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={() => saveText(toSrt(cues), `${baseName}.srt`, 'application/x-subrip')}
+          disabled={cues.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-zinc-800 rounded-full hover:bg-zinc-700 disabled:opacity-30"
+        >
+          <Download className="w-4 h-4" /> SRT
+        </button>
+        <button
+          onClick={() => saveText(toVtt(cues), `${baseName}.vtt`, 'text/vtt')}
+          disabled={cues.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-zinc-800 rounded-full hover:bg-zinc-700 disabled:opacity-30"
+        >
+          <Download className="w-4 h-4" /> VTT
+        </button>
+        {canConvertToMp4() && burnIn.state.status === 'idle' && (
+          <button
+            onClick={() => blob && burnIn.start(blob, { burnInCues: cues })}
+            disabled={!blob || cues.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-zinc-800 rounded-full hover:bg-zinc-700 disabled:opacity-30"
+          >
+            <FileVideo className="w-4 h-4" /> {t.subtitles.burnIn}
+          </button>
+        )}
+        {burnIn.state.status === 'converting' && (
+          <button onClick={burnIn.reset} className="px-4 py-2 bg-zinc-800 rounded-full text-zinc-400 hover:text-white">
+            {t.subtitles.burningIn(Math.round(burnIn.state.progress * 100))}
+          </button>
+        )}
+        {burnIn.state.status === 'done' && (
+          <button
+            onClick={() => burnIn.state.status === 'done' && onDownload(burnIn.state.blob, t.subtitles.burnedInName(take.name))}
+            className="flex items-center gap-2 px-4 py-2 bg-emerald-500/20 text-emerald-300 rounded-full font-bold hover:bg-emerald-500/30"
+          >
+            <Download className="w-4 h-4" /> {t.subtitles.saveBurnedIn(formatFileSize(burnIn.state.blob.size, locale))}
+          </button>
+        )}
+        {burnIn.state.status === 'error' && (
+          <button onClick={burnIn.reset} className="px-4 py-2 bg-red-500/20 text-red-400 rounded-full">
+            {t.subtitles.burnInFailed(burnIn.state.message)}
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-2">
+        {cues.length === 0 && (
+          <p className="text-center text-zinc-500 py-12">{t.subtitles.empty}</p>
+        )}
+        {cues.map((cue, i) => (
+          <div
+            key={i}
+            className={`flex flex-wrap items-center gap-3 p-3 rounded-2xl ${cue === active ? 'bg-emerald-500/15 ring-1 ring-emerald-500/50' : 'bg-zinc-900'}`}
+          >
+            <span className="w-6 text-xs text-zinc-500 text-right">{i + 1}</span>
+            {renderTime(i, 'start')}
+            <span className="text-zinc-600">→</span>
+            {renderTime(i, 'end')}
+            <input
+              value={cue.text}
+              onChange={(e) => updateCue(i, { text: e.target.value })}
+              className="flex-1 min-w-[10rem] bg-zinc-800 rounded-lg px-3 py-1.5 outline-none"
+            />
+            <button
+              onClick={() => onChange(cues.filter((_, j) => j !== i))}
+              className="p-2 hover:bg-red-500/20 hover:text-red-400 rounded-full"
+              title={t.common.delete}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
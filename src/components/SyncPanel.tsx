@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { ChevronDown, Cloud, LogOut, RefreshCw } from 'lucide-react';
+import { motion } from 'motion/react';
+import { Sync } from '../hooks/useSync';
+import { useI18n } from '../hooks/useI18n';
+
+interface SyncPanelProps {
+  sync: Sync;
+  onClose: () => void;
+}
+
+export function SyncPanel({ sync, onClose }: SyncPanelProps) {
+  const { t, locale } = useI18n();
+  const [serverUrl, setServerUrl] = useState(window.location.origin);
+  const [token, setToken] = useState('');
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [connectError, setConnectError] = useState<string | null>(null);
+
+  const connect = async () => {
+    setIsConnecting(true);
+    setConnectError(null);
+    try {
+      await sync.connect(serverUrl, token);
+      setToken('');
+    } catch (err) {
+      setConnectError(err instanceof TypeError
+        ? t.sync.unreachable
+        : err instanceof Error ? err.message : t.sync.connectFailed);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 bg-black/95 z-[60] p-8 flex flex-col gap-6"
+    >
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-bold">{t.sync.title}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <ChevronDown className="w-6 h-6" />
+        </button>
+      </div>
+
+      <p className="text-sm text-zinc-400">
+        {t.sync.intro}
+      </p>
+
+      {!sync.account ? (
+        <div className="bg-zinc-900 rounded-3xl p-6 space-y-4">
+          <label className="block space-y-2">
+            <span className="text-sm text-zinc-400">{t.sync.serverUrl}</span>
+            <input
+              value={serverUrl}
+              onChange={(e) => setServerUrl(e.target.value)}
+              placeholder="https://prompter.example.com"
+              className="w-full bg-zinc-800 rounded-xl px-4 py-3 outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+          </label>
+          <label className="block space-y-2">
+            <span className="text-sm text-zinc-400">{t.sync.token}</span>
+            <input
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              type="password"
+              placeholder={t.sync.tokenPlaceholder}
+              className="w-full bg-zinc-800 rounded-xl px-4 py-3 outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+          </label>
+          {connectError && <p className="text-sm text-red-400">{connectError}</p>}
+          <button
+            onClick={connect}
+            disabled={isConnecting || !serverUrl.trim() || !token.trim()}
+            className="w-full flex items-center justify-center gap-2 py-4 bg-emerald-500 hover:bg-emerald-600 rounded-xl font-bold transition-colors disabled:opacity-40"
+          >
+            <Cloud className="w-5 h-5" /> {isConnecting ? t.sync.connecting : t.sync.connect}
+          </button>
+        </div>
+      ) : (
+        <div className="bg-zinc-900 rounded-3xl p-6 space-y-4">
+          <div className="flex justify-between text-sm">
+            <span className="text-zinc-400">{t.sync.member}</span>
+            <span className="font-bold">{sync.account.userName}</span>
+          </div>
+          <div className="flex justify-between text-sm gap-4">
+            <span className="text-zinc-400 shrink-0">{t.sync.server}</span>
+            <span className="truncate">{sync.account.serverUrl}</span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-zinc-400">{t.sync.statusLabel}</span>
+            <span className={sync.status === 'error' ? 'text-red-400' : sync.status === 'offline' ? 'text-amber-400' : ''}>
+              {sync.status === 'error' && sync.error ? sync.error : t.sync.status[sync.status]}
+            </span>
+          </div>
+          {sync.lastSyncedAt && (
+            <div className="flex justify-between text-sm">
+              <span className="text-zinc-400">{t.sync.lastSynced}</span>
+              <span>{new Date(sync.lastSyncedAt).toLocaleString(locale)}</span>
+            </div>
+          )}
+          {sync.conflicts > 0 && (
+            <div className="flex items-center justify-between gap-4 p-3 bg-amber-500/10 text-amber-300 rounded-xl text-sm">
+              <span>{t.sync.conflicts(sync.conflicts)}</span>
+              <button onClick={sync.clearConflicts} className="shrink-0 text-zinc-400 hover:text-white">{t.common.gotIt}</button>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={sync.syncNow}
+              disabled={sync.status === 'syncing'}
+              className="flex items-center justify-center gap-2 py-3 bg-emerald-500 hover:bg-emerald-600 rounded-xl font-bold transition-colors disabled:opacity-40"
+            >
+              <RefreshCw className={`w-4 h-4 ${sync.status === 'syncing' ? 'animate-spin' : ''}`} /> {t.sync.syncNow}
+            </button>
+            <button
+              onClick={() => {
+                if (confirm(t.sync.confirmDisconnect)) sync.disconnect();
+              }}
+              className="flex items-center justify-center gap-2 py-3 bg-zinc-800 hover:bg-zinc-700 rounded-xl font-bold transition-colors"
+            >
+              <LogOut className="w-4 h-4" /> {t.sync.disconnect}
+            </button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Captions, ChevronDown, Download, Film, Pencil, Play, Star, Trash2, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Take } from '../types';
+import { TakeGallery as Gallery } from '../hooks/useTakeGallery';
+import { getTakeBlob } from '../lib/takeStore';
+import { formatDuration, formatFileSize } from '../lib/format';
+import { useI18n } from '../hooks/useI18n';
+
+interface TakeGalleryProps {
+  gallery: Gallery;
+  currentScriptId: string;
+  onDownload: (take: Take, blob: Blob) => void;
+  onEditSubtitles: (take: Take) => void;
+  onClose: () => void;
+}
+
+type Filter = 'all' | 'script' | 'starred';
+
+const FILTERS: Filter[] = ['all', 'script', 'starred'];
+
+export function TakeGallery({ gallery, currentScriptId, onDownload, onEditSubtitles, onClose }: TakeGalleryProps) {
+  const { t, locale } = useI18n();
+  const [filter, setFilter] = useState<Filter>('all');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [playing, setPlaying] = useState<{ take: Take; url: string } | null>(null);
+
+  const visible = gallery.takes.filter(item =>
+    filter === 'all' || (filter === 'script' ? item.scriptId === currentScriptId : item.starred)
+  );
+
+  // Thumbnails are blobs; give each one an object URL for as long as the gallery is open
+  const thumbnails = useMemo(() => {
+    const urls = new Map<string, string>();
+    gallery.takes.forEach(item => {
+      if (item.thumbnail) urls.set(item.id, URL.createObjectURL(item.thumbnail));
+    });
+    return urls;
+  }, [gallery.takes]);
+
+  useEffect(() => () => thumbnails.forEach(url => URL.revokeObjectURL(url)), [thumbnails]);
+  useEffect(() => () => {
+    if (playing) URL.revokeObjectURL(playing.url);
+  }, [playing]);
+
+  const loadBlob = async (take: Take) => {
+    let blob: Blob | undefined;
+    try {
+      blob = await getTakeBlob(take.id);
+    } catch (err) {
+      console.error("Loading take failed:", err);
+    }
+    if (!blob) alert(t.gallery.fileMissing);
+    return blob;
+  };
+
+  const play = async (take: Take) => {
+    const blob = await loadBlob(take);
+    if (blob) setPlaying({ take, url: URL.createObjectURL(blob) });
+  };
+
+  const download = async (take: Take) => {
+    const blob = await loadBlob(take);
+    if (blob) onDownload(take, blob);
+  };
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) gallery.update(renamingId, { name: draftName.trim() });
+    setRenamingId(null);
+  };
+
+  const unstarred = gallery.takes.filter(item => !item.starred);
+  const cleanup = () => {
+    if (unstarred.length === 0) return;
+    const size = unstarred.reduce((sum, item) => sum + item.size, 0);
+    if (confirm(t.gallery.confirmCleanup(unstarred.length, formatFileSize(size, locale)))) {
+      gallery.remove(unstarred.map(item => item.id));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 bg-black/95 z-[60] p-8 flex flex-col gap-6"
+    >
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-bold">{t.common.takeGallery}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <ChevronDown className="w-6 h-6" />
+        </button>
+      </div>
+
+      {/* Storage */}
+      <div className="flex items-center justify-between gap-4 p-4 bg-zinc-900 rounded-2xl text-sm">
+        <div className="space-y-1">
+          <div>{t.gallery.takesUsage(formatFileSize(gallery.usage.takes, locale))}</div>
+          {gallery.usage.quota !== undefined && (
+            <div className="text-zinc-500">
+              {t.gallery.storageUsage(formatFileSize(gallery.usage.usage ?? 0, locale), formatFileSize(gallery.usage.quota, locale))}
+            </div>
+          )}
+        </div>
+        <button
+          onClick={cleanup}
+          disabled={unstarred.length === 0}
+          className="px-4 py-2 bg-zinc-800 rounded-full hover:bg-red-500/20 hover:text-red-400 disabled:opacity-30 transition-colors"
+        >
+          {t.gallery.cleanup}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 p-1 bg-zinc-900 rounded-xl text-sm">
+        {FILTERS.map(value => (
+          <button
+            key={value}
+            onClick={() => setFilter(value)}
+            className={`py-2 rounded-lg transition-colors ${filter === value ? 'bg-emerald-500 font-bold' : 'hover:bg-white/10'}`}
+          >
+            {t.gallery.filters[value]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 gap-4 content-start">
+        {visible.length === 0 && (
+          <p className="col-span-full text-center text-zinc-500 py-12">{t.gallery.empty}</p>
+        )}
+        {visible.map(take => (
+          <div key={take.id} className="bg-zinc-900 rounded-2xl overflow-hidden">
+            <button onClick={() => play(take)} className="relative block w-full aspect-video bg-black group">
+              {thumbnails.has(take.id) ? (
+                <img src={thumbnails.get(take.id)} alt="" className="w-full h-full object-cover" />
+              ) : (
+                <Film className="absolute inset-0 m-auto w-10 h-10 text-zinc-700" />
+              )}
+              <Play className="absolute inset-0 m-auto w-10 h-10 fill-current opacity-0 group-hover:opacity-80 transition-opacity" />
+              <span className="absolute bottom-2 right-2 px-2 py-0.5 bg-black/70 rounded text-xs font-mono">
+                {formatDuration(take.duration)}
+              </span>
+            </button>
+
+            <div className="p-4 space-y-2">
+              {renamingId === take.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  onBlur={commitRename}
+                  className="w-full bg-zinc-800 rounded-lg px-3 py-1 outline-none"
+                />
+              ) : (
+                <div className="font-bold truncate">{take.name}</div>
+              )}
+              <div className="text-xs text-zinc-500">
+                {new Date(take.createdAt).toLocaleString(locale)} · {formatFileSize(take.size, locale)}
+              </div>
+
+              <div className="flex items-center justify-between">
+                {/* Rating: tap the current rating again to clear it */}
+                <div className="flex">
+                  {[1, 2, 3, 4, 5].map(n => (
+                    <button
+                      key={n}
+                      onClick={() => gallery.update(take.id, { rating: take.rating === n ? 0 : n })}
+                      className="p-0.5"
+                    >
+                      <Star className={`w-4 h-4 ${n <= take.rating ? 'fill-amber-400 text-amber-400' : 'text-zinc-600'}`} />
+                    </button>
+                  ))}
+                </div>
+                <div className="flex gap-1 text-zinc-400">
+                  <button
+                    onClick={() => gallery.update(take.id, { starred: !take.starred })}
+                    className={`p-2 rounded-full transition-colors ${take.starred ? 'bg-amber-400 text-black' : 'hover:bg-white/10'}`}
+                    title={t.gallery.star}
+                  >
+                    <Star className={`w-4 h-4 ${take.starred ? 'fill-current' : ''}`} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      setRenamingId(take.id);
+                      setDraftName(take.name);
+                    }}
+                    className="p-2 hover:bg-white/10 rounded-full"
+                    title={t.common.rename}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onEditSubtitles(take)} className="p-2 hover:bg-white/10 rounded-full" title={t.result.subtitles}>
+                    <Captions className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => download(take)} className="p-2 hover:bg-white/10 rounded-full" title={t.common.saveVideo}>
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm(t.common.confirmDelete(take.name))) gallery.remove([take.id]);
+                    }}
+                    className="p-2 hover:bg-red-500/20 hover:text-red-400 rounded-full"
+                    title={t.common.delete}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Player */}
+      <AnimatePresence>
+        {playing && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 z-10 bg-black/95 flex flex-col items-center justify-center gap-4 p-6"
+          >
+            <div className="w-full max-w-2xl flex justify-between items-center">
+              <span className="font-bold truncate">{playing.take.name}</span>
+              <button onClick={() => setPlaying(null)} className="p-2 hover:bg-white/10 rounded-full">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            <video src={playing.url} controls autoPlay className="w-full max-w-2xl max-h-[70vh] rounded-xl bg-black" />
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+}
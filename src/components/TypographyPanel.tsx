@@ -0,0 +1,222 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { AlignCenter, AlignLeft, AlignRight, ChevronDown, Save, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { FontFamily, TeleprompterConfig, TextAlign } from '../types';
+import {
+  BUILT_IN_PRESETS, FONT_STACKS, FONT_WEIGHTS, getTextStyle, matchesPreset, pickTypography,
+  TEXT_ALIGNS, TEXT_COLORS, TypographyPreset, withAlpha
+} from '../lib/typography';
+import { createId } from '../lib/scriptStore';
+import { usePreference } from '../hooks/usePreference';
+import { useI18n } from '../hooks/useI18n';
+
+interface TypographyPanelProps {
+  config: TeleprompterConfig;
+  onChange: (config: TeleprompterConfig) => void;
+  onClose: () => void;
+}
+
+const ALIGN_ICONS: Record<TextAlign, typeof AlignLeft> = { left: AlignLeft, center: AlignCenter, right: AlignRight };
+const FOCUS_COLORS = ['#10b981', '#ffffff', '#ffff00', '#ef4444', '#3b82f6'];
+
+export function TypographyPanel({ config, onChange, onClose }: TypographyPanelProps) {
+  const { t } = useI18n();
+  const [customPresets, setCustomPresets] = usePreference<TypographyPreset[]>('typographyPresets', []);
+  const presets = [...BUILT_IN_PRESETS, ...customPresets];
+  const update = (changes: Partial<TeleprompterConfig>) => onChange({ ...config, ...changes });
+
+  const savePreset = () => {
+    const name = prompt(t.typography.presetNamePrompt)?.trim();
+    if (!name) return;
+    setCustomPresets([...customPresets, { id: createId(), name, settings: pickTypography(config) }]);
+  };
+
+  const renderSlider = (label: string, value: number, display: string, min: number, max: number, step: number, onSelect: (v: number) => void) => (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm text-zinc-400">
+        <span>{label}</span>
+        <span>{display}</span>
+      </div>
+      <input
+        type="range" min={min} max={max} step={step} value={value}
+        onChange={(e) => onSelect(parseFloat(e.target.value))}
+        className="w-full accent-emerald-500"
+      />
+    </div>
+  );
+
+  const renderColors = (colors: string[], value: string, onSelect: (color: string) => void) => (
+    <div className="flex items-center gap-3">
+      {colors.map(c => (
+        <button
+          key={c}
+          onClick={() => onSelect(c)}
+          className={`w-8 h-8 rounded-full border-2 transition-transform ${value === c ? 'scale-125 border-white' : 'border-transparent'}`}
+          style={{ backgroundColor: c }}
+        />
+      ))}
+      <label
+        className={`relative w-8 h-8 rounded-full border-2 overflow-hidden cursor-pointer ${colors.includes(value) ? 'border-zinc-600' : 'scale-125 border-white'}`}
+        style={{ background: colors.includes(value) ? 'conic-gradient(red, yellow, lime, cyan, blue, magenta, red)' : value }}
+        title={t.typography.customColor}
+      >
+        <input type="color" value={value} onChange={(e) => onSelect(e.target.value)} className="absolute inset-0 opacity-0 cursor-pointer" />
+      </label>
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 bg-black/95 z-[60] p-8 flex flex-col gap-6"
+    >
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-bold">{t.typography.title}</h3>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+          <ChevronDown className="w-6 h-6" />
+        </button>
+      </div>
+
+      {/* Preview */}
+      <div
+        className="relative h-40 shrink-0 rounded-2xl overflow-hidden flex items-center bg-gradient-to-br from-zinc-500 via-zinc-800 to-zinc-950"
+      >
+        <div className="absolute inset-0" style={{ backgroundColor: `rgba(0,0,0,${config.opacity})` }} />
+        {config.highlightCurrentLine && (
+          <div
+            className="absolute left-0 right-0 -translate-y-1/2"
+            style={{ top: `${config.focusLinePosition * 100}%`, height: config.fontSize * config.lineHeight, backgroundColor: withAlpha(config.focusLineColor, 0.15) }}
+          />
+        )}
+        <div
+          className="absolute left-0 right-0 h-1 -translate-y-1/2"
+          style={{ top: `${config.focusLinePosition * 100}%`, backgroundColor: withAlpha(config.focusLineColor, 0.5) }}
+        />
+        <p
+          className="relative w-full whitespace-pre-line"
+          style={{ ...getTextStyle(config), paddingLeft: config.sideMargin, paddingRight: config.sideMargin }}
+        >
+          {t.typography.previewText}
+        </p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-8 pr-1">
+        {/* Presets */}
+        <div className="space-y-3">
+          <div className="flex justify-between items-center text-sm text-zinc-400">
+            <span>{t.typography.presets}</span>
+            <button onClick={savePreset} className="flex items-center gap-1 text-emerald-400 hover:text-emerald-300">
+              <Save className="w-4 h-4" /> {t.typography.savePreset}
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {presets.map(preset => (
+              <div
+                key={preset.id}
+                className={`flex items-center rounded-full text-sm transition-colors ${matchesPreset(config, preset) ? 'bg-emerald-500 font-bold' : 'bg-zinc-800 hover:bg-zinc-700'}`}
+              >
+                <button onClick={() => update(preset.settings)} className="px-4 py-2">
+                  {preset.builtIn ? t.typography.builtInPresets[preset.id] ?? preset.name : preset.name}
+                </button>
+                {!preset.builtIn && (
+                  <button
+                    onClick={() => {
+                      if (confirm(t.typography.confirmDeletePreset(preset.name))) setCustomPresets(customPresets.filter(p => p.id !== preset.id));
+                    }}
+                    className="pr-3 text-zinc-400 hover:text-white"
+                    title={t.typography.deletePreset}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Font */}
+        <div className="space-y-3">
+          <div className="text-sm text-zinc-400">{t.typography.font}</div>
+          <div className="grid grid-cols-3 gap-2 p-1 bg-zinc-800 rounded-xl">
+            {(Object.keys(FONT_STACKS) as FontFamily[]).map(family => (
+              <button
+                key={family}
+                onClick={() => update({ fontFamily: family })}
+                className={`py-2 rounded-lg transition-colors ${config.fontFamily === family ? 'bg-emerald-500 font-bold' : 'hover:bg-white/10'}`}
+                style={{ fontFamily: FONT_STACKS[family] }}
+              >
+                {t.typography.fonts[family]}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-2 p-1 bg-zinc-800 rounded-xl text-sm">
+            {FONT_WEIGHTS.map(weight => (
+              <button
+                key={weight}
+                onClick={() => update({ fontWeight: weight })}
+                className={`py-2 rounded-lg transition-colors ${config.fontWeight === weight ? 'bg-emerald-500' : 'hover:bg-white/10'}`}
+                style={{ fontWeight: weight }}
+              >
+                {t.typography.weights[weight]}
+              </button>
+            ))}
+          </div>
+          {renderSlider(t.settings.fontSize, config.fontSize, `${config.fontSize}px`, 16, 96, 1, v => update({ fontSize: v }))}
+        </div>
+
+        {/* Color */}
+        <div className="space-y-3">
+          <div className="text-sm text-zinc-400">{t.settings.textColor}</div>
+          {renderColors(TEXT_COLORS, config.color, color => update({ color }))}
+          {renderSlider(t.typography.outline, config.outlineWidth, config.outlineWidth > 0 ? `${config.outlineWidth}px` : t.common.off, 0, 6, 0.5, v => update({ outlineWidth: v }))}
+          {renderSlider(t.typography.backdrop, config.opacity, `${Math.round(config.opacity * 100)}%`, 0, 1, 0.05, v => update({ opacity: v }))}
+        </div>
+
+        {/* Layout */}
+        <div className="space-y-3">
+          <div className="text-sm text-zinc-400">{t.typography.layout}</div>
+          <div className="grid grid-cols-3 gap-2 p-1 bg-zinc-800 rounded-xl text-sm">
+            {TEXT_ALIGNS.map(align => {
+              const Icon = ALIGN_ICONS[align];
+              return (
+                <button
+                  key={align}
+                  onClick={() => update({ textAlign: align })}
+                  className={`flex items-center justify-center gap-2 py-2 rounded-lg transition-colors ${config.textAlign === align ? 'bg-emerald-500 font-bold' : 'hover:bg-white/10'}`}
+                >
+                  <Icon className="w-4 h-4" /> {t.typography.aligns[align]}
+                </button>
+              );
+            })}
+          </div>
+          {renderSlider(t.typography.lineHeight, config.lineHeight, t.typography.lineHeightValue(config.lineHeight.toFixed(1)), 1, 2.5, 0.1, v => update({ lineHeight: v }))}
+          {renderSlider(t.typography.letterSpacing, config.letterSpacing, `${config.letterSpacing.toFixed(2)}em`, 0, 0.3, 0.01, v => update({ letterSpacing: v }))}
+          {renderSlider(t.typography.sideMargin, config.sideMargin, `${config.sideMargin}px`, 0, 160, 4, v => update({ sideMargin: v }))}
+        </div>
+
+        {/* Focus Line */}
+        <div className="space-y-3">
+          <div className="text-sm text-zinc-400">{t.typography.focusLine}</div>
+          {renderSlider(t.typography.focusLinePosition, config.focusLinePosition, `${Math.round(config.focusLinePosition * 100)}%`, 0.2, 0.8, 0.05, v => update({ focusLinePosition: v }))}
+          {renderColors(FOCUS_COLORS, config.focusLineColor, focusLineColor => update({ focusLineColor }))}
+          <button
+            onClick={() => update({ highlightCurrentLine: !config.highlightCurrentLine })}
+            className="w-full flex items-center justify-between py-3 px-4 bg-zinc-800 rounded-xl text-sm hover:bg-zinc-700 transition-colors"
+          >
+            <span>{t.typography.highlightCurrentLine}</span>
+            <span className={config.highlightCurrentLine ? 'text-emerald-400 font-bold' : 'text-zinc-400'}>
+              {config.highlightCurrentLine ? t.common.on : t.common.off}
+            </span>
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { AssistantTask, getAssistantProvider, runAssistant } from '../lib/assistant';
+import { getMessages } from '../lib/i18n';
+
+export type AssistantState =
+  | { status: 'idle' }
+  | { status: 'running' }
+  | { status: 'done'; task: AssistantTask; source: string; results: string[] }
+  | { status: 'error'; message: string };
+
+export function useAssistant() {
+  const provider = getAssistantProvider();
+  const [state, setState] = useState<AssistantState>({ status: 'idle' });
+  const abortRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  const reset = useCallback(() => {
+    cancel();
+    setState({ status: 'idle' });
+  }, [cancel]);
+
+  const run = useCallback(async (task: AssistantTask, text: string) => {
+    if (!provider) return;
+    cancel();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState({ status: 'running' });
+    try {
+      const results = await runAssistant(provider, task, text, controller.signal);
+      if (controller.signal.aborted) return;
+      setState(results.length > 0
+        ? { status: 'done', task, source: text, results }
+        : { status: 'error', message: getMessages().assistant.emptyResult });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Assistant failed:", err);
+      setState({ status: 'error', message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }, [provider, cancel]);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { provider, state, run, cancel, reset };
+}
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { AudioPreset, AudioProcessor } from '../lib/audioProcessing';
+
+/**
+ * Runs the mic through the voice-over chain and returns the stream the recorder
+ * should use: camera video plus processed audio, or the untouched stream for 'raw'.
+ * The processor also exists in raw mode so the level meter keeps working.
+ */
+export function useAudioProcessing(stream: MediaStream | null, preset: AudioPreset) {
+  const [processor, setProcessor] = useState<AudioProcessor | null>(null);
+
+  useEffect(() => {
+    if (!stream || !AudioProcessor.isSupported(stream)) return;
+    let next: AudioProcessor;
+    try {
+      next = new AudioProcessor(stream, preset);
+    } catch (err) {
+      console.error("Audio processing unavailable:", err);
+      return;
+    }
+    setProcessor(next);
+
+    // Browsers start the context suspended until the page gets a gesture
+    const resume = () => next.resume();
+    resume();
+    window.addEventListener('pointerdown', resume);
+    window.addEventListener('keydown', resume);
+    return () => {
+      window.removeEventListener('pointerdown', resume);
+      window.removeEventListener('keydown', resume);
+      setProcessor(null);
+      next.dispose();
+    };
+  }, [stream]); // The preset is applied below without rebuilding the graph
+
+  useEffect(() => {
+    processor?.setPreset(preset);
+  }, [processor, preset]);
+
+  const recordStream = useMemo(() => {
+    const track = processor?.outputTrack;
+    if (!stream || preset === 'raw' || !track) return stream;
+    return new MediaStream([...stream.getVideoTracks(), track]);
+  }, [stream, processor, preset === 'raw']);
+
+  return { processor, recordStream };
+}
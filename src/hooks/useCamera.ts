@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { buildConstraints, CameraStatus, CaptureSettings, getCameraErrorStatus } from '../lib/mediaDevices';
+
+// A saved device may have been unplugged, so retry by facing mode and then with
+// bare constraints. A refused permission won't change between attempts.
+async function openStream(capture: CaptureSettings, facingMode: 'user' | 'environment'): Promise<MediaStream> {
+  const attempts: MediaStreamConstraints[] = [
+    buildConstraints(capture, facingMode),
+    buildConstraints(capture, facingMode, false),
+    { video: true, audio: true }
+  ];
+  let lastError: unknown;
+  for (const constraints of attempts) {
+    try {
+      return await navigator.mediaDevices.getUserMedia(constraints);
+    } catch (err) {
+      lastError = err;
+      if (getCameraErrorStatus(err) === 'denied') break;
+      console.warn("getUserMedia failed, trying simpler constraints:", err);
+    }
+  }
+  throw lastError;
+}
+
+/** Camera + mic stream for the chosen devices, with a status the UI can explain. */
+export function useCamera(capture: CaptureSettings, facingMode: 'user' | 'environment') {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [status, setStatus] = useState<CameraStatus>('requesting');
+  const [attempt, setAttempt] = useState(0);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const retry = useCallback(() => setAttempt(n => n + 1), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const stopCurrent = () => {
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    };
+    stopCurrent();
+    setStream(null);
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setStatus('unsupported');
+      return;
+    }
+    setStatus('requesting');
+    openStream(capture, facingMode)
+      .then(newStream => {
+        if (cancelled) {
+          newStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        // Unplugging a device or revoking permission ends its track (stop() doesn't fire this)
+        newStream.getTracks().forEach(track => track.addEventListener('ended', () => {
+          if (streamRef.current === newStream) setStatus('disconnected');
+        }));
+        streamRef.current = newStream;
+        setStream(newStream);
+        setStatus('ready');
+      })
+      .catch(err => {
+        console.error("Error accessing camera:", err);
+        if (!cancelled) setStatus(getCameraErrorStatus(err));
+      });
+
+    return () => {
+      cancelled = true;
+      stopCurrent();
+    };
+  }, [capture, facingMode, attempt]);
+
+  // Come back by itself once a device is plugged in again
+  useEffect(() => {
+    if (status !== 'disconnected' && status !== 'no-device') return;
+    navigator.mediaDevices?.addEventListener('devicechange', retry);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', retry);
+  }, [status, retry]);
+
+  // ...or once permission is granted from the browser's site settings
+  useEffect(() => {
+    if (status !== 'denied' || !navigator.permissions?.query) return;
+    let permission: PermissionStatus | null = null;
+    let cancelled = false;
+    const onChange = () => {
+      if (permission?.state === 'granted') retry();
+    };
+    // Not every browser knows the 'camera' permission name
+    navigator.permissions.query({ name: 'camera' as PermissionName })
+      .then(result => {
+        if (cancelled) return;
+        permission = result;
+        result.addEventListener('change', onChange);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+      permission?.removeEventListener('change', onChange);
+    };
+  }, [status, retry]);
+
+  return { stream, status, retry };
+}
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { OverlayTemplate } from '../types';
+import { Compositor } from '../lib/compositor';
+
+/**
+ * While enabled, draws the camera and overlays to a canvas and returns a stream of
+ * that canvas plus the audio of `audioSource`. Otherwise `audioSource` passes through.
+ */
+export function useCompositor(
+  camera: MediaStream | null,
+  audioSource: MediaStream | null,
+  template: OverlayTemplate,
+  enabled: boolean
+) {
+  const [compositor, setCompositor] = useState<Compositor | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !camera || camera.getVideoTracks().length === 0) return;
+    let next: Compositor;
+    try {
+      const frameRate = camera.getVideoTracks()[0].getSettings().frameRate;
+      next = new Compositor(camera, template, frameRate ? Math.round(frameRate) : 30);
+    } catch (err) {
+      console.error("Compositing unavailable:", err);
+      return;
+    }
+    setCompositor(next);
+    return () => {
+      setCompositor(null);
+      next.dispose();
+    };
+  }, [enabled, camera]); // Template edits are applied below without restarting the canvas
+
+  useEffect(() => {
+    compositor?.setTemplate(template);
+  }, [compositor, template]);
+
+  const recordStream = useMemo(() => {
+    const track = compositor?.videoTrack;
+    if (!audioSource || !track) return audioSource;
+    return new MediaStream([track, ...audioSource.getAudioTracks()]);
+  }, [compositor, audioSource]);
+
+  return { compositor, recordStream };
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { ScriptFolder } from '../types';
+import { createFolder, deleteFolder, loadFolders, saveFolder } from '../lib/folderStore';
+import { recordDeletion } from '../lib/syncClient';
+
+const byName = (a: ScriptFolder, b: ScriptFolder) => a.name.localeCompare(b.name);
+
+export function useFolders() {
+  const [folders, setFolders] = useState<ScriptFolder[]>([]);
+
+  const persist = useCallback((folder: ScriptFolder) => {
+    saveFolder(folder).catch(err => console.error("Saving folder failed:", err));
+  }, []);
+
+  useEffect(() => {
+    loadFolders()
+      .then(setFolders)
+      .catch(err => console.error("Loading folders failed:", err));
+  }, []);
+
+  const create = useCallback((name: string) => {
+    const folder = createFolder(name);
+    setFolders(prev => [...prev, folder].sort(byName));
+    persist(folder);
+    return folder;
+  }, [persist]);
+
+  const rename = useCallback((id: string, name: string) => {
+    setFolders(prev => prev.map(f => {
+      if (f.id !== id) return f;
+      const next = { ...f, name, dirty: true };
+      persist(next);
+      return next;
+    }).sort(byName));
+  }, [persist]);
+
+  /** Scripts inside keep their folderId and show up under 未分类 until moved. */
+  const remove = useCallback((folder: ScriptFolder) => {
+    setFolders(prev => prev.filter(f => f.id !== folder.id));
+    deleteFolder(folder.id).catch(err => console.error("Deleting folder failed:", err));
+    if (folder.revision !== undefined) recordDeletion('folders', folder.id, folder.revision);
+  }, []);
+
+  const applySynced = useCallback((incoming: ScriptFolder[], removedIds: string[]) => {
+    if (incoming.length === 0 && removedIds.length === 0) return;
+    const removed = new Set(removedIds);
+    removed.forEach(id => deleteFolder(id).catch(err => console.error("Deleting folder failed:", err)));
+    incoming.forEach(persist);
+    const byId = new Map(incoming.map(f => [f.id, f]));
+    setFolders(prev => {
+      const known = new Set(prev.map(f => f.id));
+      return [
+        ...prev.filter(f => !removed.has(f.id)).map(f => byId.get(f.id) ?? f),
+        ...incoming.filter(f => !known.has(f.id))
+      ].sort(byName);
+    });
+  }, [persist]);
+
+  const markSynced = useCallback((id: string, revision: number, pushedName: string) => {
+    setFolders(prev => prev.map(f => {
+      if (f.id !== id) return f;
+      const next = { ...f, revision, dirty: f.name !== pushedName };
+      persist(next);
+      return next;
+    }));
+  }, [persist]);
+
+  return { folders, create, rename, remove, applySynced, markSynced };
+}
+
+export type Folders = ReturnType<typeof useFolders>;
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { LOCALE_PREFERENCE_KEY, LocalePreference, MESSAGES, resolveLocale } from '../lib/i18n';
+import { loadPreference, onPreferenceChange, savePreference } from '../lib/storage';
+
+const loadLocalePreference = () => loadPreference<LocalePreference>(LOCALE_PREFERENCE_KEY, 'auto');
+
+/**
+ * Messages for the current UI language. Every component calls this itself; switching
+ * the language in settings re-renders all of them through the preference change event.
+ */
+export function useI18n() {
+  const [preference, setPreferenceState] = useState(loadLocalePreference);
+  // Bumped when the browser language changes while following it
+  const [, setLanguageVersion] = useState(0);
+
+  useEffect(() => onPreferenceChange(change => {
+    if (change.key === LOCALE_PREFERENCE_KEY) setPreferenceState(loadLocalePreference());
+  }), []);
+
+  useEffect(() => {
+    const onLanguageChange = () => setLanguageVersion(v => v + 1);
+    window.addEventListener('languagechange', onLanguageChange);
+    return () => window.removeEventListener('languagechange', onLanguageChange);
+  }, []);
+
+  const setPreference = useCallback((next: LocalePreference) => {
+    savePreference(LOCALE_PREFERENCE_KEY, next);
+  }, []);
+
+  const locale = resolveLocale(preference);
+  return { t: MESSAGES[locale], locale, preference, setPreference };
+}
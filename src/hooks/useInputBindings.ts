@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import {
+  InputAction,
+  InputBindings,
+  DEFAULT_BINDINGS,
+  REPEATABLE_ACTIONS,
+  findAction,
+  normalizeBindings
+} from '../lib/inputBindings';
+import { loadPreference, onPreferenceChange, savePreference } from '../lib/storage';
+
+const BINDINGS_KEY = 'inputBindings';
+
+type ActionHandlers = Record<InputAction, () => void>;
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+export function useInputBindings(handlers: ActionHandlers, enabled: boolean) {
+  const [bindings, setBindingsState] = useState<InputBindings>(() =>
+    normalizeBindings(loadPreference<Partial<InputBindings> | null>(BINDINGS_KEY, null))
+  );
+
+  useEffect(() => onPreferenceChange(change => {
+    if (change.remote && change.key === BINDINGS_KEY) {
+      setBindingsState(normalizeBindings(loadPreference<Partial<InputBindings> | null>(BINDINGS_KEY, null)));
+    }
+  }), []);
+
+  // Handlers change every render; keep the listener stable and read the latest ones
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+      const action = findAction(bindings, e);
+      if (!action) return;
+      e.preventDefault();
+      if (e.repeat && !REPEATABLE_ACTIONS.has(action)) return;
+      handlersRef.current[action]();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, enabled]);
+
+  const setBindings = useCallback((next: InputBindings) => {
+    setBindingsState(next);
+    savePreference(BINDINGS_KEY, next);
+  }, []);
+
+  const resetBindings = useCallback(() => setBindings(DEFAULT_BINDINGS), [setBindings]);
+
+  return { bindings, setBindings, resetBindings };
+}
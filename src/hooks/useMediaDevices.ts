@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect } from 'react';
+import { ActiveTrackInfo, DeviceLists, describeStream, listDevices } from '../lib/mediaDevices';
+
+/** Available cameras/mics, kept fresh across plug/unplug, plus what the current stream negotiated. */
+export function useMediaDevices(stream: MediaStream | null) {
+  const [devices, setDevices] = useState<DeviceLists>({ video: [], audio: [] });
+  const [active, setActive] = useState<ActiveTrackInfo>({});
+
+  useEffect(() => {
+    const refresh = () => {
+      listDevices()
+        .then(setDevices)
+        .catch(err => console.warn("Listing devices failed:", err));
+    };
+    // Re-list whenever the stream changes: labels only show up once permission is granted
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [stream]);
+
+  useEffect(() => {
+    setActive(describeStream(stream));
+  }, [stream]);
+
+  return { devices, active };
+}
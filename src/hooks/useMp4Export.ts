@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Mp4ExportOptions, convertToMp4 } from '../lib/videoExport';
+
+export type Mp4ExportState =
+  | { status: 'idle' }
+  | { status: 'converting'; progress: number }
+  | { status: 'done'; blob: Blob }
+  | { status: 'error'; message: string };
+
+export function useMp4Export() {
+  const [state, setState] = useState<Mp4ExportState>({ status: 'idle' });
+  const abortRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  const reset = useCallback(() => {
+    cancel();
+    setState({ status: 'idle' });
+  }, [cancel]);
+
+  const start = useCallback(async (blob: Blob, options?: Mp4ExportOptions) => {
+    cancel();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState({ status: 'converting', progress: 0 });
+    try {
+      const mp4 = await convertToMp4(blob, progress => {
+        if (!controller.signal.aborted) setState({ status: 'converting', progress });
+      }, controller.signal, options);
+      if (!controller.signal.aborted) setState({ status: 'done', blob: mp4 });
+      return mp4;
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("MP4 export failed:", err);
+      setState({ status: 'error', message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }, [cancel]);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { state, start, cancel, reset };
+}
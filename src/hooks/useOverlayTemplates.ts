@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { OverlayTemplate } from '../types';
+import { createOverlayTemplate, deleteOverlayTemplate, loadOverlayTemplates, saveOverlayTemplate } from '../lib/overlayStore';
+import { getMessages } from '../lib/i18n';
+import { usePreference } from './usePreference';
+
+export function useOverlayTemplates() {
+  const [templates, setTemplates] = useState<OverlayTemplate[]>(() => [createOverlayTemplate(getMessages().composite.defaultTemplate)]);
+  const [currentId, setCurrentId] = usePreference<string | null>('overlayTemplateId', null);
+  const templatesRef = useRef(templates);
+  templatesRef.current = templates;
+
+  const persist = useCallback((template: OverlayTemplate) => {
+    saveOverlayTemplate(template).catch(err => console.error("Saving overlay template failed:", err));
+  }, []);
+
+  useEffect(() => {
+    loadOverlayTemplates()
+      .then(stored => {
+        if (stored.length === 0) {
+          persist(templatesRef.current[0]);
+        } else {
+          setTemplates(stored);
+        }
+      })
+      .catch(err => console.error("Loading overlay templates failed:", err));
+  }, [persist]);
+
+  const current = templates.find(t => t.id === currentId) ?? templates[0];
+
+  const update = useCallback((changes: Partial<Omit<OverlayTemplate, 'id'>>) => {
+    const next = { ...current, ...changes };
+    setTemplates(prev => prev.map(t => t.id === next.id ? next : t));
+    persist(next);
+  }, [current, persist]);
+
+  /** Saves the current layout under a new name and switches to it. */
+  const saveAs = useCallback((name: string) => {
+    const template = createOverlayTemplate(name, current);
+    setTemplates(prev => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+    setCurrentId(template.id);
+    persist(template);
+  }, [current, persist, setCurrentId]);
+
+  const remove = useCallback((id: string) => {
+    if (templatesRef.current.length <= 1) return;
+    setTemplates(prev => prev.filter(t => t.id !== id));
+    deleteOverlayTemplate(id).catch(err => console.error("Deleting overlay template failed:", err));
+  }, []);
+
+  return { templates, current, select: setCurrentId, update, saveAs, remove };
+}
+
+export type OverlayTemplates = ReturnType<typeof useOverlayTemplates>;
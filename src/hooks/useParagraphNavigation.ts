@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useRef, useCallback, useLayoutEffect } from 'react';
+
+// Elements rendered by ScriptView for each section/paragraph carry this attribute
+export const BLOCK_SELECTOR = '[data-block-index]';
+
+/**
+ * Distance from the scroll container's top to the middle of the focus line, in the
+ * container's own (unscaled, unmirrored) pixels. A vertical mirror flips the box on
+ * screen, so the distance is then taken from its bottom edge.
+ */
+function getFocusOffset(container: HTMLElement, focusLine: HTMLElement, mirrorY: boolean): number {
+  const box = container.getBoundingClientRect();
+  const line = focusLine.getBoundingClientRect();
+  const scale = box.height > 0 && container.offsetHeight > 0 ? box.height / container.offsetHeight : 1;
+  const center = (line.top + line.bottom) / 2;
+  return (mirrorY ? box.bottom - center : center - box.top) / scale;
+}
+
+/**
+ * Keeps the focus offset measured while the prompter layout changes, so per-frame
+ * code can read it without forcing layout.
+ */
+export function useFocusOffset(
+  containerRef: React.RefObject<HTMLDivElement | null>,
+  focusLineRef: React.RefObject<HTMLDivElement | null>,
+  mirrorY: boolean,
+  focusLinePosition: number
+) {
+  const offsetRef = useRef(0);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const focusLine = focusLineRef.current;
+    if (!container || !focusLine) return;
+    const update = () => {
+      offsetRef.current = getFocusOffset(container, focusLine, mirrorY);
+    };
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerRef, focusLineRef, mirrorY, focusLinePosition]);
+
+  return offsetRef;
+}
+
+interface NavigationOptions {
+  containerRef: React.RefObject<HTMLDivElement | null>;
+  contentRef: React.RefObject<HTMLDivElement | null>;
+  focusOffsetRef: React.RefObject<number>;
+  scrollPosRef: React.RefObject<number>;
+  lineHeight: number;
+  onJump?: () => void;
+}
+
+interface Layout {
+  container: HTMLDivElement;
+  /** Block tops in scroll-content coordinates */
+  tops: number[];
+  /** Focus line in scroll-content coordinates */
+  focus: number;
+  /** scrollTop that puts the focus line at content position 0 */
+  focusOffset: number;
+}
+
+export function useParagraphNavigation({
+  containerRef,
+  contentRef,
+  focusOffsetRef,
+  scrollPosRef,
+  lineHeight,
+  onJump
+}: NavigationOptions) {
+  const [currentIndex, setCurrentIndex] = useState(0);
+
+  const measure = useCallback((): Layout | null => {
+    const container = containerRef.current;
+    if (!container || !contentRef.current) return null;
+
+    const focusOffset = focusOffsetRef.current;
+    const blocks: NodeListOf<HTMLElement> = contentRef.current.querySelectorAll(BLOCK_SELECTOR);
+    const tops = Array.from(blocks, el => el.offsetTop);
+    return { container, tops, focus: container.scrollTop + focusOffset, focusOffset };
+  }, [containerRef, contentRef, focusOffsetRef]);
+
+  // A block is current once its first line reaches the focus line
+  const indexAt = (layout: Layout) => {
+    let index = 0;
+    layout.tops.forEach((top, i) => {
+      if (top + lineHeight / 2 <= layout.focus + 1) index = i;
+    });
+    return index;
+  };
+
+  const jumpTo = useCallback((index: number) => {
+    const layout = measure();
+    if (!layout || layout.tops.length === 0) return;
+    const i = Math.max(0, Math.min(layout.tops.length - 1, index));
+    const maxScroll = layout.container.scrollHeight - layout.container.clientHeight;
+    const target = Math.max(0, Math.min(maxScroll, layout.tops[i] + lineHeight / 2 - layout.focusOffset));
+
+    scrollPosRef.current = target;
+    layout.container.scrollTop = target;
+    setCurrentIndex(i);
+    onJump?.();
+  }, [measure, lineHeight, scrollPosRef, onJump]);
+
+  // Restart the current paragraph first; only step back once already at its start
+  const jumpPrev = useCallback(() => {
+    const layout = measure();
+    if (!layout) return;
+    const index = indexAt(layout);
+    const intoBlock = layout.focus - (layout.tops[index] + lineHeight / 2);
+    jumpTo(intoBlock > lineHeight / 2 ? index : index - 1);
+  }, [measure, jumpTo, lineHeight]);
+
+  const jumpNext = useCallback(() => {
+    const layout = measure();
+    if (layout) jumpTo(indexAt(layout) + 1);
+  }, [measure, jumpTo, lineHeight]);
+
+  const handleScroll = useCallback(() => {
+    const layout = measure();
+    if (layout) setCurrentIndex(indexAt(layout));
+  }, [measure, lineHeight]);
+
+  return { currentIndex, jumpTo, jumpPrev, jumpNext, handleScroll };
+}
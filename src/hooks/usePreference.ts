@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { loadPreference, onPreferenceChange, savePreference } from '../lib/storage';
+
+/** useState that is persisted to localStorage under `key`. */
+export function usePreference<T>(key: string, fallback: T) {
+  const [value, setValue] = useState<T>(() => loadPreference(key, fallback));
+  const fallbackRef = useRef(fallback);
+  fallbackRef.current = fallback;
+
+  // Follow values synced in from another device
+  useEffect(() => onPreferenceChange(change => {
+    if (change.remote && change.key === key) setValue(loadPreference(key, fallbackRef.current));
+  }), [key]);
+
+  const update = useCallback((next: T) => {
+    setValue(next);
+    savePreference(key, next);
+  }, [key]);
+
+  return [value, update] as const;
+}
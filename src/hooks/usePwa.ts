@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+// Not in the DOM typings yet (Chromium only)
+interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+/**
+ * Registers the service worker in production builds, reports when a new
+ * version is waiting, and exposes the browser's install prompt where offered.
+ */
+export function usePwa() {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+  const [installPrompt, setInstallPrompt] = useState<BeforeInstallPromptEvent | null>(null);
+  const reloading = useRef(false);
+
+  useEffect(() => {
+    if (!process.env.PWA_ENABLED || !('serviceWorker' in navigator)) return;
+    let registration: ServiceWorkerRegistration | undefined;
+
+    // Only a worker replacing an existing one is an update; the first install isn't
+    const watch = (worker: ServiceWorker | null) => {
+      if (!worker) return;
+      const check = () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaiting(worker);
+      };
+      check();
+      worker.addEventListener('statechange', check);
+    };
+
+    navigator.serviceWorker.register('/sw.js')
+      .then(reg => {
+        registration = reg;
+        watch(reg.waiting);
+        reg.addEventListener('updatefound', () => watch(reg.installing));
+      })
+      .catch(err => console.error("Service worker registration failed:", err));
+
+    const onControllerChange = () => {
+      if (!reloading.current) return;
+      window.location.reload();
+    };
+    navigator.serviceWorker.addEventListener('controllerchange', onControllerChange);
+
+    // Long location shoots keep the app open for hours
+    const timer = setInterval(() => {
+      registration?.update().catch(() => {});
+    }, UPDATE_CHECK_MS);
+
+    return () => {
+      navigator.serviceWorker.removeEventListener('controllerchange', onControllerChange);
+      clearInterval(timer);
+    };
+  }, []);
+
+  useEffect(() => {
+    const onBeforeInstall = (e: Event) => {
+      e.preventDefault();
+      setInstallPrompt(e as BeforeInstallPromptEvent);
+    };
+    const onInstalled = () => setInstallPrompt(null);
+    window.addEventListener('beforeinstallprompt', onBeforeInstall);
+    window.addEventListener('appinstalled', onInstalled);
+    return () => {
+      window.removeEventListener('beforeinstallprompt', onBeforeInstall);
+      window.removeEventListener('appinstalled', onInstalled);
+    };
+  }, []);
+
+  /** Lets the waiting worker take over; the page reloads once it has. */
+  const applyUpdate = useCallback(() => {
+    if (!waiting) return;
+    reloading.current = true;
+    waiting.postMessage('skipWaiting');
+  }, [waiting]);
+
+  const dismissUpdate = useCallback(() => setWaiting(null), []);
+
+  const install = useCallback(async () => {
+    if (!installPrompt) return;
+    await installPrompt.prompt();
+    await installPrompt.userChoice;
+    // A prompt can only be used once
+    setInstallPrompt(null);
+  }, [installPrompt]);
+
+  return {
+    updateReady: waiting !== null,
+    applyUpdate,
+    dismissUpdate,
+    canInstall: installPrompt !== null,
+    install,
+  };
+}
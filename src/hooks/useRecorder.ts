@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { RecordedTake } from '../types';
+import { appendRecordingChunk, RecordingSession, startRecordingSession } from '../lib/recordingStore';
+import { createId } from '../lib/scriptStore';
+
+interface RecorderOptions {
+  stream: MediaStream | null;
+  /** Seconds of countdown before recording starts; 0 starts immediately */
+  countdownSeconds: number;
+  /** Stop automatically after this many seconds; 0 means no limit */
+  maxDurationSeconds: number;
+  scriptId: string;
+  scriptTitle: string;
+  onStart?: () => void;
+  onStop?: () => void;
+}
+
+const MIME_TYPES = [
+  'video/mp4;codecs=h264,aac',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm'
+];
+
+export function useRecorder(options: RecorderOptions) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [take, setTake] = useState<RecordedTake | null>(null);
+  /** Chunks couldn't be written to IndexedDB (usually a full disk), so a crash would lose the take */
+  const [persistFailed, setPersistFailed] = useState(false);
+  /** The page went to the background mid-take; mobile browsers may freeze the camera meanwhile */
+  const [wasInterrupted, setWasInterrupted] = useState(false);
+  /** The browser refused to record the stream (unsupported format or an ended track) */
+  const [startFailed, setStartFailed] = useState(false);
+
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const recordedChunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const countdownTimerRef = useRef<ReturnType<typeof setInterval> | undefined>(undefined);
+  // Chunk writes are chained so they land in order
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Callbacks and script info are read when recording starts/stops, not when scheduled
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const discardTake = useCallback(() => {
+    setTake(prev => {
+      if (prev) URL.revokeObjectURL(prev.url);
+      return null;
+    });
+  }, []);
+
+  const begin = useCallback(() => {
+    const { stream, scriptId, scriptTitle } = optionsRef.current;
+    if (!stream) return;
+    recordedChunksRef.current = [];
+
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || 'video/webm';
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(stream, { mimeType });
+    } catch (err) {
+      console.error("Starting the recorder failed:", err);
+      setStartFailed(true);
+      return;
+    }
+    const session: RecordingSession = {
+      id: createId(),
+      scriptId,
+      scriptTitle,
+      mimeType,
+      startedAt: Date.now(),
+      duration: 0,
+      chunkCount: 0,
+      updatedAt: Date.now()
+    };
+    setPersistFailed(false);
+    setWasInterrupted(false);
+    const persist = (write: () => Promise<void>) => {
+      writeQueueRef.current = writeQueueRef.current.then(write).catch(err => {
+        console.error("Saving recording chunk failed:", err);
+        setPersistFailed(true);
+      });
+    };
+    persist(() => startRecordingSession(session));
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) {
+        recordedChunksRef.current.push(e.data);
+        const index = session.chunkCount;
+        session.chunkCount += 1;
+        session.duration = (Date.now() - session.startedAt) / 1000;
+        session.updatedAt = Date.now();
+        const snapshot = { ...session };
+        persist(() => appendRecordingChunk(snapshot, index, e.data));
+      }
+    };
+    // Encoder failures and sources that go away end the take; what was recorded is kept
+    recorder.onerror = (e) => {
+      console.error("Recording error:", e);
+      stopRef.current();
+    };
+    const trackWatch = new AbortController();
+    stream.getTracks().forEach(track => track.addEventListener('ended', () => {
+      if (mediaRecorderRef.current === recorder) stopRef.current();
+    }, { signal: trackWatch.signal }));
+    recorder.onstop = () => {
+      trackWatch.abort();
+      const blob = new Blob(recordedChunksRef.current, { type: mimeType });
+      const duration = (Date.now() - startedAtRef.current) / 1000;
+      // Hand over only after the last chunk is on disk, so clearing the session can't race a write
+      writeQueueRef.current.then(() => setTake({
+        url: URL.createObjectURL(blob),
+        blob,
+        mimeType,
+        scriptId,
+        scriptTitle,
+        startedAt: session.startedAt,
+        duration,
+        recordingId: session.id
+      }));
+    };
+
+    mediaRecorderRef.current = recorder;
+    startedAtRef.current = session.startedAt;
+    recorder.start(1000); // Collect data every second to be safe
+    setElapsed(0);
+    setIsRecording(true);
+    optionsRef.current.onStart?.();
+  }, []);
+
+  const cancelCountdown = useCallback(() => {
+    clearInterval(countdownTimerRef.current);
+    countdownTimerRef.current = undefined;
+    setCountdown(null);
+  }, []);
+
+  const start = useCallback(() => {
+    const { stream, countdownSeconds } = optionsRef.current;
+    if (!stream || mediaRecorderRef.current?.state === 'recording' || countdownTimerRef.current) return;
+    discardTake();
+    setStartFailed(false);
+
+    if (countdownSeconds <= 0) {
+      begin();
+      return;
+    }
+    let remaining = countdownSeconds;
+    setCountdown(remaining);
+    countdownTimerRef.current = setInterval(() => {
+      remaining -= 1;
+      if (remaining > 0) {
+        setCountdown(remaining);
+      } else {
+        cancelCountdown();
+        begin();
+      }
+    }, 1000);
+  }, [begin, cancelCountdown, discardTake]);
+
+  const stop = useCallback(() => {
+    if (countdownTimerRef.current) {
+      cancelCountdown();
+      return;
+    }
+    const recorder = mediaRecorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+      setIsRecording(false);
+      optionsRef.current.onStop?.();
+    }
+  }, [cancelCountdown]);
+
+  const stopRef = useRef(stop);
+  stopRef.current = stop;
+
+  const toggle = useCallback(() => {
+    if (isRecording || countdownTimerRef.current) {
+      stop();
+    } else {
+      start();
+    }
+  }, [isRecording, start, stop]);
+
+  // Live timer, plus the optional auto-stop for platforms with a length limit
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = setInterval(() => {
+      const seconds = (Date.now() - startedAtRef.current) / 1000;
+      setElapsed(seconds);
+      const { maxDurationSeconds } = optionsRef.current;
+      if (maxDurationSeconds > 0 && seconds >= maxDurationSeconds) stop();
+    }, 250);
+    return () => clearInterval(timer);
+  }, [isRecording, stop]);
+
+  // Flush to disk when the page is hidden: the OS may kill a backgrounded tab without warning
+  useEffect(() => {
+    if (!isRecording) return;
+    const onVisibilityChange = () => {
+      const recorder = mediaRecorderRef.current;
+      if (document.visibilityState !== 'hidden' || recorder?.state !== 'recording') return;
+      recorder.requestData();
+      setWasInterrupted(true);
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, [isRecording]);
+
+  useEffect(() => () => clearInterval(countdownTimerRef.current), []);
+
+  return {
+    isRecording,
+    isCountingDown: countdown !== null,
+    countdown,
+    elapsed,
+    take,
+    persistFailed,
+    wasInterrupted,
+    startFailed,
+    start,
+    stop,
+    toggle,
+    discardTake
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect } from 'react';
+import { deleteRecordingSession, loadInterruptedSessions, recoverRecording } from '../lib/recordingStore';
+import type { TakeGallery } from './useTakeGallery';
+
+/** On launch, moves recordings cut short by a crash or reload into the take gallery. */
+export function useRecordingRecovery(addTake: TakeGallery['add']) {
+  const [recoveredCount, setRecoveredCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const sessions = await loadInterruptedSessions();
+      for (const session of sessions) {
+        if (cancelled) return;
+        const take = await recoverRecording(session);
+        if (!take) {
+          await deleteRecordingSession(session.id);
+          continue;
+        }
+        // The gallery clears the session once the take is stored
+        const saved = await addTake(take);
+        URL.revokeObjectURL(take.url);
+        if (saved && !cancelled) setRecoveredCount(n => n + 1);
+      }
+    })().catch(err => console.error("Recovering recordings failed:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [addTake]);
+
+  return { recoveredCount, dismiss: () => setRecoveredCount(0) };
+}
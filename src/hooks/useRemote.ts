@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import {
+  ControllerMessage,
+  HostMessage,
+  RelayEvent,
+  RelayRequest,
+  RemoteState,
+  getRelayUrl
+} from '../lib/remoteProtocol';
+import { loadPreference, savePreference } from '../lib/storage';
+import { sanitizeConfigChanges } from '../lib/config';
+
+export type RemoteStatus = 'idle' | 'connecting' | 'connected' | 'error';
+
+const RECONNECT_DELAY_MS = 2000;
+const HOST_CODE_KEY = 'remoteHostCode';
+
+const isRatio = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+// Anyone holding the pairing code can send commands, so each one is checked and
+// rebuilt from known fields before the host acts on it; anything else is dropped.
+function toControllerMessage(value: unknown): ControllerMessage | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const message = value as Record<string, unknown>;
+  switch (message.kind) {
+    case 'requestState':
+      return { kind: 'requestState' };
+    case 'setText':
+      return typeof message.text === 'string' ? { kind: 'setText', text: message.text } : null;
+    case 'setConfig':
+      return { kind: 'setConfig', config: sanitizeConfigChanges(message.config) };
+    case 'setScrolling':
+      return typeof message.scrolling === 'boolean' ? { kind: 'setScrolling', scrolling: message.scrolling } : null;
+    case 'setRecording':
+      return typeof message.recording === 'boolean' ? { kind: 'setRecording', recording: message.recording } : null;
+    case 'scrollTo':
+      return isRatio(message.ratio) ? { kind: 'scrollTo', ratio: message.ratio } : null;
+    case 'paragraph':
+      return message.direction === 'prev' || message.direction === 'next'
+        ? { kind: 'paragraph', direction: message.direction }
+        : null;
+    default:
+      return null;
+  }
+}
+
+// Keeps a relay socket open while `hello` is set, reconnecting after drops.
+// `hello` is re-read on every (re)connect so a host can reclaim its code.
+function useRelay(hello: (() => RelayRequest) | null, onEvent: (event: RelayEvent) => void) {
+  const [status, setStatus] = useState<RemoteStatus>('idle');
+  const socketRef = useRef<WebSocket | null>(null);
+  const helloRef = useRef(hello);
+  helloRef.current = hello;
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const enabled = hello !== null;
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('idle');
+      return;
+    }
+    let closed = false;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      setStatus('connecting');
+      const socket = new WebSocket(getRelayUrl());
+      socketRef.current = socket;
+      socket.onopen = () => {
+        if (helloRef.current) socket.send(JSON.stringify(helloRef.current()));
+      };
+      socket.onmessage = (e) => {
+        try {
+          onEventRef.current(JSON.parse(e.data));
+        } catch (err) {
+          console.error("Invalid relay message:", err);
+        }
+      };
+      socket.onerror = () => setStatus('error');
+      socket.onclose = () => {
+        socketRef.current = null;
+        if (closed) return;
+        setStatus('error');
+        retry = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(retry);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [enabled]);
+
+  const send = useCallback((payload: HostMessage | ControllerMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'relay', payload } satisfies RelayRequest));
+    }
+  }, []);
+
+  return { status, setStatus, send };
+}
+
+/** Recording device side: gets a pairing code and executes controller commands. */
+export function useRemoteHost(enabled: boolean, onCommand: (message: ControllerMessage) => void) {
+  const [code, setCode] = useState<string | null>(null);
+  const [peers, setPeers] = useState(0);
+
+  const relay = useRelay(
+    enabled ? () => ({ type: 'host', code: loadPreference<string | undefined>(HOST_CODE_KEY, undefined) }) : null,
+    event => {
+      switch (event.type) {
+        case 'code':
+          setCode(event.code);
+          savePreference(HOST_CODE_KEY, event.code);
+          relay.setStatus('connected');
+          break;
+        case 'peers':
+          setPeers(event.count);
+          break;
+        case 'relay': {
+          const message = toControllerMessage(event.payload);
+          if (message) onCommand(message);
+          else console.warn("Ignored invalid controller message:", event.payload);
+          break;
+        }
+        case 'error':
+          console.error("Relay error:", event.message);
+          break;
+      }
+    }
+  );
+
+  useEffect(() => {
+    if (!enabled) {
+      setCode(null);
+      setPeers(0);
+    }
+  }, [enabled]);
+
+  return {
+    status: relay.status,
+    code,
+    peers,
+    broadcast: relay.send as (message: HostMessage) => void,
+  };
+}
+
+/** Controller side: mirrors the recording device and sends it commands. */
+export function useRemoteController(code: string | null) {
+  const [state, setState] = useState<RemoteState | null>(null);
+  const [scrollRatio, setScrollRatio] = useState(0);
+  const [hostOnline, setHostOnline] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const relay = useRelay(
+    code ? () => ({ type: 'join', code }) : null,
+    event => {
+      switch (event.type) {
+        case 'joined':
+          relay.setStatus('connected');
+          setHostOnline(true);
+          setError(null);
+          relay.send({ kind: 'requestState' });
+          break;
+        case 'hostLeft':
+          setHostOnline(false);
+          break;
+        case 'error':
+          setError(event.message);
+          break;
+        case 'relay': {
+          const message = event.payload as HostMessage;
+          setHostOnline(true);
+          if (message.kind === 'state') setState(message.state);
+          if (message.kind === 'scroll') setScrollRatio(message.ratio);
+          break;
+        }
+      }
+    }
+  );
+
+  return {
+    status: relay.status,
+    state,
+    scrollRatio,
+    hostOnline,
+    error,
+    send: relay.send as (message: ControllerMessage) => void,
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { mixAudioTracks, ScreenCompositor, ScreenLayout } from '../lib/screenCompositor';
+
+export type ScreenShareStatus = 'idle' | 'requesting' | 'sharing' | 'unsupported';
+
+/** Why the last share didn't start; the panel words it */
+export type ScreenShareError = 'denied' | 'failed';
+
+const isSupported = () => typeof navigator.mediaDevices?.getDisplayMedia === 'function';
+
+/**
+ * Screen + camera bubble recording. `start` opens the browser's share picker; while
+ * sharing, `recordStream` is the composited screen with the mic (and, if asked for,
+ * the shared screen's sound) mixed in.
+ */
+export function useScreenRecording(camera: MediaStream | null, micSource: MediaStream | null, layout: ScreenLayout) {
+  const [screen, setScreen] = useState<MediaStream | null>(null);
+  const [status, setStatus] = useState<ScreenShareStatus>(() => isSupported() ? 'idle' : 'unsupported');
+  const [error, setError] = useState<ScreenShareError | null>(null);
+  // A whole monitor includes the prompter window, which would then be recorded
+  const [isMonitor, setIsMonitor] = useState(false);
+  const [compositor, setCompositor] = useState<ScreenCompositor | null>(null);
+  const screenRef = useRef<MediaStream | null>(null);
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+
+  const stop = useCallback(() => {
+    screenRef.current?.getTracks().forEach(track => track.stop());
+    screenRef.current = null;
+    setScreen(null);
+    setIsMonitor(false);
+    setStatus(isSupported() ? 'idle' : 'unsupported');
+  }, []);
+
+  const start = useCallback(async () => {
+    if (!isSupported()) return;
+    setStatus('requesting');
+    setError(null);
+    const { systemAudio } = layoutRef.current;
+    try {
+      const next = await navigator.mediaDevices.getDisplayMedia({
+        video: { frameRate: { ideal: 30 } },
+        audio: systemAudio,
+        // Leave this tab, and with it the prompter, out of the picker; where the browser
+        // honours it, whole screens too, since they would show the prompter window
+        selfBrowserSurface: 'exclude',
+        monitorTypeSurfaces: 'exclude',
+        surfaceSwitching: 'include',
+        systemAudio: systemAudio ? 'include' : 'exclude'
+      } as DisplayMediaStreamOptions);
+      screenRef.current?.getTracks().forEach(track => track.stop());
+      screenRef.current = next;
+      // The browser's own "stop sharing" button ends the video track
+      next.getVideoTracks()[0]?.addEventListener('ended', () => {
+        if (screenRef.current === next) stop();
+      });
+      setIsMonitor(next.getVideoTracks()[0]?.getSettings().displaySurface === 'monitor');
+      setScreen(next);
+      setStatus('sharing');
+    } catch (err) {
+      console.warn("Screen sharing not started:", err);
+      setError(err instanceof DOMException && err.name === 'NotAllowedError' ? 'denied' : 'failed');
+      setStatus('idle');
+    }
+  }, [stop]);
+
+  useEffect(() => () => screenRef.current?.getTracks().forEach(track => track.stop()), []);
+
+  useEffect(() => {
+    if (!screen) return;
+    let next: ScreenCompositor;
+    try {
+      const frameRate = screen.getVideoTracks()[0]?.getSettings().frameRate;
+      next = new ScreenCompositor(screen, null, layoutRef.current, frameRate ? Math.round(frameRate) : 30);
+    } catch (err) {
+      console.error("Screen compositing unavailable:", err);
+      return;
+    }
+    setCompositor(next);
+    return () => {
+      setCompositor(null);
+      next.dispose();
+    };
+  }, [screen]);
+
+  // Camera switches and layout edits apply without restarting the share
+  useEffect(() => {
+    compositor?.setCamera(camera);
+  }, [compositor, camera]);
+
+  useEffect(() => {
+    compositor?.setLayout(layout);
+  }, [compositor, layout]);
+
+  const audio = useMemo(() => {
+    const tracks = [
+      ...(micSource?.getAudioTracks() ?? []),
+      ...(layout.systemAudio ? screen?.getAudioTracks() ?? [] : [])
+    ];
+    if (tracks.length < 2) return { track: tracks[0], dispose: () => {} };
+    try {
+      return mixAudioTracks(tracks);
+    } catch (err) {
+      console.error("Mixing screen audio failed:", err);
+      return { track: tracks[0], dispose: () => {} };
+    }
+  }, [micSource, screen, layout.systemAudio]);
+
+  useEffect(() => audio.dispose, [audio]);
+
+  const recordStream = useMemo(() => {
+    const video = compositor?.videoTrack;
+    if (!video) return null;
+    return new MediaStream(audio.track ? [video, audio.track] : [video]);
+  }, [compositor, audio]);
+
+  return { status, error, isMonitor, compositor, recordStream, start, stop };
+}
+
+export type ScreenRecording = ReturnType<typeof useScreenRecording>;
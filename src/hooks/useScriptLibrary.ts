@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Script, TeleprompterConfig } from '../types';
+import { createScript, deleteScript, loadScripts, saveScript } from '../lib/scriptStore';
+import { loadPreference, savePreference } from '../lib/storage';
+import { recordDeletion } from '../lib/syncClient';
+import { getMessages } from '../lib/i18n';
+
+const SAVE_DELAY_MS = 400;
+const LAST_SCRIPT_KEY = 'lastScriptId';
+
+export type ScriptChanges = Partial<Pick<Script, 'title' | 'text' | 'config' | 'folderId'>>;
+
+export function useScriptLibrary() {
+  // Start with an unsaved welcome script so the prompter renders before IndexedDB answers
+  const [scripts, setScripts] = useState<Script[]>(() => {
+    const { welcomeTitle, welcomeText } = getMessages().library;
+    return [createScript(welcomeTitle, welcomeText)];
+  });
+  const [currentId, setCurrentId] = useState<string>(() => scripts[0].id);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const scriptsRef = useRef(scripts);
+  scriptsRef.current = scripts;
+  const pendingSaves = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const persist = useCallback((script: Script) => {
+    saveScript(script).catch(err => console.error("Saving script failed:", err));
+  }, []);
+
+  const scheduleSave = useCallback((id: string) => {
+    const timers = pendingSaves.current;
+    clearTimeout(timers.get(id));
+    timers.set(id, setTimeout(() => {
+      timers.delete(id);
+      const script = scriptsRef.current.find(s => s.id === id);
+      if (script) persist(script);
+    }, SAVE_DELAY_MS));
+  }, [persist]);
+
+  const flushSaves = useCallback(() => {
+    const timers = pendingSaves.current;
+    timers.forEach((timer, id) => {
+      clearTimeout(timer);
+      const script = scriptsRef.current.find(s => s.id === id);
+      if (script) persist(script);
+    });
+    timers.clear();
+  }, [persist]);
+
+  // Restore library and reopen the last script
+  useEffect(() => {
+    let cancelled = false;
+    loadScripts()
+      .then(stored => {
+        if (cancelled) return;
+        if (stored.length === 0) {
+          persist(scriptsRef.current[0]);
+        } else {
+          const lastId = loadPreference<string | null>(LAST_SCRIPT_KEY, null);
+          setScripts(stored);
+          setCurrentId(stored.some(s => s.id === lastId) ? lastId! : stored[0].id);
+        }
+        setIsLoaded(true);
+      })
+      .catch(err => {
+        console.error("Loading scripts failed:", err);
+        setIsLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [persist]);
+
+  useEffect(() => {
+    if (isLoaded) savePreference(LAST_SCRIPT_KEY, currentId);
+  }, [currentId, isLoaded]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flushSaves);
+    return () => {
+      window.removeEventListener('pagehide', flushSaves);
+      flushSaves();
+    };
+  }, [flushSaves]);
+
+  const current = scripts.find(s => s.id === currentId) ?? scripts[0];
+
+  const updateScript = useCallback((id: string, changes: ScriptChanges) => {
+    setScripts(prev => prev.map(s => s.id === id ? { ...s, ...changes, updatedAt: Date.now(), dirty: true } : s));
+    scheduleSave(id);
+  }, [scheduleSave]);
+
+  const updateCurrent = useCallback((changes: ScriptChanges) => {
+    updateScript(current.id, changes);
+  }, [updateScript, current.id]);
+
+  const create = useCallback((title = getMessages().library.untitled, text = '', config?: TeleprompterConfig) => {
+    const script = createScript(title, text, config ?? current.config);
+    setScripts(prev => [script, ...prev]);
+    setCurrentId(script.id);
+    persist(script);
+    return script;
+  }, [current.config, persist]);
+
+  const duplicate = useCallback((id: string) => {
+    const source = scriptsRef.current.find(s => s.id === id);
+    if (!source) return;
+    const copy = createScript(getMessages().common.copyName(source.title), source.text, source.config);
+    setScripts(prev => [copy, ...prev]);
+    persist(copy);
+    return copy;
+  }, [persist]);
+
+  const remove = useCallback((id: string) => {
+    clearTimeout(pendingSaves.current.get(id));
+    pendingSaves.current.delete(id);
+    deleteScript(id).catch(err => console.error("Deleting script failed:", err));
+    const revision = scriptsRef.current.find(s => s.id === id)?.revision;
+    if (revision !== undefined) recordDeletion('scripts', id, revision);
+
+    const remaining = scriptsRef.current.filter(s => s.id !== id);
+    if (remaining.length === 0) {
+      // Always keep one script around for the prompter to show
+      const blank = createScript(getMessages().library.untitled);
+      remaining.push(blank);
+      persist(blank);
+    }
+    setScripts(remaining);
+    setCurrentId(prev => prev === id ? remaining[0].id : prev);
+  }, [persist]);
+
+  // Apply records that came from the sync server without marking them as local edits
+  const applySynced = useCallback((incoming: Script[], removedIds: string[]) => {
+    if (incoming.length === 0 && removedIds.length === 0) return;
+    const removed = new Set(removedIds);
+    removed.forEach(id => {
+      clearTimeout(pendingSaves.current.get(id));
+      pendingSaves.current.delete(id);
+      deleteScript(id).catch(err => console.error("Deleting script failed:", err));
+    });
+    incoming.forEach(persist);
+
+    const byId = new Map(incoming.map(s => [s.id, s]));
+    const known = new Set(scriptsRef.current.map(s => s.id));
+    const next = [
+      ...incoming.filter(s => !known.has(s.id)),
+      ...scriptsRef.current.filter(s => !removed.has(s.id)).map(s => byId.get(s.id) ?? s)
+    ];
+    if (next.length === 0) {
+      // Always keep one script around for the prompter to show
+      const blank = createScript(getMessages().library.untitled);
+      next.push(blank);
+      persist(blank);
+    }
+    setScripts(next);
+    setCurrentId(prev => removed.has(prev) ? next[0].id : prev);
+  }, [persist]);
+
+  // The server accepted a push; keep the dirty flag if the script was edited meanwhile
+  const markSynced = useCallback((id: string, revision: number, pushedUpdatedAt: number) => {
+    setScripts(prev => prev.map(s => s.id === id
+      ? { ...s, revision, dirty: s.updatedAt !== pushedUpdatedAt }
+      : s));
+    scheduleSave(id);
+  }, [scheduleSave]);
+
+  return {
+    scripts,
+    current,
+    isLoaded,
+    select: setCurrentId,
+    create,
+    duplicate,
+    remove,
+    rename: (id: string, title: string) => updateScript(id, { title }),
+    updateScript,
+    updateCurrent,
+    applySynced,
+    markSynced,
+  };
+}
+
+export type ScriptLibrary = ReturnType<typeof useScriptLibrary>;
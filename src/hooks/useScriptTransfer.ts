@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useRef } from 'react';
+import { Script } from '../types';
+import { ScriptLibrary } from './useScriptLibrary';
+import { createBundle, createShareLink, readScriptFile, readShareHash } from '../lib/scriptTransfer';
+import { downloadBlob } from '../lib/download';
+import { getMessages } from '../lib/i18n';
+
+/**
+ * File import, JSON export and share links for the library. `onOpen` runs after
+ * a script was imported or arrived through a share link.
+ */
+export function useScriptTransfer(library: ScriptLibrary, onOpen: (source: 'import' | 'link') => void) {
+  const handledHash = useRef(false);
+
+  // Open a shared script once the library is loaded, so it lands next to the stored ones
+  useEffect(() => {
+    if (!library.isLoaded || handledHash.current) return;
+    handledHash.current = true;
+    const draft = readShareHash(window.location.hash);
+    if (!draft) return;
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+
+    const existing = library.scripts.find(s => s.title === draft.title && s.text === draft.text);
+    if (existing) {
+      library.select(existing.id);
+      library.updateScript(existing.id, { config: draft.config });
+    } else {
+      library.create(draft.title, draft.text, draft.config);
+    }
+    onOpen('link');
+  }, [library.isLoaded]);
+
+  const importFiles = async (files: File[]) => {
+    let imported = 0;
+    for (const file of files) {
+      try {
+        const draft = await readScriptFile(file);
+        library.create(draft.title, draft.text, draft.config);
+        imported++;
+      } catch (err) {
+        console.error("Import failed:", err);
+        alert(getMessages().library.importFailed(file.name, err instanceof Error ? err.message : String(err)));
+      }
+    }
+    if (imported > 0) onOpen('import');
+  };
+
+  const exportScript = (script: Script = library.current) => {
+    downloadBlob(createBundle(script), `${script.title || getMessages().library.fileName}.json`);
+  };
+
+  const shareScript = async (script: Script = library.current) => {
+    const link = createShareLink(script);
+    try {
+      await navigator.clipboard.writeText(link);
+      alert(getMessages().library.shareLinkCopied);
+    } catch (err) {
+      console.error("Copy failed:", err);
+      prompt(getMessages().common.copyShareLink, link);
+    }
+  };
+
+  return { importFiles, exportScript, shareScript };
+}
+
+export type ScriptTransfer = ReturnType<typeof useScriptTransfer>;
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useEffect, useCallback } from 'react';
+import { TimelineSample } from '../lib/subtitles';
+import { BLOCK_SELECTOR } from './useParagraphNavigation';
+
+const SAMPLE_INTERVAL_MS = 100;
+
+interface TimelineOptions {
+  active: boolean;
+  containerRef: React.RefObject<HTMLDivElement | null>;
+  contentRef: React.RefObject<HTMLDivElement | null>;
+  focusOffsetRef: React.RefObject<number>;
+}
+
+/**
+ * Logs which point of the script is under the focus line while `active`.
+ * The samples of the last run stay available until the next one starts.
+ */
+export function useScrollTimeline({ active, containerRef, contentRef, focusOffsetRef }: TimelineOptions) {
+  const samplesRef = useRef<TimelineSample[]>([]);
+
+  const measure = useCallback((): number | null => {
+    const container = containerRef.current;
+    if (!container || !contentRef.current) return null;
+
+    const focus = container.scrollTop + focusOffsetRef.current;
+    const blocks: NodeListOf<HTMLElement> = contentRef.current.querySelectorAll(BLOCK_SELECTOR);
+    let position = 0;
+    blocks.forEach(el => {
+      if (el.offsetTop > focus) return;
+      const index = Number(el.dataset.blockIndex);
+      const progress = el.offsetHeight > 0 ? (focus - el.offsetTop) / el.offsetHeight : 1;
+      position = index + Math.min(1, progress);
+    });
+    return position;
+  }, [containerRef, contentRef, focusOffsetRef]);
+
+  useEffect(() => {
+    if (!active) return;
+    const startedAt = performance.now();
+    const samples: TimelineSample[] = [];
+    samplesRef.current = samples;
+
+    const sample = () => {
+      const position = measure();
+      if (position === null) return;
+      const time = (performance.now() - startedAt) / 1000;
+      // The timeline only needs points where the position moved
+      const last = samples[samples.length - 1];
+      if (last && last.position === position && samples[samples.length - 2]?.position === position) {
+        last.time = time;
+      } else {
+        samples.push({ time, position });
+      }
+    };
+    sample();
+    const timer = setInterval(sample, SAMPLE_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      sample();
+    };
+  }, [active, measure]);
+
+  const getSamples = useCallback(() => samplesRef.current, []);
+
+  return { getSamples };
+}
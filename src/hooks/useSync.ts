@@ -0,0 +1,245 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Script } from '../types';
+import { createScript } from '../lib/scriptStore';
+import { applyRemotePreferences, loadPreference, onPreferenceChange, savePreference } from '../lib/storage';
+import {
+  clearDeletion, fromRemoteFolder, fromRemoteScript, needsPush, pendingDeletions, SyncAccount,
+  SyncClient, toScriptWrite
+} from '../lib/syncClient';
+import { SYNCED_PREFERENCES } from '../lib/syncProtocol';
+import { getMessages, MESSAGES } from '../lib/i18n';
+import { usePreference } from './usePreference';
+import type { ScriptLibrary } from './useScriptLibrary';
+import type { Folders } from './useFolders';
+
+const SYNC_INTERVAL_MS = 30_000;
+// Edits are batched so typing doesn't send a request per keystroke
+const PUSH_DELAY_MS = 3000;
+const CURSOR_KEY = 'syncCursor';
+const SETTINGS_STATE_KEY = 'syncSettings';
+
+export type SyncStatus = 'off' | 'idle' | 'syncing' | 'offline' | 'error';
+
+interface SettingsState {
+  revision: number;
+  dirty: boolean;
+}
+
+function collectPreferences(): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  for (const key of SYNCED_PREFERENCES) {
+    const value = loadPreference<unknown>(key, null);
+    if (value !== null) data[key] = value;
+  }
+  return data;
+}
+
+// Every fresh install starts with the same welcome script (in whichever language it
+// was opened); the team doesn't need a copy per device
+function isUntouchedWelcome(script: Script) {
+  return script.revision === undefined && Object.values(MESSAGES).some(({ library }) =>
+    script.title === library.welcomeTitle && script.text === library.welcomeText);
+}
+
+function conflictCopy(script: Script): Script {
+  return { ...createScript(getMessages().sync.conflictCopyName(script.title), script.text, script.config), folderId: script.folderId };
+}
+
+/**
+ * Offline-first team sync: everything is edited locally, then pushed and pulled in the
+ * background. A push based on an outdated revision keeps the server copy and saves the
+ * local edit next to it as a conflict copy, so nobody's work is silently overwritten.
+ */
+export function useSync(library: ScriptLibrary, folders: Folders) {
+  const [account, setAccount] = usePreference<SyncAccount | null>('syncAccount', null);
+  const [lastSyncedAt, setLastSyncedAt] = usePreference<number | null>('syncLastSyncedAt', null);
+  const [status, setStatus] = useState<SyncStatus>(account ? 'idle' : 'off');
+  const [error, setError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState(0);
+
+  const libraryRef = useRef(library);
+  libraryRef.current = library;
+  const foldersRef = useRef(folders);
+  foldersRef.current = folders;
+  const runningRef = useRef(false);
+
+  const syncNow = useCallback(async () => {
+    if (!account || runningRef.current) return;
+    if (!navigator.onLine) {
+      setStatus('offline');
+      return;
+    }
+    runningRef.current = true;
+    setStatus('syncing');
+    const client = new SyncClient(account);
+    let conflictCount = 0;
+
+    try {
+      // Folders first so pushed scripts never point at a folder the server lacks
+      for (const folder of foldersRef.current.folders.filter(needsPush)) {
+        const result = await client.putFolder(folder.id, { baseRevision: folder.revision ?? 0, name: folder.name });
+        if ('record' in result) {
+          foldersRef.current.markSynced(folder.id, result.record.revision, folder.name);
+        } else if (result.current.deleted) {
+          foldersRef.current.applySynced([], [folder.id]);
+        } else {
+          foldersRef.current.applySynced([fromRemoteFolder(result.current)], []);
+        }
+      }
+
+      const toPush = libraryRef.current.scripts.filter(s => needsPush(s) && !isUntouchedWelcome(s));
+      for (const script of toPush) {
+        const result = await client.putScript(script.id, toScriptWrite(script));
+        if ('record' in result) {
+          libraryRef.current.markSynced(script.id, result.record.revision, script.updatedAt);
+          continue;
+        }
+        const current = result.current;
+        if (current.deleted) {
+          // Deleted elsewhere while edited here: keep the edit as a new script
+          libraryRef.current.applySynced([conflictCopy(script)], [script.id]);
+          conflictCount++;
+        } else if (current.title === script.title && current.text === script.text) {
+          libraryRef.current.applySynced([fromRemoteScript(current)], []);
+        } else {
+          libraryRef.current.applySynced([fromRemoteScript(current), conflictCopy(script)], []);
+          conflictCount++;
+        }
+      }
+
+      // A deletion loses against an edit made elsewhere; that edit comes back with the pull below
+      for (const { kind, id, revision } of pendingDeletions()) {
+        if (kind === 'scripts') await client.deleteScript(id, revision);
+        else await client.deleteFolder(id, revision);
+        clearDeletion(kind, id);
+      }
+
+      const settings = loadPreference<SettingsState>(SETTINGS_STATE_KEY, { revision: 0, dirty: true });
+      if (settings.dirty) {
+        const result = await client.putSettings({ baseRevision: settings.revision, data: collectPreferences() });
+        if ('record' in result) {
+          savePreference(SETTINGS_STATE_KEY, { revision: result.record.revision, dirty: false });
+        } else {
+          applyRemotePreferences(result.current.data, SYNCED_PREFERENCES);
+          savePreference(SETTINGS_STATE_KEY, { revision: result.current.revision, dirty: false });
+        }
+      }
+
+      const cursor = loadPreference<number>(CURSOR_KEY, 0);
+      const changes = await client.changes(cursor);
+      // Local edits made during this run are pushed (and conflict-checked) next time
+      const dirtyIds = new Set([
+        ...libraryRef.current.scripts.filter(s => s.dirty).map(s => s.id),
+        ...foldersRef.current.folders.filter(f => f.dirty).map(f => f.id)
+      ]);
+      const scripts = changes.scripts.filter(s => !dirtyIds.has(s.id));
+      const remoteFolders = changes.folders.filter(f => !dirtyIds.has(f.id));
+      foldersRef.current.applySynced(
+        remoteFolders.filter(f => !f.deleted).map(fromRemoteFolder),
+        remoteFolders.filter(f => f.deleted).map(f => f.id)
+      );
+      libraryRef.current.applySynced(
+        scripts.filter(s => !s.deleted).map(fromRemoteScript),
+        scripts.filter(s => s.deleted).map(s => s.id)
+      );
+      const settingsNow = loadPreference<SettingsState>(SETTINGS_STATE_KEY, { revision: 0, dirty: false });
+      if (changes.settings && !settingsNow.dirty && changes.settings.revision > settingsNow.revision) {
+        applyRemotePreferences(changes.settings.data, SYNCED_PREFERENCES);
+        savePreference(SETTINGS_STATE_KEY, { revision: changes.settings.revision, dirty: false });
+      }
+      savePreference(CURSOR_KEY, changes.cursor);
+
+      setLastSyncedAt(Date.now());
+      if (conflictCount > 0) setConflicts(prev => prev + conflictCount);
+      setError(null);
+      setStatus('idle');
+    } catch (err) {
+      console.error("Sync failed:", err);
+      // fetch rejects with a TypeError when the server can't be reached
+      if (err instanceof TypeError) {
+        setStatus('offline');
+      } else {
+        setError(err instanceof Error ? err.message : getMessages().sync.status.error);
+        setStatus('error');
+      }
+    } finally {
+      runningRef.current = false;
+    }
+  }, [account, setLastSyncedAt]);
+
+  const syncNowRef = useRef(syncNow);
+  syncNowRef.current = syncNow;
+
+  // Sync on connect, periodically, and whenever the network comes back
+  useEffect(() => {
+    if (!account) {
+      setStatus('off');
+      return;
+    }
+    const run = () => syncNowRef.current();
+    run();
+    const interval = setInterval(run, SYNC_INTERVAL_MS);
+    window.addEventListener('online', run);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', run);
+    };
+  }, [account]);
+
+  // Local changes to synced preferences go up with the next push
+  const [settingsTouched, setSettingsTouched] = useState(0);
+  useEffect(() => onPreferenceChange(change => {
+    if (change.remote || !SYNCED_PREFERENCES.includes(change.key)) return;
+    const settings = loadPreference<SettingsState>(SETTINGS_STATE_KEY, { revision: 0, dirty: true });
+    savePreference(SETTINGS_STATE_KEY, { ...settings, dirty: true });
+    setSettingsTouched(n => n + 1);
+  }), []);
+
+  const hasLocalChanges = library.scripts.some(s => needsPush(s) && !isUntouchedWelcome(s))
+    || folders.folders.some(needsPush);
+  useEffect(() => {
+    if (!account || (!hasLocalChanges && settingsTouched === 0)) return;
+    const timer = setTimeout(() => syncNowRef.current(), PUSH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [account, hasLocalChanges, settingsTouched]);
+
+  /** Checks the token against the server before saving it. */
+  const connect = useCallback(async (serverUrl: string, token: string) => {
+    const url = serverUrl.trim().replace(/\/+$/, '');
+    const { user } = await new SyncClient({ serverUrl: url, token: token.trim() }).me();
+    // Start from scratch: pull everything and let the server's settings win
+    savePreference(CURSOR_KEY, 0);
+    savePreference(SETTINGS_STATE_KEY, { revision: 0, dirty: true });
+    setConflicts(0);
+    setError(null);
+    setAccount({ serverUrl: url, token: token.trim(), userName: user.name });
+  }, [setAccount]);
+
+  /** Local scripts stay on this device. */
+  const disconnect = useCallback(() => {
+    setAccount(null);
+    setLastSyncedAt(null);
+    savePreference(CURSOR_KEY, null);
+    setConflicts(0);
+    setError(null);
+  }, [setAccount, setLastSyncedAt]);
+
+  return {
+    account,
+    status,
+    error,
+    lastSyncedAt,
+    conflicts,
+    clearConflicts: () => setConflicts(0),
+    connect,
+    disconnect,
+    syncNow,
+  };
+}
+
+export type Sync = ReturnType<typeof useSync>;
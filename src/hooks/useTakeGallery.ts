@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { RecordedTake, Take } from '../types';
+import { deleteTakes, getStorageUsage, loadTakes, saveRecordedTake, StorageUsage, updateTake } from '../lib/takeStore';
+import { deleteRecordingSession } from '../lib/recordingStore';
+
+export function useTakeGallery() {
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [usage, setUsage] = useState<StorageUsage>({ takes: 0 });
+  const takesRef = useRef(takes);
+  takesRef.current = takes;
+
+  useEffect(() => {
+    loadTakes()
+      .then(setTakes)
+      .catch(err => console.error("Loading takes failed:", err));
+  }, []);
+
+  useEffect(() => {
+    getStorageUsage(takes).then(setUsage);
+  }, [takes]);
+
+  const add = useCallback(async (recorded: RecordedTake) => {
+    try {
+      const take = await saveRecordedTake(recorded);
+      setTakes(prev => [take, ...prev].sort((a, b) => b.createdAt - a.createdAt));
+      // Safely in the gallery now, so the crash-recovery copy can go
+      if (recorded.recordingId) {
+        deleteRecordingSession(recorded.recordingId).catch(err => console.error("Clearing recording chunks failed:", err));
+      }
+      return take;
+    } catch (err) {
+      console.error("Saving take failed:", err);
+    }
+  }, []);
+
+  const update = useCallback((id: string, changes: Partial<Pick<Take, 'name' | 'rating' | 'starred' | 'cues'>>) => {
+    const take = takesRef.current.find(t => t.id === id);
+    if (!take) return;
+    const next = { ...take, ...changes };
+    setTakes(prev => prev.map(t => t.id === id ? next : t));
+    updateTake(next).catch(err => console.error("Updating take failed:", err));
+  }, []);
+
+  const remove = useCallback(async (ids: string[]) => {
+    try {
+      await deleteTakes(ids);
+      setTakes(prev => prev.filter(t => !ids.includes(t.id)));
+    } catch (err) {
+      console.error("Deleting takes failed:", err);
+    }
+  }, []);
+
+  return { takes, usage, add, update, remove };
+}
+
+export type TakeGallery = ReturnType<typeof useTakeGallery>;
@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect } from 'react';
+
+/** Keeps the screen on while `active`; browsers drop the lock whenever the page is hidden. */
+export function useWakeLock(active: boolean) {
+  useEffect(() => {
+    if (!active || !('wakeLock' in navigator)) return;
+    let lock: WakeLockSentinel | null = null;
+    let released = false;
+
+    const acquire = async () => {
+      if (document.visibilityState !== 'visible' || (lock && !lock.released)) return;
+      try {
+        const next = await navigator.wakeLock.request('screen');
+        if (released) next.release();
+        else lock = next;
+      } catch (err) {
+        // Refused on low battery or without a user gesture; the screen may dim
+        console.warn("Wake lock unavailable:", err);
+      }
+    };
+
+    acquire();
+    document.addEventListener('visibilitychange', acquire);
+    return () => {
+      released = true;
+      document.removeEventListener('visibilitychange', acquire);
+      lock?.release().catch(() => {});
+    };
+  }, [active]);
+}
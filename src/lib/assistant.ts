@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Script assistant. Tasks are turned into prompts here and sent to whichever
+// provider is configured: Gemini when GEMINI_API_KEY is set, or a plain HTTP
+// endpoint (ASSISTANT_API_URL, e.g. the mock in server/mockAssistant.ts).
+// Without either the assistant is switched off entirely.
+
+export type AssistantTask =
+  | { type: 'rewrite' }
+  | { type: 'shorten'; targetSeconds: number; targetChars: number }
+  | { type: 'hooks'; count: number }
+  | { type: 'translate'; language: TranslateLanguage };
+
+/** BCP 47 tags; the picker labels live in the locale catalogs */
+export type TranslateLanguage = 'en' | 'zh-Hant' | 'ja' | 'ko';
+
+export const TRANSLATE_LANGUAGES: TranslateLanguage[] = ['en', 'zh-Hant', 'ja', 'ko'];
+
+// The prompts are written in Chinese, so target languages are named in Chinese too
+const promptLanguageNames = new Intl.DisplayNames(['zh-CN'], { type: 'language' });
+
+export interface AssistantRequest {
+  task: AssistantTask;
+  text: string;
+  system: string;
+  prompt: string;
+}
+
+export interface AssistantProvider {
+  readonly name: string;
+  generate(request: AssistantRequest, signal?: AbortSignal): Promise<string>;
+}
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+const PLACEHOLDER_KEY = 'MY_GEMINI_API_KEY';
+
+const SYSTEM_PROMPT = [
+  '你是一名短视频口播稿编辑。',
+  '只输出结果正文，不要解释，不要使用 Markdown 代码块。',
+  '保留台词中的标记语法：## 标题、**重点**、[pause 2s] / [停顿 2秒]、[cue: …] / [提示：…]。'
+].join('\n');
+
+const VARIANT_SEPARATOR = /^\s*-{3,}\s*$/m;
+
+class GeminiProvider implements AssistantProvider {
+  readonly name = 'Gemini';
+
+  constructor(private apiKey: string) {}
+
+  async generate(request: AssistantRequest, signal?: AbortSignal): Promise<string> {
+    // The SDK is only loaded once someone actually uses the assistant
+    const { GoogleGenAI } = await import('@google/genai');
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: request.prompt,
+      config: { systemInstruction: request.system, abortSignal: signal }
+    });
+    return response.text ?? '';
+  }
+}
+
+/** POSTs the request as JSON and expects `{ text }` back. */
+class HttpProvider implements AssistantProvider {
+  readonly name: string;
+
+  constructor(private url: string) {
+    this.name = new URL(url, window.location.href).host;
+  }
+
+  async generate(request: AssistantRequest, signal?: AbortSignal): Promise<string> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal
+    });
+    if (!response.ok) throw new Error(`Assistant request failed: ${response.status}`);
+    const { text } = await response.json() as { text?: string };
+    return text ?? '';
+  }
+}
+
+let provider: AssistantProvider | null | undefined;
+
+export function getAssistantProvider(): AssistantProvider | null {
+  if (provider === undefined) {
+    const url = process.env.ASSISTANT_API_URL;
+    const key = process.env.GEMINI_API_KEY;
+    provider = url
+      ? new HttpProvider(url)
+      : key && key !== PLACEHOLDER_KEY ? new GeminiProvider(key) : null;
+  }
+  return provider;
+}
+
+export function buildRequest(task: AssistantTask, text: string): AssistantRequest {
+  let instruction: string;
+  switch (task.type) {
+    case 'rewrite':
+      instruction = '把下面的台词改写成适合口播的口语化表达：多用短句，读起来自然顺口，避免书面语，意思和结构不变。';
+      break;
+    case 'shorten':
+      instruction = `把下面的台词压缩到约 ${task.targetChars} 字（朗读约 ${task.targetSeconds} 秒），保留核心信息和段落结构。`;
+      break;
+    case 'hooks':
+      instruction = `为下面的台词写 ${task.count} 个风格不同的开场白，每个一到两句，要在前 3 秒抓住观众。只输出开场白本身，每个之间用单独一行 --- 分隔。`;
+      break;
+    case 'translate':
+      instruction = `把下面的台词翻译成${promptLanguageNames.of(task.language)}，保持口语化，适合朗读。`;
+      break;
+  }
+  return { task, text, system: SYSTEM_PROMPT, prompt: `${instruction}\n\n台词：\n${text}` };
+}
+
+function cleanOutput(output: string): string {
+  return output.trim().replace(/^```\w*\n?/, '').replace(/\n?```$/, '').trim();
+}
+
+/** Runs a task; hooks come back as several variants, everything else as one text. */
+export async function runAssistant(
+  provider: AssistantProvider,
+  task: AssistantTask,
+  text: string,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const output = cleanOutput(await provider.generate(buildRequest(task, text), signal));
+  if (task.type !== 'hooks') return output ? [output] : [];
+  return output
+    .split(VARIANT_SEPARATOR)
+    .map(variant => variant.trim().replace(/^(?:\d+[.、:：)]|开场\s*\d*\s*[:：])\s*/, ''))
+    .filter(Boolean);
+}
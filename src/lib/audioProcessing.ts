@@ -0,0 +1,230 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Voice-over processing between the mic track and the recorder:
+// high-pass -> noise gate -> compressor -> 3-band EQ -> makeup gain -> limiter.
+// The input is metered before any processing so clipping at the mic is visible.
+
+import { getAudioContextCtor } from './voiceActivity';
+
+export type AudioPreset = 'raw' | 'clear' | 'warm' | 'podcast';
+
+export const AUDIO_PRESETS: AudioPreset[] = ['raw', 'clear', 'warm', 'podcast'];
+
+interface PresetParams {
+  highPassHz: number;
+  lowShelf: { hz: number; db: number };
+  mid: { hz: number; db: number; q: number };
+  highShelf: { hz: number; db: number };
+  compressor: { threshold: number; ratio: number };
+  makeupDb: number;
+}
+
+const PRESETS: Record<Exclude<AudioPreset, 'raw'>, PresetParams> = {
+  clear: {
+    highPassHz: 90,
+    lowShelf: { hz: 200, db: -2 },
+    mid: { hz: 3000, db: 3, q: 1 },
+    highShelf: { hz: 8000, db: 2 },
+    compressor: { threshold: -22, ratio: 3 },
+    makeupDb: 4
+  },
+  warm: {
+    highPassHz: 70,
+    lowShelf: { hz: 160, db: 3 },
+    mid: { hz: 2500, db: -1, q: 0.8 },
+    highShelf: { hz: 7000, db: -2 },
+    compressor: { threshold: -20, ratio: 2.5 },
+    makeupDb: 3
+  },
+  podcast: {
+    highPassHz: 80,
+    lowShelf: { hz: 120, db: 2 },
+    mid: { hz: 400, db: -3, q: 1.2 },
+    highShelf: { hz: 6000, db: 3 },
+    compressor: { threshold: -28, ratio: 4.5 },
+    makeupDb: 7
+  }
+};
+
+// Gate opens above OPEN and closes below CLOSE (hysteresis avoids chatter)
+const GATE_OPEN_DB = -50;
+const GATE_CLOSE_DB = -56;
+const GATE_HOLD_MS = 200;
+const GATE_FLOOR = 0.05; // -26dB instead of hard silence, which sounds unnatural
+const GATE_INTERVAL_MS = 20;
+
+const CLIP_LEVEL = 0.99;
+const METER_FLOOR_DB = -60;
+
+export interface AudioLevel {
+  /** RMS mapped to 0..1 over -60..0 dBFS, for drawing a meter */
+  level: number;
+  /** Sample peak since the last read, 0..1 */
+  peak: number;
+  clipping: boolean;
+}
+
+export class AudioProcessor {
+  private context: AudioContext;
+  private source: MediaStreamAudioSourceNode;
+  private inputAnalyser: AnalyserNode;
+  private gateAnalyser: AnalyserNode;
+  private highPass: BiquadFilterNode;
+  private gate: GainNode;
+  private compressor: DynamicsCompressorNode;
+  private lowShelf: BiquadFilterNode;
+  private mid: BiquadFilterNode;
+  private highShelf: BiquadFilterNode;
+  private makeup: GainNode;
+  private limiter: DynamicsCompressorNode;
+  private destination: MediaStreamAudioDestinationNode;
+  private inputBuffer: Float32Array<ArrayBuffer>;
+  private gateBuffer: Float32Array<ArrayBuffer>;
+  private gateTimer: ReturnType<typeof setInterval>;
+  private gateOpen = false;
+  private lastLoudAt = 0;
+
+  static isSupported(stream: MediaStream | null): boolean {
+    return !!stream && stream.getAudioTracks().some(t => t.readyState === 'live') && !!getAudioContextCtor();
+  }
+
+  constructor(stream: MediaStream, preset: AudioPreset) {
+    const Ctor = getAudioContextCtor();
+    if (!Ctor) throw new Error('Web Audio is not available');
+
+    const ctx = new Ctor();
+    this.context = ctx;
+    this.source = ctx.createMediaStreamSource(new MediaStream(stream.getAudioTracks()));
+
+    this.inputAnalyser = ctx.createAnalyser();
+    this.inputAnalyser.fftSize = 2048;
+    this.inputBuffer = new Float32Array(this.inputAnalyser.fftSize);
+
+    this.highPass = ctx.createBiquadFilter();
+    this.highPass.type = 'highpass';
+    this.highPass.Q.value = 0.7;
+
+    this.gateAnalyser = ctx.createAnalyser();
+    this.gateAnalyser.fftSize = 512;
+    this.gateBuffer = new Float32Array(this.gateAnalyser.fftSize);
+    this.gate = ctx.createGain();
+    this.gate.gain.value = GATE_FLOOR;
+
+    this.compressor = ctx.createDynamicsCompressor();
+    this.compressor.knee.value = 6;
+    this.compressor.attack.value = 0.005;
+    this.compressor.release.value = 0.15;
+
+    this.lowShelf = ctx.createBiquadFilter();
+    this.lowShelf.type = 'lowshelf';
+    this.mid = ctx.createBiquadFilter();
+    this.mid.type = 'peaking';
+    this.highShelf = ctx.createBiquadFilter();
+    this.highShelf.type = 'highshelf';
+
+    this.makeup = ctx.createGain();
+
+    // Brick-wall-ish limiter just under full scale
+    this.limiter = ctx.createDynamicsCompressor();
+    this.limiter.threshold.value = -1.5;
+    this.limiter.knee.value = 0;
+    this.limiter.ratio.value = 20;
+    this.limiter.attack.value = 0.001;
+    this.limiter.release.value = 0.05;
+
+    this.destination = ctx.createMediaStreamDestination();
+
+    this.source.connect(this.inputAnalyser);
+    this.source.connect(this.highPass);
+    this.highPass.connect(this.gateAnalyser);
+    this.highPass.connect(this.gate);
+    this.gate.connect(this.compressor);
+    this.compressor.connect(this.lowShelf);
+    this.lowShelf.connect(this.mid);
+    this.mid.connect(this.highShelf);
+    this.highShelf.connect(this.makeup);
+    this.makeup.connect(this.limiter);
+    this.limiter.connect(this.destination);
+
+    this.setPreset(preset);
+    this.gateTimer = setInterval(() => this.updateGate(), GATE_INTERVAL_MS);
+  }
+
+  /** The processed mic signal, ready to put next to the video track. */
+  get outputTrack(): MediaStreamTrack | undefined {
+    return this.destination.stream.getAudioTracks()[0];
+  }
+
+  resume() {
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(err => console.warn("AudioContext resume failed:", err));
+    }
+  }
+
+  /** Presets only change parameters, so switching never interrupts the output track. */
+  setPreset(preset: AudioPreset) {
+    if (preset === 'raw') return;
+    const params = PRESETS[preset];
+    const now = this.context.currentTime;
+    this.highPass.frequency.setValueAtTime(params.highPassHz, now);
+    this.lowShelf.frequency.setValueAtTime(params.lowShelf.hz, now);
+    this.lowShelf.gain.setValueAtTime(params.lowShelf.db, now);
+    this.mid.frequency.setValueAtTime(params.mid.hz, now);
+    this.mid.gain.setValueAtTime(params.mid.db, now);
+    this.mid.Q.setValueAtTime(params.mid.q, now);
+    this.highShelf.frequency.setValueAtTime(params.highShelf.hz, now);
+    this.highShelf.gain.setValueAtTime(params.highShelf.db, now);
+    this.compressor.threshold.setValueAtTime(params.compressor.threshold, now);
+    this.compressor.ratio.setValueAtTime(params.compressor.ratio, now);
+    this.makeup.gain.setValueAtTime(Math.pow(10, params.makeupDb / 20), now);
+  }
+
+  /** Input level before processing; call from an animation frame. */
+  readLevel(): AudioLevel {
+    this.inputAnalyser.getFloatTimeDomainData(this.inputBuffer);
+    let sum = 0;
+    let peak = 0;
+    for (let i = 0; i < this.inputBuffer.length; i++) {
+      const v = this.inputBuffer[i];
+      sum += v * v;
+      peak = Math.max(peak, Math.abs(v));
+    }
+    const db = toDb(Math.sqrt(sum / this.inputBuffer.length));
+    return {
+      level: Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB)),
+      peak,
+      clipping: peak >= CLIP_LEVEL
+    };
+  }
+
+  private updateGate() {
+    this.gateAnalyser.getFloatTimeDomainData(this.gateBuffer);
+    let sum = 0;
+    for (let i = 0; i < this.gateBuffer.length; i++) {
+      sum += this.gateBuffer[i] * this.gateBuffer[i];
+    }
+    const db = toDb(Math.sqrt(sum / this.gateBuffer.length));
+    const now = performance.now();
+    if (db > GATE_OPEN_DB) this.lastLoudAt = now;
+
+    const open = db > GATE_OPEN_DB || (this.gateOpen && (db > GATE_CLOSE_DB || now - this.lastLoudAt < GATE_HOLD_MS));
+    if (open === this.gateOpen) return;
+    this.gateOpen = open;
+    // Fast attack so first syllables aren't clipped, slow release to avoid pumping
+    this.gate.gain.setTargetAtTime(open ? 1 : GATE_FLOOR, this.context.currentTime, open ? 0.005 : 0.08);
+  }
+
+  dispose() {
+    clearInterval(this.gateTimer);
+    this.source.disconnect();
+    this.outputTrack?.stop();
+    this.context.close().catch(() => {});
+  }
+}
+
+function toDb(amplitude: number): number {
+  return amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity;
+}
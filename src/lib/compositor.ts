@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Draws the camera plus branding overlays onto a canvas whose captureStream()
+// is recorded instead of the raw camera track.
+
+import { OverlayPosition, OverlayTemplate } from '../types';
+import { startTicker } from './frameTicker';
+
+const DEFAULT_LOGO_URL = '/logo.png';
+const MARGIN = 0.03; // Fraction of the frame width kept clear around overlays
+
+export class Compositor {
+  readonly canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private video: HTMLVideoElement;
+  private template: OverlayTemplate;
+  private logo: HTMLImageElement | null = null;
+  private logoUrl: string | null = null;
+  private logoSource: Blob | undefined | null = null; // null = nothing requested yet
+  private stopTicker: () => void;
+  private output: MediaStream;
+
+  constructor(stream: MediaStream, template: OverlayTemplate, frameRate = 30) {
+    this.canvas = document.createElement('canvas');
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D is not available');
+    this.ctx = ctx;
+
+    // A private <video> keeps frames flowing even when the preview is hidden
+    this.video = document.createElement('video');
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.video.srcObject = new MediaStream(stream.getVideoTracks());
+    this.video.play().catch(err => console.warn("Compositor video failed to play:", err));
+
+    this.template = template;
+    this.loadLogo();
+    this.output = this.canvas.captureStream(frameRate);
+    this.stopTicker = startTicker(frameRate, this.draw);
+  }
+
+  get videoTrack(): MediaStreamTrack | undefined {
+    return this.output.getVideoTracks()[0];
+  }
+
+  setTemplate(template: OverlayTemplate) {
+    this.template = template;
+    this.loadLogo();
+  }
+
+  private loadLogo() {
+    const source = this.template.logo.image;
+    if (source === this.logoSource) return;
+    this.logoSource = source;
+    if (this.logoUrl) URL.revokeObjectURL(this.logoUrl);
+    this.logoUrl = source ? URL.createObjectURL(source) : null;
+
+    const image = new Image();
+    this.logo = null;
+    image.onload = () => {
+      if (this.logoSource === source) this.logo = image;
+    };
+    image.onerror = () => {
+      if (this.logoSource === source) this.logo = null;
+    };
+    image.src = this.logoUrl ?? DEFAULT_LOGO_URL;
+  }
+
+  private draw = () => {
+    const { video, canvas, ctx, template } = this;
+    if (video.readyState < 2 || !video.videoWidth) return;
+
+    // Follow the camera's real size (it may change after a device switch)
+    if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+    }
+    const { width, height } = canvas;
+
+    ctx.save();
+    if (template.mirror) {
+      ctx.translate(width, 0);
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(video, 0, 0, width, height);
+    ctx.restore();
+
+    if (template.logo.enabled && this.logo) this.drawLogo(this.logo);
+    if (template.watermark.enabled && template.watermark.text.trim()) this.drawWatermark();
+    if (template.lowerThird.enabled && (template.lowerThird.name.trim() || template.lowerThird.title.trim())) {
+      this.drawLowerThird();
+    }
+  };
+
+  private drawLogo(image: HTMLImageElement) {
+    const { ctx, canvas } = this;
+    const { size, position, opacity } = this.template.logo;
+    const w = canvas.width * size;
+    const h = w * (image.naturalHeight / image.naturalWidth || 1);
+    const { x, y } = place(position, w, h, canvas.width, canvas.height);
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    ctx.drawImage(image, x, y, w, h);
+    ctx.restore();
+  }
+
+  private drawWatermark() {
+    const { ctx, canvas } = this;
+    const { text, position, opacity } = this.template.watermark;
+    const fontSize = Math.round(canvas.width * 0.028);
+    ctx.save();
+    ctx.font = `bold ${fontSize}px system-ui, sans-serif`;
+    ctx.textBaseline = 'top';
+    const w = ctx.measureText(text).width;
+    const { x, y } = place(position, w, fontSize, canvas.width, canvas.height);
+    ctx.globalAlpha = opacity;
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = fontSize * 0.3;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(text, x, y);
+    ctx.restore();
+  }
+
+  private drawLowerThird() {
+    const { ctx, canvas } = this;
+    const { name, title, accent } = this.template.lowerThird;
+    const unit = Math.min(canvas.width, canvas.height);
+    const nameSize = Math.round(unit * 0.055);
+    const titleSize = Math.round(unit * 0.035);
+    const pad = Math.round(unit * 0.025);
+    const bar = Math.round(unit * 0.012);
+
+    ctx.save();
+    ctx.textBaseline = 'top';
+    ctx.font = `bold ${nameSize}px system-ui, sans-serif`;
+    const nameWidth = name ? ctx.measureText(name).width : 0;
+    ctx.font = `${titleSize}px system-ui, sans-serif`;
+    const titleWidth = title ? ctx.measureText(title).width : 0;
+
+    const boxWidth = Math.max(nameWidth, titleWidth) + pad * 2;
+    const boxHeight = pad * 2 + (name ? nameSize : 0) + (title ? titleSize : 0) + (name && title ? pad * 0.4 : 0);
+    const x = canvas.width * MARGIN;
+    const y = canvas.height * 0.82 - boxHeight;
+
+    ctx.fillStyle = accent;
+    ctx.fillRect(x, y, bar, boxHeight);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.65)';
+    ctx.fillRect(x + bar, y, boxWidth, boxHeight);
+
+    let textY = y + pad;
+    if (name) {
+      ctx.font = `bold ${nameSize}px system-ui, sans-serif`;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(name, x + bar + pad, textY);
+      textY += nameSize + pad * 0.4;
+    }
+    if (title) {
+      ctx.font = `${titleSize}px system-ui, sans-serif`;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.75)';
+      ctx.fillText(title, x + bar + pad, textY);
+    }
+    ctx.restore();
+  }
+
+  dispose() {
+    this.stopTicker();
+    this.output.getTracks().forEach(track => track.stop());
+    this.video.srcObject = null;
+    if (this.logoUrl) URL.revokeObjectURL(this.logoUrl);
+  }
+}
+
+function place(position: OverlayPosition, w: number, h: number, frameWidth: number, frameHeight: number) {
+  const margin = frameWidth * MARGIN;
+  switch (position) {
+    case 'top-left': return { x: margin, y: margin };
+    case 'top-right': return { x: frameWidth - w - margin, y: margin };
+    case 'bottom-left': return { x: margin, y: frameHeight - h - margin };
+    case 'bottom-right': return { x: frameWidth - w - margin, y: frameHeight - h - margin };
+    case 'center': return { x: (frameWidth - w) / 2, y: (frameHeight - h) / 2 };
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Configs that arrive from outside the app (share links, JSON bundles, the sync
+// server, a paired controller) are checked field by field before they are used or
+// saved. Each field must have the right type and sit in the range its control offers.
+
+import { DEFAULT_CONFIG, PaceMode, ScrollMode, TeleprompterConfig } from '../types';
+import { PACE_SLIDERS } from './scrollEngine';
+import { FONT_STACKS, FONT_WEIGHTS, TEXT_ALIGNS } from './typography';
+
+type Guards = { [K in keyof TeleprompterConfig]: (value: unknown) => value is TeleprompterConfig[K] };
+
+const inRange = (min: number, max: number) => (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const oneOf = <T>(values: readonly T[]) => (value: unknown): value is T =>
+  values.includes(value as T);
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value);
+
+const pace = (mode: PaceMode) => inRange(PACE_SLIDERS[mode].min, PACE_SLIDERS[mode].max);
+
+const CONFIG_GUARDS: Guards = {
+  fontSize: inRange(16, 96),
+  color: isColor,
+  fontFamily: oneOf(Object.keys(FONT_STACKS) as (keyof typeof FONT_STACKS)[]),
+  fontWeight: oneOf<number>(FONT_WEIGHTS),
+  lineHeight: inRange(1, 2.5),
+  letterSpacing: inRange(0, 0.3),
+  textAlign: oneOf(TEXT_ALIGNS),
+  sideMargin: inRange(0, 160),
+  outlineWidth: inRange(0, 6),
+  focusLinePosition: inRange(0.2, 0.8),
+  focusLineColor: isColor,
+  highlightCurrentLine: isBoolean,
+  speed: pace('pixels'),
+  opacity: inRange(0, 1),
+  scrollMode: oneOf<ScrollMode>(['fixed', 'voice']),
+  paceMode: oneOf(Object.keys(PACE_SLIDERS) as PaceMode[]),
+  charsPerMinute: pace('cpm'),
+  targetSeconds: pace('duration'),
+  mirrorX: isBoolean,
+  mirrorY: isBoolean,
+  hideCamera: isBoolean,
+  fullscreenText: isBoolean
+};
+
+function copyValid<K extends keyof TeleprompterConfig>(
+  from: Record<string, unknown>,
+  to: Partial<TeleprompterConfig>,
+  key: K
+) {
+  const value = from[key];
+  const guard: (value: unknown) => value is TeleprompterConfig[K] = CONFIG_GUARDS[key];
+  if (guard(value)) to[key] = value;
+}
+
+/** The known, well-formed fields of an untrusted partial config; everything else is dropped. */
+export function sanitizeConfigChanges(value: unknown): Partial<TeleprompterConfig> {
+  const changes: Partial<TeleprompterConfig> = {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return changes;
+  (Object.keys(CONFIG_GUARDS) as (keyof TeleprompterConfig)[])
+    .forEach(key => copyValid(value as Record<string, unknown>, changes, key));
+  return changes;
+}
+
+/** A complete config from untrusted input, with defaults for missing or invalid fields. */
+export function sanitizeConfig(value: unknown): TeleprompterConfig {
+  return { ...DEFAULT_CONFIG, ...sanitizeConfigChanges(value) };
+}
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Thin promise wrapper around the app's IndexedDB database.
+// Bump DB_VERSION and add the store to STORES when a feature needs a new one.
+
+const DB_NAME = 'teleprompter';
+const DB_VERSION = 5;
+
+const STORES = {
+  scripts: { keyPath: 'id' },
+  takes: { keyPath: 'id' },
+  // Video blobs are kept apart from take metadata so listing takes stays cheap
+  takeBlobs: {},
+  overlayTemplates: { keyPath: 'id' },
+  folders: { keyPath: 'id' },
+  // Recordings in progress; chunks are keyed [recordingId, index]
+  recordings: { keyPath: 'id' },
+  recordingChunks: {},
+} satisfies Record<string, IDBObjectStoreParameters>;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const [name, options] of Object.entries<IDBObjectStoreParameters>(STORES)) {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, options);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return promisifyRequest(fn(db.transaction(name, mode).objectStore(name)));
+}
+
+export function getAll<T>(name: StoreName): Promise<T[]> {
+  return withStore(name, 'readonly', store => store.getAll());
+}
+
+export function getOne<T>(name: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore(name, 'readonly', store => store.get(key));
+}
+
+export async function putOne<T>(name: StoreName, value: T): Promise<void> {
+  await withStore(name, 'readwrite', store => store.put(value));
+}
+
+export async function deleteOne(name: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(name, 'readwrite', store => store.delete(key));
+}
+
+/** Runs several requests in one transaction; resolves once it commits. */
+export async function withTransaction(
+  names: StoreName[],
+  fn: (tx: IDBTransaction) => void
+): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(names, 'readwrite');
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    fn(tx);
+  });
+}
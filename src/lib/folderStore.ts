@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ScriptFolder } from '../types';
+import { deleteOne, getAll, putOne } from './db';
+import { createId } from './scriptStore';
+
+export function createFolder(name: string): ScriptFolder {
+  return { id: createId(), name, createdAt: Date.now() };
+}
+
+export async function loadFolders(): Promise<ScriptFolder[]> {
+  const folders = await getAll<ScriptFolder>('folders');
+  return folders.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function saveFolder(folder: ScriptFolder): Promise<void> {
+  return putOne('folders', folder);
+}
+
+export function deleteFolder(id: string): Promise<void> {
+  return deleteOne('folders', id);
+}
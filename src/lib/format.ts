@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** 75 → "1:15", 3725 → "1:02:05"; for timers and media lengths */
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
+/** 75 → "1分钟15秒" / "1 min, 15 sec"; for estimates and settings */
+export function formatDurationText(totalSeconds: number, locale: string): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const parts: [number, string][] = [
+    [Math.floor(seconds / 3600), 'hour'],
+    [Math.floor((seconds % 3600) / 60), 'minute'],
+    [seconds % 60, 'second']
+  ];
+  const shown = parts.filter(([value]) => value > 0);
+  return new Intl.ListFormat(locale, { type: 'unit', style: 'short' }).format(
+    (shown.length > 0 ? shown : [parts[2]]).map(([value, unit]) =>
+      new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: 'short' }).format(value))
+  );
+}
+
+const SIZE_UNITS = ['kilobyte', 'megabyte', 'gigabyte'];
+
+/** Binary steps as before, with the number and unit written the way the locale does */
+export function formatFileSize(bytes: number, locale: string): string {
+  if (bytes < 1024) return `${new Intl.NumberFormat(locale).format(bytes)} B`;
+  let value = bytes / 1024;
+  let step = 0;
+  while (value >= 1024 && step < SIZE_UNITS.length - 1) {
+    value /= 1024;
+    step++;
+  }
+  const digits = step === SIZE_UNITS.length - 1 ? 2 : 1;
+  return new Intl.NumberFormat(locale, {
+    style: 'unit',
+    unit: SIZE_UNITS[step],
+    unitDisplay: 'short',
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits
+  }).format(value);
+}
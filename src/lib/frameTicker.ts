@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Animation frames stop while the page is hidden or covered by another window, which
+// would freeze a recorded canvas; a worker's timer keeps it ticking.
+export function startTicker(fps: number, tick: () => void): () => void {
+  const url = URL.createObjectURL(new Blob([`setInterval(() => postMessage(0), ${1000 / fps});`], { type: 'text/javascript' }));
+  const worker = new Worker(url);
+  worker.onmessage = tick;
+  return () => {
+    worker.terminate();
+    URL.revokeObjectURL(url);
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// UI language. Catalogs live in src/locales; zh-CN is the source and defines the
+// `Messages` shape, so a key missing from another catalog fails `npm run lint`.
+
+import { Messages, zhCN } from '../locales/zh-CN';
+import { zhTW } from '../locales/zh-TW';
+import { en } from '../locales/en';
+import { loadPreference } from './storage';
+
+export type { Messages };
+
+export type Locale = 'zh-CN' | 'zh-TW' | 'en';
+
+/** 'auto' follows the browser language */
+export type LocalePreference = Locale | 'auto';
+
+export const LOCALE_PREFERENCE_KEY = 'locale';
+
+export const MESSAGES: Record<Locale, Messages> = {
+  'zh-CN': zhCN,
+  'zh-TW': zhTW,
+  en
+};
+
+/** Each language named in itself, for the switcher */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'zh-CN': '简体中文',
+  'zh-TW': '繁體中文',
+  en: 'English'
+};
+
+const TRADITIONAL_REGIONS = /^zh-(?:hant|tw|hk|mo)\b/;
+
+/** Picks the first browser language we have a catalog for; anything else gets English. */
+export function detectLocale(languages: readonly string[] = navigator.languages ?? [navigator.language]): Locale {
+  for (const language of languages) {
+    const tag = language.toLowerCase();
+    if (tag === 'zh' || tag.startsWith('zh-')) return TRADITIONAL_REGIONS.test(tag) ? 'zh-TW' : 'zh-CN';
+    if (tag === 'en' || tag.startsWith('en-')) return 'en';
+  }
+  return 'en';
+}
+
+export function resolveLocale(preference: LocalePreference): Locale {
+  return preference in MESSAGES ? preference as Locale : detectLocale();
+}
+
+/** The current language, for code outside components (errors, default names). */
+export function getLocale(): Locale {
+  return resolveLocale(loadPreference<LocalePreference>(LOCALE_PREFERENCE_KEY, 'auto'));
+}
+
+export function getMessages(): Messages {
+  return MESSAGES[getLocale()];
+}
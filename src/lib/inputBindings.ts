@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Maps physical keys to teleprompter actions. Bluetooth page turners and USB foot
+// pedals show up as ordinary keyboards, so supporting them is a matter of binding
+// the keys they emit (mostly PageUp/PageDown, arrows, Enter or media keys).
+
+export type InputAction =
+  | 'toggleScroll'
+  | 'toggleRecord'
+  | 'speedUp'
+  | 'speedDown'
+  | 'nudgeBack'
+  | 'nudgeForward'
+  | 'prevParagraph'
+  | 'nextParagraph'
+  | 'resetScroll';
+
+/** Each action lists `KeyboardEvent.code` values (or `key` for devices that leave code empty). */
+export type InputBindings = Record<InputAction, string[]>;
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  toggleScroll: ['Space', 'MediaPlayPause'],
+  toggleRecord: ['KeyR'],
+  speedUp: ['ArrowRight'],
+  speedDown: ['ArrowLeft'],
+  nudgeBack: ['ArrowUp'],
+  nudgeForward: ['ArrowDown'],
+  prevParagraph: ['PageUp', 'MediaTrackPrevious'],
+  nextParagraph: ['PageDown', 'MediaTrackNext'],
+  resetScroll: ['Home'],
+};
+
+/** Actions that make sense to repeat while a key is held down. */
+export const REPEATABLE_ACTIONS: ReadonlySet<InputAction> = new Set(['speedUp', 'speedDown', 'nudgeBack', 'nudgeForward']);
+
+export function eventKey(e: KeyboardEvent): string {
+  return e.code || e.key;
+}
+
+export function findAction(bindings: InputBindings, e: KeyboardEvent): InputAction | null {
+  for (const [action, keys] of Object.entries(bindings) as [InputAction, string[]][]) {
+    if (keys.includes(e.code) || keys.includes(e.key)) return action;
+  }
+  return null;
+}
+
+// Fill in actions added after the user saved their bindings
+export function normalizeBindings(stored: Partial<InputBindings> | null): InputBindings {
+  return { ...DEFAULT_BINDINGS, ...stored };
+}
+
+export function formatKey(code: string, spaceLabel: string): string {
+  if (code === 'Space') return spaceLabel;
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  const arrows: Record<string, string> = { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' };
+  return arrows[code] ?? code;
+}
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Camera / microphone selection and capture presets for getUserMedia.
+
+export type ResolutionPreset = '720p' | '1080p' | '4k';
+export type AspectRatioPreset = '16:9' | '9:16' | '1:1';
+
+export interface CaptureSettings {
+  /** Empty means "pick by facing mode" (the front/back toggle) */
+  videoDeviceId: string;
+  audioDeviceId: string;
+  resolution: ResolutionPreset;
+  frameRate: number;
+  aspectRatio: AspectRatioPreset;
+}
+
+export const DEFAULT_CAPTURE_SETTINGS: CaptureSettings = {
+  videoDeviceId: '',
+  audioDeviceId: '',
+  resolution: '720p',
+  frameRate: 30,
+  aspectRatio: '16:9'
+};
+
+export const RESOLUTION_OPTIONS: ResolutionPreset[] = ['720p', '1080p', '4k'];
+export const FRAME_RATE_OPTIONS = [24, 30, 60];
+export const ASPECT_RATIO_OPTIONS: AspectRatioPreset[] = ['16:9', '9:16', '1:1'];
+
+// Long edge of each preset; the short edge follows from the aspect ratio
+const LONG_EDGE: Record<ResolutionPreset, number> = { '720p': 1280, '1080p': 1920, '4k': 3840 };
+const RATIO: Record<AspectRatioPreset, number> = { '16:9': 16 / 9, '9:16': 9 / 16, '1:1': 1 };
+
+export const AUDIO_PROCESSING: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: true
+};
+
+export function getTargetSize(settings: CaptureSettings): { width: number; height: number } {
+  const long = LONG_EDGE[settings.resolution];
+  const ratio = RATIO[settings.aspectRatio];
+  if (ratio >= 1) {
+    return { width: long, height: Math.round(long / ratio) };
+  }
+  // Portrait presets turn the long edge upright (1080x1920 for 1080p 9:16)
+  return { width: Math.round(long * ratio), height: long };
+}
+
+export function buildConstraints(
+  settings: CaptureSettings,
+  facingMode: 'user' | 'environment',
+  useDeviceIds = true
+): MediaStreamConstraints {
+  const { width, height } = getTargetSize(settings);
+  const video: MediaTrackConstraints = {
+    width: { ideal: width },
+    height: { ideal: height },
+    aspectRatio: { ideal: RATIO[settings.aspectRatio] },
+    frameRate: { ideal: settings.frameRate }
+  };
+  if (useDeviceIds && settings.videoDeviceId) {
+    video.deviceId = { exact: settings.videoDeviceId };
+  } else {
+    video.facingMode = { ideal: facingMode };
+  }
+
+  const audio: MediaTrackConstraints = { ...AUDIO_PROCESSING };
+  if (useDeviceIds && settings.audioDeviceId) {
+    audio.deviceId = { exact: settings.audioDeviceId };
+  }
+  return { video, audio };
+}
+
+export interface DeviceLists {
+  video: MediaDeviceInfo[];
+  audio: MediaDeviceInfo[];
+}
+
+/** Labels stay empty until the user has granted camera/mic permission once. */
+export async function listDevices(): Promise<DeviceLists> {
+  if (!navigator.mediaDevices?.enumerateDevices) return { video: [], audio: [] };
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    video: devices.filter(d => d.kind === 'videoinput' && d.deviceId),
+    audio: devices.filter(d => d.kind === 'audioinput' && d.deviceId)
+  };
+}
+
+export interface ActiveTrackInfo {
+  videoLabel?: string;
+  audioLabel?: string;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  facingMode?: string;
+  sampleRate?: number;
+  channelCount?: number;
+}
+
+/** What the browser actually negotiated, which may differ from what was asked for. */
+export function describeStream(stream: MediaStream | null): ActiveTrackInfo {
+  const info: ActiveTrackInfo = {};
+  const videoTrack = stream?.getVideoTracks()[0];
+  const audioTrack = stream?.getAudioTracks()[0];
+  if (videoTrack) {
+    const settings = videoTrack.getSettings();
+    info.videoLabel = videoTrack.label;
+    info.width = settings.width;
+    info.height = settings.height;
+    info.frameRate = settings.frameRate;
+    info.facingMode = settings.facingMode;
+  }
+  if (audioTrack) {
+    const settings = audioTrack.getSettings();
+    info.audioLabel = audioTrack.label;
+    info.sampleRate = settings.sampleRate;
+    info.channelCount = settings.channelCount;
+  }
+  return info;
+}
+
+/** Where getting the camera stands; anything but 'ready' is explained over the preview. */
+export type CameraStatus = 'requesting' | 'ready' | 'denied' | 'no-device' | 'in-use' | 'disconnected' | 'unsupported' | 'error';
+
+/** Maps getUserMedia's DOMException names to something the user can act on. */
+export function getCameraErrorStatus(err: unknown): CameraStatus {
+  const name = err instanceof DOMException || err instanceof Error ? err.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return 'denied';
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return 'no-device';
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return 'in-use';
+    default:
+      return 'error';
+  }
+}
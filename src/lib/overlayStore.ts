@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { OverlayTemplate } from '../types';
+import { deleteOne, getAll, putOne } from './db';
+import { createId } from './scriptStore';
+
+export function createOverlayTemplate(name: string, from?: OverlayTemplate): OverlayTemplate {
+  const base: Omit<OverlayTemplate, 'id' | 'name'> = from ?? {
+    logo: { enabled: true, position: 'top-left', size: 0.12, opacity: 0.9 },
+    watermark: { enabled: false, text: '蔡哥保平安', position: 'bottom-right', opacity: 0.5 },
+    lowerThird: { enabled: false, name: '', title: '', accent: '#10b981' },
+    mirror: false
+  };
+  return {
+    logo: { ...base.logo },
+    watermark: { ...base.watermark },
+    lowerThird: { ...base.lowerThird },
+    mirror: base.mirror,
+    id: createId(),
+    name
+  };
+}
+
+export async function loadOverlayTemplates(): Promise<OverlayTemplate[]> {
+  const templates = await getAll<OverlayTemplate>('overlayTemplates');
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function saveOverlayTemplate(template: OverlayTemplate): Promise<void> {
+  return putOne('overlayTemplates', template);
+}
+
+export function deleteOverlayTemplate(id: string): Promise<void> {
+  return deleteOne('overlayTemplates', id);
+}
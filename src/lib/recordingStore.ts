@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Recordings are written to IndexedDB chunk by chunk while they run, so a crashed
+// tab, a phone call or an accidental reload doesn't lose the take. A finished take
+// moves to the gallery (takeStore.ts) and its chunks are dropped; whatever is left
+// here on the next launch was interrupted and gets recovered.
+
+import { RecordedTake } from '../types';
+import { getAll, putOne, withStore, withTransaction } from './db';
+
+export interface RecordingSession {
+  id: string;
+  scriptId: string;
+  scriptTitle: string;
+  mimeType: string;
+  startedAt: number;
+  /** Seconds recorded as of the last saved chunk */
+  duration: number;
+  chunkCount: number;
+  /** Last write; an open tab writes every second */
+  updatedAt: number;
+}
+
+// Sessions still being written by another open tab are left alone
+const STALE_AFTER_MS = 10_000;
+
+const chunkRange = (id: string) => IDBKeyRange.bound([id, 0], [id, Infinity]);
+
+export function startRecordingSession(session: RecordingSession): Promise<void> {
+  return putOne('recordings', session);
+}
+
+/** Saves one chunk together with the session's updated duration and count. */
+export function appendRecordingChunk(session: RecordingSession, index: number, chunk: Blob): Promise<void> {
+  return withTransaction(['recordings', 'recordingChunks'], tx => {
+    tx.objectStore('recordingChunks').put(chunk, [session.id, index]);
+    tx.objectStore('recordings').put(session);
+  });
+}
+
+export function deleteRecordingSession(id: string): Promise<void> {
+  return withTransaction(['recordings', 'recordingChunks'], tx => {
+    tx.objectStore('recordings').delete(id);
+    tx.objectStore('recordingChunks').delete(chunkRange(id));
+  });
+}
+
+export async function loadInterruptedSessions(): Promise<RecordingSession[]> {
+  const sessions = await getAll<RecordingSession>('recordings');
+  return sessions.filter(s => Date.now() - s.updatedAt > STALE_AFTER_MS);
+}
+
+/** Glues the saved chunks back together; null when nothing usable was saved. */
+export async function recoverRecording(session: RecordingSession): Promise<RecordedTake | null> {
+  const chunks: Blob[] = await withStore('recordingChunks', 'readonly', store => store.getAll(chunkRange(session.id)));
+  if (chunks.length === 0) return null;
+  const blob = new Blob(chunks, { type: session.mimeType });
+  return {
+    url: URL.createObjectURL(blob),
+    blob,
+    mimeType: session.mimeType,
+    scriptId: session.scriptId,
+    scriptTitle: session.scriptTitle,
+    startedAt: session.startedAt,
+    duration: session.duration,
+    recordingId: session.id,
+    recovered: true
+  };
+}
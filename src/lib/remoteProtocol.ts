@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Messages for two-device mode. Shared by the browser and the relay server
+// (server/relay.ts), which only routes payloads between a host and its controllers.
+
+import { TeleprompterConfig } from '../types';
+
+export const RELAY_PATH = '/relay';
+
+/** Snapshot of the recording device the controller mirrors. */
+export interface RemoteState {
+  title: string;
+  text: string;
+  config: TeleprompterConfig;
+  isScrolling: boolean;
+  isRecording: boolean;
+}
+
+/** Recording device → controllers */
+export type HostMessage =
+  | { kind: 'state'; state: RemoteState }
+  | { kind: 'scroll'; ratio: number };
+
+/** Controller → recording device */
+export type ControllerMessage =
+  | { kind: 'requestState' }
+  | { kind: 'setText'; text: string }
+  | { kind: 'setConfig'; config: Partial<TeleprompterConfig> }
+  | { kind: 'setScrolling'; scrolling: boolean }
+  | { kind: 'setRecording'; recording: boolean }
+  | { kind: 'scrollTo'; ratio: number }
+  | { kind: 'paragraph'; direction: 'prev' | 'next' };
+
+/** Browser → relay */
+export type RelayRequest =
+  | { type: 'host'; code?: string }
+  | { type: 'join'; code: string }
+  | { type: 'relay'; payload: HostMessage | ControllerMessage };
+
+/** Relay → browser */
+export type RelayEvent =
+  | { type: 'code'; code: string }
+  | { type: 'joined'; code: string }
+  | { type: 'peers'; count: number }
+  | { type: 'hostLeft' }
+  | { type: 'error'; message: string }
+  | { type: 'relay'; payload: HostMessage | ControllerMessage };
+
+export function getRelayUrl(): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}${RELAY_PATH}`;
+}
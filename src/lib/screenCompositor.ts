@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Screen recording for tutorials: the shared screen fills the frame and the camera
+// sits on top as a bubble. Only this canvas is recorded, so the prompter stays on
+// the presenter's display.
+
+import { startTicker } from './frameTicker';
+
+export type BubbleShape = 'circle' | 'rect';
+
+export interface ScreenLayout {
+  shape: BubbleShape;
+  /** Bubble center as fractions of the frame */
+  x: number;
+  y: number;
+  /** Bubble width as a fraction of the frame width */
+  size: number;
+  mirror: boolean;
+  /** Also record the sound of the shared tab or screen, where the browser offers it */
+  systemAudio: boolean;
+}
+
+export const DEFAULT_SCREEN_LAYOUT: ScreenLayout = {
+  shape: 'circle',
+  x: 0.86,
+  y: 0.78,
+  size: 0.2,
+  mirror: true,
+  systemAudio: false
+};
+
+export const BUBBLE_SIZE_RANGE = { min: 0.1, max: 0.45 };
+
+export type ScreenCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+const CORNER_MARGIN = 0.03;
+
+export interface BubbleRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** Where the bubble lands in a frame of the given size; it is kept fully inside. */
+export function getBubbleRect(layout: ScreenLayout, frameWidth: number, frameHeight: number, cameraAspect: number): BubbleRect {
+  const w = Math.min(frameWidth * layout.size, frameHeight);
+  const h = layout.shape === 'circle' ? w : Math.min(w / cameraAspect, frameHeight);
+  const x = Math.max(0, Math.min(frameWidth - w, layout.x * frameWidth - w / 2));
+  const y = Math.max(0, Math.min(frameHeight - h, layout.y * frameHeight - h / 2));
+  return { x, y, w, h };
+}
+
+/** Moves the bubble center into a corner, leaving a small margin. */
+export function placeInCorner(layout: ScreenLayout, corner: ScreenCorner, frameAspect: number, cameraAspect: number): ScreenLayout {
+  const rect = getBubbleRect(layout, frameAspect, 1, cameraAspect);
+  const halfW = rect.w / 2 / frameAspect;
+  const halfH = rect.h / 2;
+  const marginY = CORNER_MARGIN * frameAspect;
+  return {
+    ...layout,
+    x: corner.endsWith('left') ? CORNER_MARGIN + halfW : 1 - CORNER_MARGIN - halfW,
+    y: corner.startsWith('top') ? marginY + halfH : 1 - marginY - halfH
+  };
+}
+
+function createVideo(track: MediaStreamTrack): HTMLVideoElement {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = new MediaStream([track]);
+  video.play().catch(err => console.warn("Screen compositor video failed to play:", err));
+  return video;
+}
+
+export class ScreenCompositor {
+  readonly canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private screen: HTMLVideoElement;
+  private camera: HTMLVideoElement | null = null;
+  private layout: ScreenLayout;
+  private stopTicker: () => void;
+  private output: MediaStream;
+
+  constructor(screen: MediaStream, camera: MediaStream | null, layout: ScreenLayout, frameRate = 30) {
+    this.canvas = document.createElement('canvas');
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D is not available');
+    this.ctx = ctx;
+    this.screen = createVideo(screen.getVideoTracks()[0]);
+    this.layout = layout;
+    this.setCamera(camera);
+    this.output = this.canvas.captureStream(frameRate);
+    this.stopTicker = startTicker(frameRate, this.draw);
+  }
+
+  get videoTrack(): MediaStreamTrack | undefined {
+    return this.output.getVideoTracks()[0];
+  }
+
+  /** Width / height of the camera picture, for sizing rectangular bubbles. */
+  get cameraAspect(): number {
+    const video = this.camera;
+    return video?.videoWidth ? video.videoWidth / video.videoHeight : 16 / 9;
+  }
+
+  setLayout(layout: ScreenLayout) {
+    this.layout = layout;
+  }
+
+  setCamera(camera: MediaStream | null) {
+    if (this.camera) this.camera.srcObject = null;
+    const track = camera?.getVideoTracks()[0];
+    this.camera = track ? createVideo(track) : null;
+  }
+
+  private draw = () => {
+    const { screen, canvas, ctx } = this;
+    if (screen.readyState < 2 || !screen.videoWidth) return;
+
+    // Shared windows change size when resized
+    if (canvas.width !== screen.videoWidth || canvas.height !== screen.videoHeight) {
+      canvas.width = screen.videoWidth;
+      canvas.height = screen.videoHeight;
+    }
+    ctx.drawImage(screen, 0, 0, canvas.width, canvas.height);
+
+    const camera = this.camera;
+    if (camera && camera.readyState >= 2 && camera.videoWidth) this.drawBubble(camera);
+  };
+
+  private drawBubble(camera: HTMLVideoElement) {
+    const { ctx, canvas, layout } = this;
+    const { x, y, w, h } = getBubbleRect(layout, canvas.width, canvas.height, this.cameraAspect);
+    const radius = layout.shape === 'circle' ? w / 2 : Math.min(w, h) * 0.08;
+
+    ctx.save();
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+    ctx.shadowBlur = w * 0.05;
+    ctx.fillStyle = '#000000';
+    ctx.beginPath();
+    ctx.roundRect(x, y, w, h, radius);
+    ctx.fill();
+    ctx.restore();
+
+    // Crop the camera to the bubble like object-fit: cover
+    const scale = Math.max(w / camera.videoWidth, h / camera.videoHeight);
+    const sw = w / scale;
+    const sh = h / scale;
+    const sx = (camera.videoWidth - sw) / 2;
+    const sy = (camera.videoHeight - sh) / 2;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.roundRect(x, y, w, h, radius);
+    ctx.clip();
+    if (layout.mirror) {
+      ctx.translate(x * 2 + w, 0);
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(camera, sx, sy, sw, sh, x, y, w, h);
+    ctx.restore();
+
+    ctx.save();
+    ctx.lineWidth = Math.max(2, w * 0.015);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.beginPath();
+    ctx.roundRect(x, y, w, h, radius);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  dispose() {
+    this.stopTicker();
+    this.output.getTracks().forEach(track => track.stop());
+    this.screen.srcObject = null;
+    if (this.camera) this.camera.srcObject = null;
+  }
+}
+
+/** Mixes several audio tracks (mic and shared-screen sound) into one. */
+export function mixAudioTracks(tracks: MediaStreamTrack[]): { track: MediaStreamTrack; dispose: () => void } {
+  const context = new AudioContext();
+  const destination = context.createMediaStreamDestination();
+  for (const track of tracks) {
+    context.createMediaStreamSource(new MediaStream([track])).connect(destination);
+  }
+  return {
+    track: destination.stream.getAudioTracks()[0],
+    dispose: () => {
+      destination.stream.getTracks().forEach(track => track.stop());
+      context.close().catch(() => {});
+    }
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Lightweight teleprompter markup:
+//   ## 标题              section break
+//   **重点**             emphasis
+//   [pause 2s] / [停顿 2秒]   hold the auto-scroll (defaults to 1s)
+//   [cue: 展示产品]       visual cue for the presenter, never read aloud
+// Blank lines separate paragraphs. Text without any markup renders as before.
+
+export type Span =
+  | { type: 'text'; text: string }
+  | { type: 'emphasis'; text: string }
+  | { type: 'pause'; seconds: number }
+  | { type: 'cue'; label: string };
+
+export type Block =
+  | { type: 'section'; title: string }
+  | { type: 'paragraph'; spans: Span[] };
+
+export interface ScriptDocument {
+  blocks: Block[];
+  hasMarkup: boolean;
+}
+
+const DEFAULT_PAUSE_SECONDS = 1;
+const SECTION_PATTERN = /^\s*##\s+(.+?)\s*$/;
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\[(?:pause|停顿)(?:\s*(\d+(?:\.\d+)?)\s*(ms|s|秒)?)?\]|\[(?:cue|提示)\s*[:：]\s*([^\]]+)\]/gi;
+
+export function parseScript(text: string): ScriptDocument {
+  const blocks: Block[] = [];
+  let hasMarkup = false;
+  let lines: string[] = [];
+
+  const flushParagraph = () => {
+    const content = lines.join('\n').trim();
+    lines = [];
+    if (!content) return;
+    const spans = parseInline(content);
+    if (spans.some(s => s.type !== 'text')) hasMarkup = true;
+    blocks.push({ type: 'paragraph', spans });
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const section = SECTION_PATTERN.exec(line);
+    if (section) {
+      flushParagraph();
+      blocks.push({ type: 'section', title: section[1] });
+      hasMarkup = true;
+    } else if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      lines.push(line);
+    }
+  }
+  flushParagraph();
+
+  return { blocks, hasMarkup };
+}
+
+function parseInline(content: string): Span[] {
+  const spans: Span[] = [];
+  let last = 0;
+  for (const match of content.matchAll(INLINE_PATTERN)) {
+    if (match.index > last) spans.push({ type: 'text', text: content.slice(last, match.index) });
+    const [, emphasis, amount, unit, cue] = match;
+    if (emphasis !== undefined) {
+      spans.push({ type: 'emphasis', text: emphasis });
+    } else if (cue !== undefined) {
+      spans.push({ type: 'cue', label: cue.trim() });
+    } else {
+      const value = amount === undefined ? DEFAULT_PAUSE_SECONDS : parseFloat(amount);
+      spans.push({ type: 'pause', seconds: unit?.toLowerCase() === 'ms' ? value / 1000 : value });
+    }
+    last = match.index + match[0].length;
+  }
+  if (last < content.length) spans.push({ type: 'text', text: content.slice(last) });
+  return spans;
+}
+
+/** The words of one block, without cues or pause markers. */
+export function getBlockText(block: Block): string {
+  return block.type === 'section'
+    ? block.title
+    : block.spans.map(s => s.type === 'text' || s.type === 'emphasis' ? s.text : '').join('');
+}
+
+/** The words the presenter actually reads, without cues or pause markers. */
+export function getSpokenText(doc: ScriptDocument): string {
+  return doc.blocks.map(getBlockText).join('\n');
+}
+
+export function getTotalPauseSeconds(doc: ScriptDocument): number {
+  let total = 0;
+  for (const block of doc.blocks) {
+    if (block.type !== 'paragraph') continue;
+    for (const span of block.spans) {
+      if (span.type === 'pause') total += span.seconds;
+    }
+  }
+  return total;
+}
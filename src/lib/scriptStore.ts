@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DEFAULT_CONFIG, Script, TeleprompterConfig } from '../types';
+import { deleteOne, getAll, putOne } from './db';
+
+export function createId(): string {
+  return typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function createScript(title: string, text = '', config: TeleprompterConfig = DEFAULT_CONFIG): Script {
+  const now = Date.now();
+  return { id: createId(), title, text, config: { ...config }, createdAt: now, updatedAt: now };
+}
+
+// Scripts saved by older versions may miss config fields added since
+function normalizeScript(script: Script): Script {
+  return { ...script, config: { ...DEFAULT_CONFIG, ...script.config } };
+}
+
+export async function loadScripts(): Promise<Script[]> {
+  const scripts = await getAll<Script>('scripts');
+  return scripts.map(normalizeScript).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function saveScript(script: Script): Promise<void> {
+  return putOne('scripts', script);
+}
+
+export function deleteScript(id: string): Promise<void> {
+  return deleteOne('scripts', id);
+}
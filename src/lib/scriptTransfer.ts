@@ -0,0 +1,227 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Getting scripts in and out: file import (.txt/.md/.docx/.srt and our own JSON
+// bundle), JSON bundle export, and share links that carry a compressed script in
+// the URL hash (never sent to any server).
+
+import { deflateSync, inflateSync, strFromU8, strToU8, unzipSync } from 'fflate';
+import { Script, TeleprompterConfig } from '../types';
+import { sanitizeConfig } from './config';
+import { getMessages } from './i18n';
+
+export interface ScriptDraft {
+  title: string;
+  text: string;
+  config?: TeleprompterConfig;
+}
+
+export const IMPORT_ACCEPT = '.txt,.md,.markdown,.docx,.srt,.json,text/plain,text/markdown';
+
+const BUNDLE_FORMAT = 'teleprompter-script';
+const BUNDLE_VERSION = 1;
+const SHARE_PARAM = 'script';
+// Inflated share payloads past this size are rejected rather than parsed
+const MAX_SHARE_BYTES = 2 * 1024 * 1024;
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+// A gap this long between subtitle cues starts a new paragraph
+const SRT_PARAGRAPH_GAP_S = 2;
+
+export async function readScriptFile(file: File): Promise<ScriptDraft> {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const title = file.name.replace(/\.[^.]+$/, '') || getMessages().transfer.importedTitle;
+  const buffer = await file.arrayBuffer();
+
+  switch (extension) {
+    case 'docx':
+      return { title, text: docxToScript(new Uint8Array(buffer)) };
+    case 'json':
+      return parseBundle(decodeText(buffer));
+    case 'srt':
+      return { title, text: srtToScript(decodeText(buffer)) };
+    case 'md':
+    case 'markdown':
+      return { title, text: markdownToScript(decodeText(buffer)) };
+    case 'txt':
+    case '':
+      return { title, text: normalizeNewlines(decodeText(buffer)) };
+    default:
+      throw new Error(getMessages().transfer.unsupportedType(extension));
+  }
+}
+
+/**
+ * Honours a BOM, then tries strict UTF-8 and falls back to GB18030 (a superset of
+ * GBK/GB2312), which is what Chinese Windows editors save "ANSI" text as.
+ */
+export function decodeText(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    try {
+      return new TextDecoder('gb18030').decode(bytes);
+    } catch {
+      return new TextDecoder('utf-8').decode(bytes);
+    }
+  }
+}
+
+function normalizeNewlines(text: string): string {
+  return text.replace(/\r\n?/g, '\n').trim();
+}
+
+// Keeps what the prompter understands (## headings, **bold**) and drops the rest of the syntax
+export function markdownToScript(markdown: string): string {
+  return normalizeNewlines(markdown)
+    .replace(/^```[\s\S]*?^```\s*$/gm, '')
+    .replace(/^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/gm, '## $1')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}>\s?/gm, '')
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/gm, '')
+    .replace(/__(.+?)__/g, '**$1**')
+    .replace(/(^|[^*])\*([^*\n]+)\*(?!\*)/g, '$1$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function parseSrtTime(value: string): number {
+  const [h, m, rest] = value.trim().split(':');
+  return Number(h) * 3600 + Number(m) * 60 + parseFloat(rest.replace(',', '.'));
+}
+
+// Cue text only; timings just decide where paragraphs break
+export function srtToScript(srt: string): string {
+  const paragraphs: string[][] = [];
+  let lastEnd = -Infinity;
+  for (const block of normalizeNewlines(srt).split(/\n\s*\n/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue;
+    const [start, end] = lines[timingIndex].split('-->').map(t => parseSrtTime(t.split(' ').filter(Boolean)[0] ?? t));
+    const text = lines.slice(timingIndex + 1)
+      .map(line => line.replace(/<[^>]+>|\{\\[^}]*\}/g, '').trim())
+      .filter(Boolean)
+      .join(' ');
+    if (!text) continue;
+    if (paragraphs.length === 0 || start - lastEnd >= SRT_PARAGRAPH_GAP_S) paragraphs.push([]);
+    paragraphs[paragraphs.length - 1].push(text);
+    lastEnd = end;
+  }
+  return paragraphs.map(lines => lines.join('\n')).join('\n\n');
+}
+
+// Reads word/document.xml: heading styles become sections, bold runs become **emphasis**
+export function docxToScript(data: Uint8Array): string {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data, { filter: file => file.name === 'word/document.xml' });
+  } catch {
+    throw new Error(getMessages().transfer.unreadableWord);
+  }
+  const xml = files['word/document.xml'];
+  if (!xml) throw new Error(getMessages().transfer.unreadableWord);
+
+  const doc = new DOMParser().parseFromString(strFromU8(xml), 'application/xml');
+  const blocks: string[] = [];
+  for (const paragraph of Array.from(doc.getElementsByTagNameNS(WORD_NS, 'p'))) {
+    const style = paragraph.getElementsByTagNameNS(WORD_NS, 'pStyle')[0]?.getAttributeNS(WORD_NS, 'val') ?? '';
+    let text = '';
+    for (const run of Array.from(paragraph.getElementsByTagNameNS(WORD_NS, 'r'))) {
+      let runText = '';
+      for (const node of Array.from(run.childNodes)) {
+        if (!(node instanceof Element) || node.namespaceURI !== WORD_NS) continue;
+        if (node.localName === 't') runText += node.textContent ?? '';
+        else if (node.localName === 'tab') runText += ' ';
+        else if (node.localName === 'br' || node.localName === 'cr') runText += '\n';
+      }
+      const bold = run.getElementsByTagNameNS(WORD_NS, 'b')[0];
+      const isBold = bold && !['0', 'false'].includes(bold.getAttributeNS(WORD_NS, 'val') ?? '');
+      text += isBold && runText.trim() ? `**${runText}**` : runText;
+    }
+    text = text.replace(/\*\*\*\*/g, '').trim();
+    if (!text) continue;
+    blocks.push(/^(heading|title|标题)/i.test(style) ? `## ${text.replace(/\*\*/g, '')}` : text);
+  }
+  return blocks.join('\n\n');
+}
+
+interface ScriptBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  title: string;
+  text: string;
+  config: TeleprompterConfig;
+  exportedAt: string;
+}
+
+export function createBundle(script: Script): Blob {
+  const bundle: ScriptBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    title: script.title,
+    text: script.text,
+    config: script.config,
+    exportedAt: new Date().toISOString()
+  };
+  return new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+}
+
+export function parseBundle(json: string): ScriptDraft {
+  let bundle: Partial<ScriptBundle>;
+  try {
+    bundle = JSON.parse(json);
+  } catch {
+    throw new Error(getMessages().transfer.invalidJson);
+  }
+  if (bundle?.format !== BUNDLE_FORMAT || typeof bundle.text !== 'string') {
+    throw new Error(getMessages().transfer.notABundle);
+  }
+  return {
+    title: typeof bundle.title === 'string' && bundle.title ? bundle.title : getMessages().transfer.importedTitle,
+    text: bundle.text,
+    config: sanitizeConfig(bundle.config)
+  };
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+}
+
+export function createShareLink(script: Script): string {
+  const payload = JSON.stringify({ t: script.title, x: script.text, c: script.config });
+  const data = toBase64Url(deflateSync(strToU8(payload), { level: 9 }));
+  return `${window.location.origin}${window.location.pathname}#${SHARE_PARAM}=${data}`;
+}
+
+/** The script carried by a share link's hash, or null when there is none (or it is damaged). */
+export function readShareHash(hash: string): ScriptDraft | null {
+  const data = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_PARAM);
+  if (!data) return null;
+  try {
+    // Inflating into a fixed buffer stops a small hash from expanding without bound
+    const bytes = inflateSync(fromBase64Url(data), { out: new Uint8Array(MAX_SHARE_BYTES + 1) });
+    if (bytes.length > MAX_SHARE_BYTES) throw new Error('Share link payload is too large');
+    const { t, x, c } = JSON.parse(strFromU8(bytes)) ?? {};
+    if (typeof x !== 'string') return null;
+    return { title: typeof t === 'string' && t ? t : getMessages().transfer.sharedTitle, text: x, config: sanitizeConfig(c) };
+  } catch (err) {
+    console.warn("Invalid share link:", err);
+    return null;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  countReadingUnits, getTargetVelocity, PaceSettings, ScriptMetrics, ScrollEngine, stepPace
+} from './scrollEngine';
+
+const PACE: PaceSettings = { paceMode: 'pixels', speed: 5, charsPerMinute: 240, targetSeconds: 60 };
+const METRICS: ScriptMetrics = { textHeight: 1200, units: 480, pauseSeconds: 0 };
+
+function run(engine: ScrollEngine, seconds: number, fps: number, target: number): number {
+  let distance = 0;
+  for (let i = 0; i < Math.round(seconds * fps); i++) distance += engine.step(1 / fps, target);
+  return distance;
+}
+
+describe('ScrollEngine.step', () => {
+  it('ramps up to the target instead of jumping to it', () => {
+    const engine = new ScrollEngine(0.4);
+    const first = engine.step(1 / 60, 100);
+    expect(first).toBeGreaterThan(0);
+    expect(first).toBeLessThan(100 / 60);
+    run(engine, 0.4, 60, 100);
+    expect(engine.velocity).toBeGreaterThan(90);
+    run(engine, 2, 60, 100);
+    expect(engine.velocity).toBeCloseTo(100, 1);
+  });
+
+  it('settles to rest when the target is zero', () => {
+    const engine = new ScrollEngine(0.4);
+    run(engine, 2, 60, 100);
+    run(engine, 2, 60, 0);
+    expect(engine.velocity).toBe(0);
+    expect(engine.isMoving).toBe(false);
+    expect(engine.step(1 / 60, 0)).toBe(0);
+  });
+
+  it('covers the same distance at 60Hz and 120Hz', () => {
+    const at60 = run(new ScrollEngine(0.4), 3, 60, 100);
+    const at120 = run(new ScrollEngine(0.4), 3, 120, 100);
+    expect(Math.abs(at60 - at120)).toBeLessThan(1);
+  });
+
+  it('ignores frames without elapsed time', () => {
+    const engine = new ScrollEngine(0.4);
+    expect(engine.step(0, 100)).toBe(0);
+    expect(engine.velocity).toBe(0);
+  });
+});
+
+describe('getTargetVelocity', () => {
+  it('reads the script at the requested characters per minute', () => {
+    // 480 units at 240 a minute is two minutes for 1200px
+    expect(getTargetVelocity({ ...PACE, paceMode: 'cpm' }, METRICS)).toBeCloseTo(10);
+    expect(getTargetVelocity({ ...PACE, paceMode: 'cpm' }, { ...METRICS, units: 0 })).toBe(0);
+  });
+
+  it('finishes in the target time, leaving room for pauses', () => {
+    expect(getTargetVelocity({ ...PACE, paceMode: 'duration' }, METRICS)).toBeCloseTo(20);
+    expect(getTargetVelocity({ ...PACE, paceMode: 'duration' }, { ...METRICS, pauseSeconds: 20 })).toBeCloseTo(30);
+  });
+});
+
+describe('stepPace', () => {
+  it('steps the field of the current mode within its range', () => {
+    expect(stepPace(PACE, 1)).toEqual({ speed: 5.5 });
+    expect(stepPace({ ...PACE, paceMode: 'cpm', charsPerMinute: 400 }, 1)).toEqual({ charsPerMinute: 400 });
+    expect(stepPace({ ...PACE, paceMode: 'cpm' }, -1)).toEqual({ charsPerMinute: 230 });
+  });
+
+  it('shortens the target time when speeding up in duration mode', () => {
+    expect(stepPace({ ...PACE, paceMode: 'duration' }, 1)).toEqual({ targetSeconds: 55 });
+    expect(stepPace({ ...PACE, paceMode: 'duration' }, -1)).toEqual({ targetSeconds: 65 });
+    expect(stepPace({ ...PACE, paceMode: 'duration', targetSeconds: 10 }, 1)).toEqual({ targetSeconds: 10 });
+  });
+});
+
+describe('countReadingUnits', () => {
+  it('counts CJK characters one each and Latin words as 1.6', () => {
+    expect(countReadingUnits('大家好')).toBe(3);
+    expect(countReadingUnits('hello world')).toBeCloseTo(3.2);
+    expect(countReadingUnits('大家好 hello world')).toBeCloseTo(6.2);
+  });
+
+  it('splits words at CJK characters and skips punctuation', () => {
+    expect(countReadingUnits('你好，world!')).toBeCloseTo(3.6);
+    expect(countReadingUnits('用iPhone录制')).toBeCloseTo(4.6);
+    expect(countReadingUnits("don't stop")).toBeCloseTo(3.2);
+    expect(countReadingUnits('')).toBe(0);
+  });
+
+  it('does not count CJK punctuation as characters', () => {
+    expect(countReadingUnits('你好。')).toBe(2);
+    expect(countReadingUnits('「你好」、')).toBe(2);
+    expect(countReadingUnits('（注意！）《标题》…')).toBe(4);
+    expect(countReadingUnits('こんにちは、세계')).toBe(7);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Time-based scrolling. Speeds are in pixels per second and integrated over the
+// real frame time, so 60Hz and 120Hz screens scroll alike. Starting and stopping
+// ease in and out instead of jumping to full speed.
+
+import { PaceMode, TeleprompterConfig } from '../types';
+import { formatDurationText } from './format';
+import type { Messages } from './i18n';
+
+/** Pixels per second for each step of the 1–10 speed slider (0.3px per 60Hz frame, as before) */
+export const PIXELS_PER_SPEED_STEP = 18;
+/** Roughly how long the scroll takes to reach full speed or come to rest */
+export const RAMP_SECONDS = 0.4;
+// Below this the scroll counts as stopped
+const REST_VELOCITY = 1;
+// Spoken English runs ~150 words a minute against ~240 Chinese characters
+const LATIN_WORD_UNITS = 1.6;
+
+// Matched by script, so CJK punctuation and symbols don't count as spoken characters
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+const LATIN_WORD_PATTERN = /[\p{L}\p{N}'’-]+/gu;
+
+export type PaceSettings = Pick<TeleprompterConfig, 'paceMode' | 'speed' | 'charsPerMinute' | 'targetSeconds'>;
+
+/** The config field each pace is adjusted through, and its slider range. */
+export const PACE_SLIDERS: Record<PaceMode, { field: Exclude<keyof PaceSettings, 'paceMode'>; min: number; max: number; step: number }> = {
+  pixels: { field: 'speed', min: 1, max: 10, step: 0.5 },
+  cpm: { field: 'charsPerMinute', min: 100, max: 400, step: 10 },
+  duration: { field: 'targetSeconds', min: 10, max: 600, step: 5 }
+};
+
+/** What a pace needs to know about the rendered script. */
+export interface ScriptMetrics {
+  /** Height of the rendered text in pixels */
+  textHeight: number;
+  /** Reading units from `countReadingUnits` */
+  units: number;
+  /** Total [pause] marker time, during which the scroll holds */
+  pauseSeconds: number;
+}
+
+/** CJK characters count one each; other words count as a character and a half or so. */
+export function countReadingUnits(text: string): number {
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+  const words = text.replace(CJK_PATTERN, ' ').match(LATIN_WORD_PATTERN)?.length ?? 0;
+  return cjk + words * LATIN_WORD_UNITS;
+}
+
+/** Scroll speed in pixels per second for a pace. */
+export function getTargetVelocity(pace: PaceSettings, metrics: ScriptMetrics): number {
+  switch (pace.paceMode) {
+    case 'pixels':
+      return pace.speed * PIXELS_PER_SPEED_STEP;
+    case 'cpm':
+      return metrics.units > 0 ? metrics.textHeight * pace.charsPerMinute / 60 / metrics.units : 0;
+    case 'duration':
+      // Pauses are part of the target, so the text moves a little faster to make up for them
+      return metrics.textHeight / Math.max(1, pace.targetSeconds - metrics.pauseSeconds);
+  }
+}
+
+/** Seconds to read the whole script at a pace, pauses included. */
+export function estimateReadSeconds(pace: PaceSettings, metrics: ScriptMetrics): number {
+  if (pace.paceMode === 'duration') return Math.max(pace.targetSeconds, metrics.pauseSeconds);
+  const velocity = getTargetVelocity(pace, metrics);
+  return (velocity > 0 ? metrics.textHeight / velocity : 0) + metrics.pauseSeconds;
+}
+
+/** One press of speed up / slow down in the current mode. */
+export function stepPace(pace: PaceSettings, direction: 1 | -1): Partial<PaceSettings> {
+  const { field, min, max, step } = PACE_SLIDERS[pace.paceMode];
+  // Faster means finishing sooner
+  const sign = pace.paceMode === 'duration' ? -direction : direction;
+  return { [field]: clamp(pace[field] + sign * step, min, max) };
+}
+
+export function formatPace(pace: PaceSettings, t: Messages, locale: string): string {
+  switch (pace.paceMode) {
+    case 'pixels': return t.pace.pixels(Math.round(pace.speed * PIXELS_PER_SPEED_STEP));
+    case 'cpm': return t.pace.cpm(pace.charsPerMinute);
+    case 'duration': return t.pace.duration(formatDurationText(pace.targetSeconds, locale));
+  }
+}
+
+/** Fraction read and time left, from the scroll position. */
+export function getReadingProgress(position: number, maxPosition: number, totalSeconds: number) {
+  const fraction = maxPosition > 0 ? clamp(position / maxPosition, 0, 1) : 0;
+  return { fraction, remainingSeconds: totalSeconds * (1 - fraction) };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Integrates scroll velocity over frame time. The velocity eases toward the
+ * requested target, so start and stop are smooth; callers own the position.
+ */
+export class ScrollEngine {
+  velocity = 0;
+
+  constructor(private readonly rampSeconds = RAMP_SECONDS) {}
+
+  /** Advances `dt` seconds toward `targetVelocity` and returns the distance to move. */
+  step(dt: number, targetVelocity: number): number {
+    if (dt <= 0) return 0;
+    const start = this.velocity;
+    // Exponential approach; three time constants is ~95% of the way there
+    const k = this.rampSeconds > 0 ? 1 - Math.exp(-dt * 3 / this.rampSeconds) : 1;
+    let end = start + (targetVelocity - start) * k;
+    if (targetVelocity === 0 && Math.abs(end) < REST_VELOCITY) end = 0;
+    this.velocity = end;
+    return (start + end) / 2 * dt;
+  }
+
+  /** Stops dead, e.g. when the presenter grabs the text. */
+  stop() {
+    this.velocity = 0;
+  }
+
+  get isMoving(): boolean {
+    return this.velocity !== 0;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Small preferences live in localStorage; documents and blobs go to IndexedDB (see db.ts).
+
+const PREFIX = 'teleprompter.';
+const CHANGE_EVENT = 'teleprompter:preference';
+
+export interface PreferenceChange {
+  key: string;
+  /** Written by sync rather than by this device */
+  remote: boolean;
+}
+
+export function loadPreference<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+export function savePreference<T>(key: string, value: T, remote = false) {
+  try {
+    if (value === undefined || value === null) {
+      localStorage.removeItem(PREFIX + key);
+    } else {
+      localStorage.setItem(PREFIX + key, JSON.stringify(value));
+    }
+  } catch (err) {
+    console.warn("Saving preference failed:", err);
+  }
+  window.dispatchEvent(new CustomEvent<PreferenceChange>(CHANGE_EVENT, { detail: { key, remote } }));
+}
+
+/** Stores preferences that arrived from another device; mounted hooks pick them up. */
+export function applyRemotePreferences(values: Record<string, unknown>, keys: readonly string[]) {
+  for (const key of keys) {
+    if (key in values) savePreference(key, values[key], true);
+  }
+}
+
+export function onPreferenceChange(listener: (change: PreferenceChange) => void): () => void {
+  const handler = (e: Event) => listener((e as CustomEvent<PreferenceChange>).detail);
+  window.addEventListener(CHANGE_EVENT, handler);
+  return () => window.removeEventListener(CHANGE_EVENT, handler);
+}
@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Subtitles aligned from the prompter: while recording we log which point of the
+// script sat under the focus line, and each sentence starts when the focus line
+// reaches it. Exported as SRT/WebVTT or drawn into a video copy.
+
+import { SubtitleCue } from '../types';
+import { ScriptDocument, getBlockText } from './scriptMarkup';
+
+/** `position` is a block index plus the fraction of that block above the focus line. */
+export interface TimelineSample {
+  time: number;
+  position: number;
+}
+
+export interface Sentence {
+  text: string;
+  /** Character offsets into the source text */
+  start: number;
+  end: number;
+}
+
+// Full-width punctuation always ends a cue; ASCII punctuation only when followed by a space
+const BREAK_CHARS = '。！？，；!?;';
+const SOFT_BREAK_CHARS = ',.';
+const CLOSING_CHARS = '”’」』）)"\'';
+const TRAILING_PUNCTUATION = /[，。、；,.;\s]+$/;
+// Roughly one line of subtitles: CJK characters count 1, Latin characters 0.5
+const MAX_CUE_WIDTH = 18;
+const MIN_CUE_SECONDS = 0.4;
+
+export function splitSentences(text: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  let start = 0;
+
+  const push = (end: number) => {
+    const raw = text.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim().replace(TRAILING_PUNCTUATION, '');
+    if (trimmed) {
+      for (const piece of wrap(trimmed, start + leading)) sentences.push(piece);
+    }
+    start = end;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    const next = text[i + 1];
+    const isBreak = BREAK_CHARS.includes(ch) || ch === '\n'
+      || (SOFT_BREAK_CHARS.includes(ch) && (next === undefined || /\s/.test(next)));
+    if (!isBreak) continue;
+    let end = i + 1;
+    while (end < text.length && CLOSING_CHARS.includes(text[end])) end++;
+    push(end);
+    i = end - 1;
+  }
+  push(text.length);
+  return sentences;
+}
+
+function charWidth(ch: string): number {
+  return /[⺀-鿿가-힯豈-﫿＀-￯]/.test(ch) ? 1 : 0.5;
+}
+
+// Splits over-long sentences, preferring spaces between words
+function wrap(text: string, offset: number): Sentence[] {
+  const pieces: Sentence[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let width = 0;
+    let end = start;
+    while (end < text.length && width + charWidth(text[end]) <= MAX_CUE_WIDTH) {
+      width += charWidth(text[end]);
+      end++;
+    }
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end);
+      if (space > start) end = space;
+    }
+    const piece = text.slice(start, end).trim();
+    if (piece) {
+      const lead = text.slice(start, end).length - text.slice(start, end).trimStart().length;
+      pieces.push({ text: piece, start: offset + start + lead, end: offset + start + lead + piece.length });
+    }
+    start = Math.max(end, start + 1);
+  }
+  return pieces;
+}
+
+/** Time at which the timeline first reaches `position`, interpolated between samples. */
+function crossingTime(samples: TimelineSample[], position: number, from: number): { time: number; index: number } | null {
+  for (let i = from; i < samples.length; i++) {
+    if (samples[i].position < position) continue;
+    if (i === 0) return { time: samples[0].time, index: 0 };
+    const a = samples[i - 1];
+    const b = samples[i];
+    const ratio = b.position > a.position ? (position - a.position) / (b.position - a.position) : 1;
+    return { time: a.time + Math.max(0, Math.min(1, ratio)) * (b.time - a.time), index: i };
+  }
+  return null;
+}
+
+export function buildCues(doc: ScriptDocument, samples: TimelineSample[], duration: number): SubtitleCue[] {
+  if (samples.length === 0) return [];
+  const cues: SubtitleCue[] = [];
+  const firstPosition = samples[0].position;
+
+  doc.blocks.forEach((block, index) => {
+    // Section titles organise the script; they are not read out
+    if (block.type !== 'paragraph') return;
+    const text = getBlockText(block);
+    if (!text) return;
+
+    for (const sentence of splitSentences(text)) {
+      const from = index + sentence.start / text.length;
+      const to = index + sentence.end / text.length;
+      if (to <= firstPosition) continue; // Already past when recording began
+      const start = crossingTime(samples, from, 0);
+      if (!start) return; // Recording stopped before the focus line got here
+      const end = crossingTime(samples, to, start.index);
+      cues.push({ start: start.time, end: end?.time ?? duration, text: sentence.text });
+    }
+  });
+
+  // Cues play one at a time and stay up long enough to read
+  cues.forEach((cue, i) => {
+    const next = cues[i + 1];
+    cue.end = Math.max(cue.end, cue.start + MIN_CUE_SECONDS);
+    if (next) cue.end = Math.min(cue.end, next.start);
+    cue.end = Math.min(cue.end, duration);
+  });
+  return cues.filter(cue => cue.end > cue.start);
+}
+
+export function cueAt(cues: SubtitleCue[], time: number): SubtitleCue | undefined {
+  return cues.find(cue => time >= cue.start && time < cue.end);
+}
+
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor(ms / 60000) % 60;
+  const s = Math.floor(ms / 1000) % 60;
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+export function toVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+/** Bottom-centred subtitle with an outline, wrapped to the frame width. */
+export function drawSubtitle(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  text: string,
+  width: number,
+  height: number
+) {
+  const fontSize = Math.round(Math.min(width, height) * 0.055);
+  const maxWidth = width * 0.9;
+  ctx.save();
+  ctx.font = `bold ${fontSize}px system-ui, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = fontSize * 0.18;
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.85)';
+  ctx.fillStyle = '#ffffff';
+
+  const lines: string[] = [];
+  let line = '';
+  for (const ch of text) {
+    if (line && ctx.measureText(line + ch).width > maxWidth) {
+      lines.push(line);
+      line = ch;
+    } else {
+      line += ch;
+    }
+  }
+  if (line) lines.push(line);
+
+  const lineHeight = fontSize * 1.25;
+  let y = height - height * 0.06 - (lines.length - 1) * lineHeight;
+  for (const l of lines) {
+    ctx.strokeText(l, width / 2, y);
+    ctx.fillText(l, width / 2, y);
+    y += lineHeight;
+  }
+  ctx.restore();
+}
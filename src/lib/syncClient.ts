@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Browser side of team sync: a thin client for the REST API, the mapping between
+// local and server records, and the queue of deletions waiting to be sent.
+
+import { Script, ScriptFolder } from '../types';
+import { sanitizeConfig } from './config';
+import {
+  ChangesResponse, ConflictResponse, FolderWrite, MeResponse, RemoteFolder, RemoteScript,
+  RemoteSettings, ScriptWrite, SettingsWrite, SYNC_API_PATH
+} from './syncProtocol';
+import { loadPreference, savePreference } from './storage';
+import { getMessages } from './i18n';
+
+export interface SyncAccount {
+  serverUrl: string;
+  token: string;
+  userName: string;
+}
+
+/** `current` is the server's copy when the write was based on an old revision. */
+export type WriteOutcome<T> = { record: T } | { current: T };
+
+export class SyncClient {
+  constructor(private readonly account: Pick<SyncAccount, 'serverUrl' | 'token'>) {}
+
+  // Network failures surface as TypeError from fetch, which callers treat as offline
+  private async request<T>(method: string, path: string, body?: unknown): Promise<WriteOutcome<T> | null> {
+    const res = await fetch(`${this.account.serverUrl.replace(/\/+$/, '')}${SYNC_API_PATH}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.account.token}`,
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' })
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (res.status === 401) throw new Error(getMessages().sync.invalidToken);
+    if (res.status === 404 && method === 'DELETE') return null;
+    if (res.status === 409) {
+      const conflict: ConflictResponse<T> = await res.json();
+      return { current: conflict.current };
+    }
+    if (!res.ok) throw new Error(getMessages().sync.serverError(res.status));
+    return { record: await res.json() };
+  }
+
+  private async read<T>(path: string): Promise<T> {
+    const result = await this.request<T>('GET', path);
+    if (!result || !('record' in result)) throw new Error(getMessages().sync.unexpectedResponse);
+    return result.record;
+  }
+
+  me() {
+    return this.read<MeResponse>('/me');
+  }
+
+  changes(since: number) {
+    return this.read<ChangesResponse>(`/changes?since=${since}`);
+  }
+
+  async putScript(id: string, write: ScriptWrite) {
+    return (await this.request<RemoteScript>('PUT', `/scripts/${encodeURIComponent(id)}`, write))!;
+  }
+
+  /** Null when the server never had it. */
+  deleteScript(id: string, baseRevision: number) {
+    return this.request<RemoteScript>('DELETE', `/scripts/${encodeURIComponent(id)}?baseRevision=${baseRevision}`);
+  }
+
+  async putFolder(id: string, write: FolderWrite) {
+    return (await this.request<RemoteFolder>('PUT', `/folders/${encodeURIComponent(id)}`, write))!;
+  }
+
+  deleteFolder(id: string, baseRevision: number) {
+    return this.request<RemoteFolder>('DELETE', `/folders/${encodeURIComponent(id)}?baseRevision=${baseRevision}`);
+  }
+
+  async putSettings(write: SettingsWrite) {
+    return (await this.request<RemoteSettings>('PUT', '/settings', write))!;
+  }
+}
+
+/** Never uploaded, or edited since. */
+export function needsPush(record: { revision?: number; dirty?: boolean }): boolean {
+  return record.revision === undefined || !!record.dirty;
+}
+
+export function toScriptWrite(script: Script): ScriptWrite {
+  return {
+    baseRevision: script.revision ?? 0,
+    folderId: script.folderId ?? null,
+    title: script.title,
+    text: script.text,
+    config: script.config,
+    createdAt: script.createdAt
+  };
+}
+
+export function fromRemoteScript(remote: RemoteScript): Script {
+  return {
+    id: remote.id,
+    title: remote.title,
+    text: remote.text,
+    config: sanitizeConfig(remote.config),
+    createdAt: remote.createdAt,
+    updatedAt: remote.updatedAt,
+    folderId: remote.folderId,
+    revision: remote.revision,
+    dirty: false
+  };
+}
+
+export function fromRemoteFolder(remote: RemoteFolder): ScriptFolder {
+  return { id: remote.id, name: remote.name, createdAt: remote.updatedAt, revision: remote.revision, dirty: false };
+}
+
+// Deleted records that the server still has to hear about, kept until it confirms
+
+type DeletionKind = 'scripts' | 'folders';
+type Deletions = Record<DeletionKind, Record<string, number>>;
+
+const DELETIONS_KEY = 'syncDeletions';
+
+function loadDeletions(): Deletions {
+  return { scripts: {}, folders: {}, ...loadPreference<Partial<Deletions>>(DELETIONS_KEY, {}) };
+}
+
+export function recordDeletion(kind: DeletionKind, id: string, revision: number) {
+  const deletions = loadDeletions();
+  deletions[kind][id] = revision;
+  savePreference(DELETIONS_KEY, deletions);
+}
+
+export function pendingDeletions(): { kind: DeletionKind; id: string; revision: number }[] {
+  const deletions = loadDeletions();
+  return (Object.keys(deletions) as DeletionKind[]).flatMap(kind =>
+    Object.entries(deletions[kind]).map(([id, revision]) => ({ kind, id, revision }))
+  );
+}
+
+export function clearDeletion(kind: DeletionKind, id: string) {
+  const deletions = loadDeletions();
+  delete deletions[kind][id];
+  savePreference(DELETIONS_KEY, deletions);
+}
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// REST API for team sync. Shared by the browser (syncClient.ts) and the server
+// (server/syncApi.ts). Every record carries a revision that the server bumps on
+// each write; writes name the revision they were based on, and a stale one is
+// answered with 409 and the server's copy instead of overwriting it.
+
+import { TeleprompterConfig } from '../types';
+
+export const SYNC_API_PATH = '/api';
+
+interface SyncedRecord {
+  id: string;
+  revision: number;
+  updatedAt: number;
+  /** Name of the team member who last wrote it */
+  updatedBy: string;
+  /** Deleted records stay as tombstones so other devices learn about the deletion */
+  deleted: boolean;
+}
+
+export interface RemoteScript extends SyncedRecord {
+  folderId: string | null;
+  title: string;
+  text: string;
+  config: TeleprompterConfig;
+  createdAt: number;
+}
+
+export interface RemoteFolder extends SyncedRecord {
+  name: string;
+}
+
+/** Preferences that follow a team member from device to device. */
+export interface RemoteSettings {
+  revision: number;
+  updatedAt: number;
+  data: Record<string, unknown>;
+}
+
+/** PUT /api/scripts/:id */
+export interface ScriptWrite {
+  baseRevision: number;
+  folderId: string | null;
+  title: string;
+  text: string;
+  config: TeleprompterConfig;
+  createdAt: number;
+}
+
+/** PUT /api/folders/:id */
+export interface FolderWrite {
+  baseRevision: number;
+  name: string;
+}
+
+/** PUT /api/settings */
+export interface SettingsWrite {
+  baseRevision: number;
+  data: Record<string, unknown>;
+}
+
+/** GET /api/me */
+export interface MeResponse {
+  user: { id: string; name: string };
+}
+
+/** GET /api/changes?since=<cursor>: everything written after the cursor, tombstones included. */
+export interface ChangesResponse {
+  cursor: number;
+  scripts: RemoteScript[];
+  folders: RemoteFolder[];
+  /** Only the caller's own settings, and only when they changed */
+  settings: RemoteSettings | null;
+}
+
+/** Body of a 409 answer: the write was based on an old revision. */
+export interface ConflictResponse<T> {
+  error: 'conflict';
+  current: T;
+}
+
+/** Client-generated ids (UUIDs) */
+export const RECORD_ID_PATTERN = /^[\w-]{1,64}$/;
+
+/** Preferences that follow a team member between devices (device choices stay local). */
+export const SYNCED_PREFERENCES = ['countdownSeconds', 'maxDurationSeconds', 'audioPreset', 'compositeEnabled', 'inputBindings', 'typographyPresets', 'screenLayout'];
+
+/** The synced part of a settings record; any other key could overwrite device-local state. */
+export function pickSyncedPreferences(data: Record<string, unknown>): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const key of SYNCED_PREFERENCES) {
+    if (key in data) picked[key] = data[key];
+  }
+  return picked;
+}
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { RecordedTake, Take } from '../types';
+import { getAll, getOne, putOne, withTransaction } from './db';
+import { createId } from './scriptStore';
+import { getLocale, getMessages } from './i18n';
+
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_TIMEOUT_MS = 5000;
+
+export async function loadTakes(): Promise<Take[]> {
+  const takes = await getAll<Take>('takes');
+  return takes.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveRecordedTake(recorded: RecordedTake): Promise<Take> {
+  const take: Take = {
+    id: createId(),
+    name: `${recorded.scriptTitle} ${new Date(recorded.startedAt).toLocaleTimeString(getLocale())}${recorded.recovered ? getMessages().gallery.recoveredSuffix : ''}`,
+    scriptId: recorded.scriptId,
+    scriptTitle: recorded.scriptTitle,
+    createdAt: recorded.startedAt,
+    duration: recorded.duration,
+    mimeType: recorded.mimeType,
+    size: recorded.blob.size,
+    thumbnail: await createThumbnail(recorded.blob),
+    rating: 0,
+    starred: false,
+    cues: recorded.cues
+  };
+  await withTransaction(['takes', 'takeBlobs'], tx => {
+    tx.objectStore('takes').put(take);
+    tx.objectStore('takeBlobs').put(recorded.blob, take.id);
+  });
+  return take;
+}
+
+export function updateTake(take: Take): Promise<void> {
+  return putOne('takes', take);
+}
+
+export function getTakeBlob(id: string): Promise<Blob | undefined> {
+  return getOne<Blob>('takeBlobs', id);
+}
+
+export function deleteTakes(ids: string[]): Promise<void> {
+  return withTransaction(['takes', 'takeBlobs'], tx => {
+    for (const id of ids) {
+      tx.objectStore('takes').delete(id);
+      tx.objectStore('takeBlobs').delete(id);
+    }
+  });
+}
+
+export interface StorageUsage {
+  /** Bytes used by takes in the gallery */
+  takes: number;
+  /** Origin-wide usage and quota as reported by the browser, when available */
+  usage?: number;
+  quota?: number;
+}
+
+export async function getStorageUsage(takes: Take[]): Promise<StorageUsage> {
+  const result: StorageUsage = { takes: takes.reduce((sum, t) => sum + t.size, 0) };
+  if (navigator.storage?.estimate) {
+    try {
+      const { usage, quota } = await navigator.storage.estimate();
+      result.usage = usage;
+      result.quota = quota;
+    } catch (err) {
+      console.warn("Storage estimate failed:", err);
+    }
+  }
+  return result;
+}
+
+// Grabs a frame shortly after the start; gives up quietly on codecs the browser can't seek
+export async function createThumbnail(blob: Blob): Promise<Blob | undefined> {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  const once = (event: string) => new Promise<void>((resolve, reject) => {
+    video.addEventListener(event, () => resolve(), { once: true });
+    video.addEventListener('error', () => reject(video.error), { once: true });
+  });
+  const timeout = new Promise<never>((_, reject) => {
+    setTimeout(() => reject(new Error('Thumbnail timed out')), THUMBNAIL_TIMEOUT_MS);
+  });
+
+  try {
+    const loaded = once('loadeddata');
+    video.src = url;
+    await Promise.race([loaded, timeout]);
+    const seeked = once('seeked');
+    video.currentTime = 0.5;
+    await Promise.race([seeked, timeout]);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = Math.round(THUMBNAIL_WIDTH * (video.videoHeight / video.videoWidth || 9 / 16));
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob | undefined>(resolve => canvas.toBlob(b => resolve(b ?? undefined), 'image/jpeg', 0.7));
+  } catch (err) {
+    console.warn("Thumbnail failed:", err);
+    return undefined;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Word/character diff for previewing edits. CJK text is compared per character,
+// Latin text per word. Very long texts fall back to comparing sentences.
+
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+const TOKEN_PATTERN = /[⺀-鿿가-힯豈-﫿＀-￯]|[\p{L}\p{N}_]+|\s+|./gu;
+const SENTENCE_PATTERN = /[^。！？!?\n]*[。！？!?\n]+|[^。！？!?\n]+$/g;
+const MAX_CELLS = 4_000_000;
+
+export function diffText(before: string, after: string): DiffPart[] {
+  const parts = diffTokens(before.match(TOKEN_PATTERN) ?? [], after.match(TOKEN_PATTERN) ?? [])
+    ?? diffTokens(before.match(SENTENCE_PATTERN) ?? [], after.match(SENTENCE_PATTERN) ?? []);
+  if (parts) return parts;
+  return [
+    ...(before ? [{ type: 'delete' as const, text: before }] : []),
+    ...(after ? [{ type: 'insert' as const, text: after }] : [])
+  ];
+}
+
+// Longest-common-subsequence diff; returns null when the table would be too big
+function diffTokens(a: string[], b: string[]): DiffPart[] | null {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix
+    && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const x = a.slice(prefix, a.length - suffix);
+  const y = b.slice(prefix, b.length - suffix);
+  const n = x.length;
+  const m = y.length;
+  if ((n + 1) * (m + 1) > MAX_CELLS) return null;
+
+  // lengths[i * (m + 1) + j] = LCS of x[i..] and y[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = x[i] === y[j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  if (prefix > 0) push('equal', a.slice(0, prefix).join(''));
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (x[i] === y[j]) {
+      push('equal', x[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      push('delete', x[i++]);
+    } else {
+      push('insert', y[j++]);
+    }
+  }
+  while (i < n) push('delete', x[i++]);
+  while (j < m) push('insert', y[j++]);
+  if (suffix > 0) push('equal', a.slice(a.length - suffix).join(''));
+  return parts;
+}
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { CSSProperties } from 'react';
+import { FontFamily, TeleprompterConfig, TextAlign } from '../types';
+
+// System fonts only, so the prompter looks the same offline. Each stack lists the
+// macOS/iOS, Windows and Linux/Android names of a similar CJK face.
+export const FONT_STACKS: Record<FontFamily, string> = {
+  system: 'system-ui, -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif',
+  hei: '"PingFang SC", "Hiragino Sans GB", "Microsoft YaHei", "Noto Sans CJK SC", "Source Han Sans SC", sans-serif',
+  song: '"Songti SC", STSong, SimSun, "Noto Serif CJK SC", "Source Han Serif SC", serif',
+  kai: '"Kaiti SC", STKaiti, KaiTi, "AR PL UKai CN", serif',
+  rounded: '"Yuanti SC", YouYuan, ui-rounded, "Arial Rounded MT Bold", sans-serif',
+  mono: 'ui-monospace, "SF Mono", Menlo, Consolas, "Sarasa Mono SC", monospace',
+};
+
+export const FONT_WEIGHTS = [400, 600, 800] as const;
+
+export const TEXT_ALIGNS: TextAlign[] = ['left', 'center', 'right'];
+
+export const TEXT_COLORS = ['#ffffff', '#ffff00', '#00ff00', '#00ffff', '#ff00ff'];
+
+export const TYPOGRAPHY_KEYS = [
+  'fontFamily', 'fontSize', 'fontWeight', 'color', 'lineHeight', 'letterSpacing', 'textAlign',
+  'sideMargin', 'outlineWidth', 'opacity', 'focusLinePosition', 'focusLineColor', 'highlightCurrentLine'
+] as const;
+
+/** The part of a script's config that a typography preset sets. */
+export type TypographySettings = Pick<TeleprompterConfig, typeof TYPOGRAPHY_KEYS[number]>;
+
+export interface TypographyPreset {
+  id: string;
+  name: string;
+  settings: TypographySettings;
+  builtIn?: boolean;
+}
+
+// Mirroring stays a separate switch: a beam-splitter preset shouldn't flip a normal screen
+export const BUILT_IN_PRESETS: TypographyPreset[] = [
+  {
+    id: 'outdoor',
+    name: '户外强光',
+    builtIn: true,
+    settings: {
+      fontFamily: 'hei', fontSize: 48, fontWeight: 800, color: '#ffff00', lineHeight: 1.4, letterSpacing: 0.02,
+      textAlign: 'center', sideMargin: 24, outlineWidth: 3, opacity: 0.7,
+      focusLinePosition: 0.4, focusLineColor: '#ffff00', highlightCurrentLine: true
+    }
+  },
+  {
+    id: 'studio',
+    name: '演播室',
+    builtIn: true,
+    settings: {
+      fontFamily: 'hei', fontSize: 36, fontWeight: 600, color: '#ffffff', lineHeight: 1.6, letterSpacing: 0,
+      textAlign: 'center', sideMargin: 48, outlineWidth: 0, opacity: 0.4,
+      focusLinePosition: 0.4, focusLineColor: '#10b981', highlightCurrentLine: false
+    }
+  },
+  {
+    id: 'beam-splitter',
+    name: '分光镜',
+    builtIn: true,
+    settings: {
+      fontFamily: 'hei', fontSize: 56, fontWeight: 800, color: '#ffffff', lineHeight: 1.3, letterSpacing: 0.04,
+      textAlign: 'center', sideMargin: 16, outlineWidth: 0, opacity: 1,
+      focusLinePosition: 0.5, focusLineColor: '#10b981', highlightCurrentLine: true
+    }
+  },
+];
+
+function pick<T, K extends keyof T>(source: T, keys: readonly K[]): Pick<T, K> {
+  const picked = {} as Pick<T, K>;
+  keys.forEach(key => {
+    picked[key] = source[key];
+  });
+  return picked;
+}
+
+export function pickTypography(config: TeleprompterConfig): TypographySettings {
+  return pick(config, TYPOGRAPHY_KEYS);
+}
+
+export function matchesPreset(config: TeleprompterConfig, preset: TypographyPreset): boolean {
+  return TYPOGRAPHY_KEYS.every(key => config[key] === preset.settings[key]);
+}
+
+/** Style for the script text itself. */
+export function getTextStyle(config: TeleprompterConfig): CSSProperties {
+  return {
+    fontFamily: FONT_STACKS[config.fontFamily],
+    fontSize: `${config.fontSize}px`,
+    fontWeight: config.fontWeight,
+    color: config.color,
+    lineHeight: config.lineHeight,
+    letterSpacing: `${config.letterSpacing}em`,
+    textAlign: config.textAlign,
+    // The stroke is painted under the fill so it doesn't eat into thin CJK strokes
+    ...(config.outlineWidth > 0
+      ? { WebkitTextStroke: `${config.outlineWidth * 2}px rgba(0,0,0,0.9)`, paintOrder: 'stroke fill' }
+      : { textShadow: '0 2px 4px rgba(0,0,0,0.5)' })
+  };
+}
+
+/**
+ * Fades the text towards the edges of the prompter box. With the current line
+ * highlighted, everything outside a one-line band around the focus line is dimmed too.
+ */
+export function getScrollMask(config: TeleprompterConfig): string {
+  if (!config.highlightCurrentLine) {
+    return 'linear-gradient(to bottom, transparent, black 15%, black 85%, transparent)';
+  }
+  const focus = config.focusLinePosition * 100;
+  const half = `${(config.fontSize * config.lineHeight) / 2}px`;
+  return `linear-gradient(to bottom, transparent, rgba(0,0,0,0.35) 15%, rgba(0,0,0,0.35) calc(${focus}% - ${half} * 2), `
+    + `black calc(${focus}% - ${half}), black calc(${focus}% + ${half}), `
+    + `rgba(0,0,0,0.35) calc(${focus}% + ${half} * 2), rgba(0,0,0,0.35) 85%, transparent)`;
+}
+
+/** Semi-transparent version of a #rrggbb color. */
+export function withAlpha(hex: string, alpha: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// MediaRecorder output differs per browser (Safari: MP4, Chrome/Firefox: WebM).
+// Saved files keep their real container; convertToMp4 produces a real H.264 MP4
+// in the browser via WebCodecs for players and apps that only accept MP4.
+// The muxer is loaded on demand to keep it out of the main bundle.
+
+import type { VideoSample } from 'mediabunny';
+import { SubtitleCue } from '../types';
+import { cueAt, drawSubtitle } from './subtitles';
+
+const EXTENSIONS: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+  'video/x-matroska': 'mkv',
+};
+
+/** "video/webm;codecs=vp9,opus" → "video/webm" */
+export function getBaseMimeType(mimeType: string): string {
+  return mimeType.split(';')[0].trim().toLowerCase();
+}
+
+export function getVideoExtension(mimeType: string): string {
+  return EXTENSIONS[getBaseMimeType(mimeType)] ?? 'webm';
+}
+
+export function isMp4(mimeType: string): boolean {
+  return getBaseMimeType(mimeType) === 'video/mp4';
+}
+
+export function getVideoFileName(mimeType: string, name = `teleprompter_video_${Date.now()}`): string {
+  const safeName = name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'teleprompter_video';
+  return `${safeName}.${getVideoExtension(mimeType)}`;
+}
+
+export function canConvertToMp4(): boolean {
+  return typeof VideoEncoder !== 'undefined' && typeof VideoDecoder !== 'undefined';
+}
+
+export interface Mp4ExportOptions {
+  /** Draw these subtitles into the picture */
+  burnInCues?: SubtitleCue[];
+}
+
+export async function convertToMp4(
+  blob: Blob,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal,
+  options: Mp4ExportOptions = {}
+): Promise<Blob> {
+  const {
+    ALL_FORMATS,
+    BlobSource,
+    BufferTarget,
+    Conversion,
+    Input,
+    Mp4OutputFormat,
+    Output,
+    canEncodeAudio,
+    canEncodeVideo
+  } = await import('mediabunny');
+
+  if (!(await canEncodeVideo('avc'))) {
+    throw new Error('This browser cannot encode H.264 video');
+  }
+  // AAC encoding is missing in some browsers; let the muxer pick another MP4 audio codec then
+  const audioCodec = (await canEncodeAudio('aac')) ? 'aac' : undefined;
+
+  const input = new Input({ source: new BlobSource(blob), formats: ALL_FORMATS });
+  const target = new BufferTarget();
+  const output = new Output({ format: new Mp4OutputFormat({ fastStart: 'in-memory' }), target });
+
+  const conversion = await Conversion.init({
+    input,
+    output,
+    video: { codec: 'avc', process: options.burnInCues && createSubtitleProcessor(options.burnInCues) },
+    audio: { codec: audioCodec },
+  });
+  if (!conversion.isValid || !conversion.utilizedTracks.some(t => t.isVideoTrack())) {
+    throw new Error(`Conversion not possible: ${conversion.discardedTracks.map(t => t.reason).join(', ')}`);
+  }
+
+  const abort = () => {
+    conversion.cancel();
+  };
+  signal?.addEventListener('abort', abort, { once: true });
+  conversion.onProgress = progress => onProgress(progress);
+  try {
+    await conversion.execute();
+  } finally {
+    signal?.removeEventListener('abort', abort);
+    input.dispose();
+  }
+
+  return new Blob([target.buffer!], { type: 'video/mp4' });
+}
+
+// Frames without a cue pass through untouched; the rest are redrawn with the text on top
+function createSubtitleProcessor(cues: SubtitleCue[]) {
+  let canvas: OffscreenCanvas | null = null;
+  return (sample: VideoSample) => {
+    const cue = cueAt(cues, sample.timestamp);
+    if (!cue) return sample;
+    const width = sample.displayWidth;
+    const height = sample.displayHeight;
+    if (!canvas || canvas.width !== width || canvas.height !== height) {
+      canvas = new OffscreenCanvas(width, height);
+    }
+    const ctx = canvas.getContext('2d')!;
+    sample.draw(ctx, 0, 0, width, height);
+    drawSubtitle(ctx, cue.text, width, height);
+    return canvas;
+  };
+}
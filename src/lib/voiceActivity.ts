@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Energy-based voice activity detection on the microphone track.
+// Also estimates speaking pace by counting syllable-like energy peaks, which
+// maps well onto characters per second for Chinese (one syllable per char).
+
+export interface VoiceActivitySample {
+  speaking: boolean;
+  level: number;
+  charsPerSecond: number;
+}
+
+const DEFAULT_CHARS_PER_SECOND = 4;
+const MIN_CHARS_PER_SECOND = 1.5;
+const MAX_CHARS_PER_SECOND = 8;
+const HANGOVER_MS = 350; // Keep "speaking" through short gaps between words
+const MIN_PEAK_GAP_MS = 110; // Syllables closer than this are counted once
+const PACE_TIME_CONSTANT_S = 6; // Pace estimate adapts over the last few seconds
+
+type AudioContextCtor = typeof AudioContext;
+
+export class VoiceActivityDetector {
+  private context: AudioContext;
+  private source: MediaStreamAudioSourceNode;
+  private analyser: AnalyserNode;
+  private buffer: Float32Array<ArrayBuffer>;
+
+  private noiseFloor = 0.005;
+  private envelope = 0;
+  private rising = false;
+  private lastVoiceAt = -Infinity;
+  private lastPeakAt = -Infinity;
+  private lastSampleAt: number | null = null;
+  private voicedSeconds = 0;
+  private syllables = 0;
+
+  static isSupported(stream: MediaStream | null): boolean {
+    return !!stream && stream.getAudioTracks().some(t => t.readyState === 'live') && !!getAudioContextCtor();
+  }
+
+  constructor(stream: MediaStream) {
+    const Ctor = getAudioContextCtor();
+    if (!Ctor) throw new Error('Web Audio is not available');
+
+    this.context = new Ctor();
+    // Only the audio tracks are wired in; the video track stays untouched
+    this.source = this.context.createMediaStreamSource(new MediaStream(stream.getAudioTracks()));
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = 1024;
+    this.analyser.smoothingTimeConstant = 0;
+    this.source.connect(this.analyser);
+    this.buffer = new Float32Array(this.analyser.fftSize);
+  }
+
+  resume() {
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(err => console.warn("AudioContext resume failed:", err));
+    }
+  }
+
+  /** Call once per animation frame with the rAF timestamp. */
+  sample(now: number): VoiceActivitySample {
+    const dt = this.lastSampleAt === null ? 0 : Math.min((now - this.lastSampleAt) / 1000, 0.25);
+    this.lastSampleAt = now;
+
+    this.analyser.getFloatTimeDomainData(this.buffer);
+    let sum = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      sum += this.buffer[i] * this.buffer[i];
+    }
+    const rms = Math.sqrt(sum / this.buffer.length);
+
+    const threshold = Math.max(this.noiseFloor * 3, 0.01);
+    const voiced = rms > threshold;
+    if (voiced) {
+      this.lastVoiceAt = now;
+    } else {
+      // Track the background level only while nobody is talking
+      this.noiseFloor = Math.max(0.001, this.noiseFloor * 0.98 + rms * 0.02);
+    }
+    const speaking = now - this.lastVoiceAt < HANGOVER_MS;
+
+    // Syllable nuclei show up as local maxima of the smoothed envelope
+    const prevEnvelope = this.envelope;
+    this.envelope = this.envelope * 0.6 + rms * 0.4;
+    if (this.envelope > prevEnvelope) {
+      this.rising = true;
+    } else if (this.rising) {
+      this.rising = false;
+      if (prevEnvelope > threshold && now - this.lastPeakAt > MIN_PEAK_GAP_MS) {
+        this.lastPeakAt = now;
+        this.syllables += 1;
+      }
+    }
+
+    const decay = Math.exp(-dt / PACE_TIME_CONSTANT_S);
+    this.syllables *= decay;
+    this.voicedSeconds = this.voicedSeconds * decay + (speaking ? dt : 0);
+
+    return {
+      speaking,
+      level: Math.min(1, rms / 0.3),
+      charsPerSecond: this.charsPerSecond(),
+    };
+  }
+
+  private charsPerSecond(): number {
+    if (this.voicedSeconds < 1) return DEFAULT_CHARS_PER_SECOND;
+    const pace = this.syllables / this.voicedSeconds;
+    return Math.min(MAX_CHARS_PER_SECOND, Math.max(MIN_CHARS_PER_SECOND, pace));
+  }
+
+  dispose() {
+    this.source.disconnect();
+    this.context.close().catch(() => {});
+  }
+}
+
+export function getAudioContextCtor(): AudioContextCtor | undefined {
+  return window.AudioContext || (window as unknown as { webkitAudioContext?: AudioContextCtor }).webkitAudioContext;
+}
@@ -0,0 +1,455 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Messages } from './zh-CN';
+
+const plural = (count: number, one: string, other: string) => `${count} ${count === 1 ? one : other}`;
+
+export const en: Messages = {
+  common: {
+    on: 'On',
+    off: 'Off',
+    all: 'All',
+    retry: 'Retry',
+    cancel: 'Cancel',
+    done: 'Done',
+    gotIt: 'Got it',
+    later: 'Later',
+    view: 'View',
+    show: 'Show',
+    hide: 'Hide',
+    edit: 'Edit',
+    rename: 'Rename',
+    delete: 'Delete',
+    size: 'Size',
+    opacity: 'Opacity',
+    restoreDefaults: 'Restore defaults',
+    saveVideo: 'Save video',
+    scriptLibrary: 'Scripts',
+    takeGallery: 'Takes',
+    copyShareLink: 'Copy share link',
+    seconds: n => `${n}s`,
+    copyName: name => `${name} copy`,
+    confirmDelete: name => `Delete “${name}”?`,
+    positions: {
+      'top-left': 'Top left',
+      'top-right': 'Top right',
+      center: 'Center',
+      'bottom-left': 'Bottom left',
+      'bottom-right': 'Bottom right'
+    }
+  },
+
+  share: {
+    videoTitle: 'Teleprompter recording',
+    appTitle: 'Smart Teleprompter',
+    appText: 'A great teleprompter for talking-head videos!',
+    linkCopied: 'App link copied to the clipboard. Share it with your friends!'
+  },
+
+  app: {
+    estimate: duration => `About ${duration}`,
+    remaining: duration => `${duration} left`,
+    screenRecordingActive: 'Screen recording: the shared screen and the camera bubble are recorded',
+    persistFailed: 'Storage is full; this take may be lost if the app closes unexpectedly',
+    interrupted: 'The app went to the background while recording; this take may have gaps',
+    recordFailed: 'Couldn’t start recording: the browser can’t record this stream, or the camera was disconnected',
+    recovered: count => `Recovered ${plural(count, 'interrupted recording', 'interrupted recordings')}`,
+    updateReady: 'A new version is available',
+    reload: 'Reload',
+    chooseOtherDevice: 'Choose another device',
+    prevParagraph: 'Previous paragraph',
+    outline: 'Outline',
+    nextParagraph: 'Next paragraph',
+    install: 'Add to home screen',
+    shareApp: 'Share app'
+  },
+
+  camera: {
+    requesting: {
+      title: 'Asking for camera and microphone access…',
+      hint: 'Choose “Allow” in the browser prompt.'
+    },
+    denied: {
+      title: 'Camera or microphone access was denied',
+      hint: 'Click the lock or camera icon at the left of the address bar, set camera and microphone to “Allow”, then retry. On iPhone, turn them on in Settings → Safari → Camera/Microphone.'
+    },
+    'no-device': {
+      title: 'No camera or microphone found',
+      hint: 'Connect a camera and microphone, or pick another device in device settings, then retry.'
+    },
+    'in-use': {
+      title: 'The camera is in use by another app',
+      hint: 'Close other apps or browser tabs using the camera (such as video calls), then retry.'
+    },
+    disconnected: {
+      title: 'Camera or microphone disconnected',
+      hint: 'The device was unplugged or taken back by the system. It comes back on its own once reconnected, or you can retry. The recording in progress was stopped and what was recorded is in the take gallery.'
+    },
+    unsupported: {
+      title: 'This browser can’t use the camera',
+      hint: 'The camera only works over HTTPS or on localhost. Use an HTTPS address, or open the app in the latest Chrome, Safari or Edge.'
+    },
+    error: {
+      title: 'Couldn’t open the camera',
+      hint: 'Please retry. If it still fails, restart the browser.'
+    }
+  },
+
+  settings: {
+    title: 'Prompter settings',
+    fontSize: 'Font size',
+    speed: 'Scroll speed',
+    scrollModes: { fixed: 'Fixed speed', voice: 'Follow voice' },
+    noMicFallback: 'No microphone detected; scrolling at a fixed speed',
+    textColor: 'Text color',
+    typographyLink: 'Fonts, layout and presets',
+    countdown: 'Recording countdown',
+    estimatedLength: duration => `Estimated length ${duration}`,
+    maxDuration: 'Maximum recording length (stops automatically)',
+    unlimited: 'No limit',
+    audio: 'Audio processing',
+    audioRaw: 'Records the unprocessed sound',
+    audioProcessed: 'Noise gate · Compressor · EQ · Limiter',
+    mirrorLayout: 'Mirroring and layout (beam-splitter prompters)',
+    layoutToggles: {
+      mirrorX: 'Flip horizontally',
+      mirrorY: 'Flip vertically',
+      hideCamera: 'Hide camera',
+      fullscreenText: 'Full-screen text'
+    },
+    notEnabled: 'Off',
+    screenSharing: 'Sharing',
+    screenHint: 'Screen + camera bubble',
+    remotePeers: count => `${plural(count, 'device', 'devices')} connected`,
+    remoteConnecting: 'Connecting',
+    remoteHint: 'Control from another device',
+    bindingsHint: 'Clickers / foot pedals',
+    language: 'Language',
+    languageAuto: 'System'
+  },
+
+  pace: {
+    modes: {
+      pixels: 'Pixels/sec',
+      cpm: 'Chars/min',
+      duration: 'Fit to time'
+    },
+    pixels: n => `${n} px/s`,
+    cpm: n => `${n} chars/min`,
+    duration: duration => `Read in ${duration}`
+  },
+
+  audioPresets: {
+    raw: 'Raw',
+    clear: 'Clear voice',
+    warm: 'Warm',
+    podcast: 'Podcast'
+  },
+
+  editor: {
+    title: 'Edit script',
+    dropToImport: 'Drop to import as a new script',
+    importFile: 'Import file',
+    exportJson: 'Export JSON (with settings)',
+    titlePlaceholder: 'Script title',
+    textPlaceholder: 'Type your script here...',
+    markupHelp: {
+      intro: 'Markup (optional): ',
+      heading: 'Section title',
+      emphasis: 'emphasis',
+      pause: 'pause',
+      cueExample: 'show the product',
+      cue: 'cue'
+    }
+  },
+
+  result: {
+    title: 'Recording finished!',
+    savedToGallery: 'Saved to the take gallery automatically',
+    subtitles: 'Subtitles',
+    subtitlesWithCount: count => `Subtitles (${plural(count, 'line', 'lines')})`,
+    convertToMp4: 'Convert to MP4',
+    converting: 'Converting to MP4…',
+    saveMp4: size => `Save MP4 (${size})`,
+    convertFailed: message => `Conversion failed: ${message}`,
+    retake: 'Record again'
+  },
+
+  library: {
+    welcomeTitle: 'Welcome',
+    welcomeText: 'Welcome to the smart teleprompter! Tap the edit button on the right to change this text. You can adjust the scroll speed, font size and color. When you finish recording, the video is ready to download.',
+    untitled: 'Untitled script',
+    fileName: 'script',
+    unfiled: 'Unfiled',
+    folderNamePrompt: 'Folder name',
+    newFolder: 'New folder',
+    renameFolder: 'Rename folder',
+    deleteFolder: 'Delete folder',
+    confirmDeleteFolder: name => `Delete the folder “${name}”? Its scripts will move to “Unfiled”.`,
+    dropToImport: 'Drop to import TXT / Markdown / Word / SRT / JSON',
+    importHint: 'TXT, Markdown, Word, SRT subtitles and exported JSON are supported; you can also drag files in',
+    import: 'Import',
+    create: 'New',
+    searchPlaceholder: 'Search titles or text...',
+    noMatches: 'No matching scripts',
+    emptyScript: '(empty)',
+    moveToFolder: 'Move to folder',
+    exportJson: 'Export JSON',
+    duplicate: 'Duplicate',
+    importFailed: (name, message) => `Couldn’t import “${name}”: ${message}`,
+    shareLinkCopied: 'Share link copied. Anyone who opens it gets this script and its settings.'
+  },
+
+  transfer: {
+    importedTitle: 'Imported script',
+    sharedTitle: 'Shared script',
+    unsupportedType: extension => `Unsupported file type: .${extension}`,
+    unreadableWord: 'Couldn’t read this Word file',
+    invalidJson: 'The JSON file is malformed',
+    notABundle: 'This isn’t a script exported from the teleprompter'
+  },
+
+  gallery: {
+    fileMissing: 'The video file is missing',
+    confirmCleanup: (count, size) => `Delete ${plural(count, 'unstarred take', 'unstarred takes')} and free ${size}?`,
+    takesUsage: size => `Takes use ${size}`,
+    storageUsage: (used, quota) => `Browser storage: ${used} of ${quota} used`,
+    cleanup: 'Clean up unstarred',
+    filters: { all: 'All', script: 'This script', starred: 'Starred' },
+    empty: 'No takes yet',
+    star: 'Star',
+    recoveredSuffix: ' (recovered)'
+  },
+
+  subtitles: {
+    title: name => `Subtitles · ${name}`,
+    setToCurrentTime: 'Set to current playback time',
+    shiftEarlier: seconds => `All ${seconds}s earlier`,
+    shiftLater: seconds => `All ${seconds}s later`,
+    burnIn: 'Export with burned-in subtitles',
+    burningIn: percent => `Rendering ${percent}% · Cancel`,
+    burnedInName: name => `${name} (subtitled)`,
+    saveBurnedIn: size => `Save subtitled video (${size})`,
+    burnInFailed: message => `Rendering failed: ${message}`,
+    empty: 'This take has no subtitles: the script didn’t scroll while recording'
+  },
+
+  devices: {
+    title: 'Camera and microphone',
+    unnamedDevice: n => `Device ${n}`,
+    stereo: 'Stereo',
+    mono: 'Mono',
+    camera: 'Camera',
+    cameraAuto: 'Automatic (front/back switch)',
+    microphone: 'Microphone',
+    microphoneDefault: 'System default',
+    resolution: 'Resolution',
+    frameRate: 'Frame rate',
+    aspectRatio: 'Aspect ratio',
+    aspectRatios: {
+      '16:9': 'Landscape',
+      '9:16': 'Portrait',
+      '1:1': 'Square'
+    },
+    actual: 'Actual output',
+    cameraOff: 'Camera is off',
+    labelsHidden: 'Device names appear once camera and microphone access is allowed.'
+  },
+
+  composite: {
+    title: 'Composite recording',
+    enableTitle: 'Record the logo, watermark and lower third into the video',
+    lockedWhileRecording: 'Can’t change while recording',
+    disabledHint: 'When off, the raw camera picture is recorded',
+    enabled: 'On',
+    disabled: 'Off',
+    defaultTemplate: 'Default',
+    templates: 'Templates',
+    saveAs: 'Save as',
+    templateNamePrompt: 'Template name',
+    confirmDeleteTemplate: name => `Delete the template “${name}”?`,
+    changeImage: 'Change image',
+    watermark: 'Text watermark',
+    watermarkPlaceholder: 'Watermark text',
+    lowerThird: 'Lower third',
+    namePlaceholder: 'Name',
+    titlePlaceholder: 'Title / description',
+    accentColor: 'Accent color',
+    mirror: 'Flip the recorded picture horizontally'
+  },
+
+  screen: {
+    title: 'Screen recording',
+    intro: 'Records a shared window or tab with the camera overlaid in a small bubble, which suits software tutorials. The prompter stays on this screen and is never recorded, so share the window or tab you are demonstrating rather than the whole screen. While sharing, the record button records this picture (composite overlays such as the logo don’t apply to screen recordings).',
+    unsupported: 'This browser or device can’t share its screen. Open the app on a computer in Chrome, Edge, Firefox or Safari.',
+    start: 'Choose a screen to share',
+    stop: 'Stop sharing and record the camera again',
+    requesting: 'Choose what to share in the browser…',
+    lockedWhileRecording: 'Can’t change what’s shared while recording',
+    monitorWarning: 'You are sharing an entire screen, so the prompter window will be recorded too. Stop and share a single window or tab instead.',
+    errors: {
+      denied: 'Sharing was cancelled, or the browser isn’t allowed to record the screen (on macOS, allow it under System Settings → Privacy & Security → Screen Recording)',
+      failed: 'Couldn’t share the screen. Please retry.'
+    },
+    dragBubble: 'Drag the camera bubble',
+    resizeBubble: 'Drag to resize',
+    bubble: 'Camera bubble',
+    shapes: { circle: 'Circle', rect: 'Rectangle' },
+    mirror: 'Mirror the camera picture',
+    systemAudio: 'Record computer sound (from the next share)'
+  },
+
+  remote: {
+    title: 'Two-device mode',
+    introBefore: 'This device records while a tablet or computer edits the script, controls scrolling and speed, and starts or stops recording in real time. Both devices must be on the same local network and open the app from the local server started with ',
+    introAfter: '.',
+    enable: 'Turn on two-device mode',
+    disable: 'Turn off two-device mode',
+    useAsController: 'Use as controller',
+    peers: count => `${plural(count, 'controller', 'controllers')} connected`,
+    status: {
+      idle: 'Off',
+      connecting: 'Connecting to the relay…',
+      connected: 'Waiting for a controller',
+      error: 'Can’t reach the relay, retrying…'
+    },
+    linkHint: 'Open this link on the controlling device, or choose “Use as controller” in two-device mode and enter the pairing code'
+  },
+
+  controller: {
+    title: 'Controller',
+    connectTitle: 'Connect to the recording device',
+    connectHint: 'The six-digit pairing code is shown in “Two-device mode” on the recording device',
+    connect: 'Connect',
+    back: 'Back to the prompter',
+    codeNotFound: 'Invalid pairing code, or two-device mode is off on the recording device',
+    connecting: 'Connecting…',
+    hostOffline: 'The recording device disconnected, waiting for it to come back…',
+    recording: 'Recording',
+    connected: 'Connected'
+  },
+
+  bindings: {
+    title: 'Keys and remotes',
+    intro: 'Bluetooth clickers and USB foot pedals show up as keyboards. Click “+” and press a button on the remote or pedal to bind it.',
+    actions: {
+      toggleScroll: 'Start/pause scrolling',
+      toggleRecord: 'Start/stop recording',
+      speedUp: 'Speed up',
+      speedDown: 'Slow down',
+      nudgeBack: 'Nudge back',
+      nudgeForward: 'Nudge forward',
+      prevParagraph: 'Previous paragraph',
+      nextParagraph: 'Next paragraph',
+      resetScroll: 'Back to start'
+    },
+    space: 'Space',
+    pressKey: 'Press a key…'
+  },
+
+  meter: {
+    noMicrophone: 'No microphone available',
+    clippingShort: 'Clipping',
+    clipping: 'Clipping! Turn the volume down or move away from the microphone'
+  },
+
+  assistant: {
+    title: 'AI assistant',
+    tasks: {
+      rewrite: 'Make conversational',
+      shorten: 'Shorten',
+      hooks: 'Opening hooks',
+      translate: 'Translate'
+    },
+    targetLength: 'Target length (at the current speed)',
+    targetSummary: (duration, chars) => `Now about ${duration} · Target about ${chars} chars`,
+    languages: {
+      en: 'English',
+      'zh-Hant': 'Traditional Chinese',
+      ja: 'Japanese',
+      ko: 'Korean'
+    },
+    running: 'Generating… Click to cancel',
+    generate: 'Generate',
+    failed: message => `Generation failed: ${message}`,
+    sourceChanged: 'The script changed after this was generated; applying will overwrite those edits',
+    apply: 'Apply',
+    discard: 'Discard',
+    emptyResult: 'Nothing was returned'
+  },
+
+  typography: {
+    title: 'Text style',
+    previewText: '大家好，欢迎收看本期节目。\nThe quick brown fox jumps over the lazy dog.',
+    presets: 'Presets',
+    savePreset: 'Save current style',
+    presetNamePrompt: 'Preset name',
+    deletePreset: 'Delete preset',
+    confirmDeletePreset: name => `Delete the preset “${name}”?`,
+    builtInPresets: {
+      outdoor: 'Bright outdoors',
+      studio: 'Studio',
+      'beam-splitter': 'Beam splitter'
+    },
+    font: 'Font',
+    fonts: {
+      system: 'System default',
+      hei: 'Sans (Hei)',
+      song: 'Serif (Song)',
+      kai: 'Script (Kai)',
+      rounded: 'Rounded',
+      mono: 'Monospace'
+    },
+    weights: { 400: 'Regular', 600: 'Semibold', 800: 'Heavy' },
+    customColor: 'Custom color',
+    outline: 'Outline (bright light or light backgrounds)',
+    backdrop: 'Backdrop',
+    layout: 'Layout',
+    aligns: {
+      left: 'Left',
+      center: 'Center',
+      right: 'Right'
+    },
+    lineHeight: 'Line height',
+    lineHeightValue: value => `${value}×`,
+    letterSpacing: 'Letter spacing',
+    sideMargin: 'Side margins',
+    focusLine: 'Focus line',
+    focusLinePosition: 'Position (from top)',
+    highlightCurrentLine: 'Highlight the current line (dim the rest)'
+  },
+
+  sync: {
+    title: 'Team sync',
+    intro: 'Connect to your team’s own sync server to keep scripts, folders and common settings in sync across devices. Keep editing offline and changes merge when you’re back online; if two people edit the same script at once, the other version is saved as a “conflicted copy”.',
+    serverUrl: 'Server address',
+    token: 'Access token',
+    tokenPlaceholder: 'Created by an admin with npm run sync:user',
+    connect: 'Connect',
+    connecting: 'Connecting…',
+    unreachable: 'Can’t reach the server. Check the address.',
+    connectFailed: 'Connection failed',
+    member: 'Member',
+    server: 'Server',
+    statusLabel: 'Status',
+    lastSynced: 'Last synced',
+    status: {
+      off: 'Not connected',
+      idle: 'Synced',
+      syncing: 'Syncing…',
+      offline: 'Offline, will sync when back online',
+      error: 'Sync failed'
+    },
+    conflicts: count => `${plural(count, 'script conflicts', 'scripts conflict')} with someone else’s edits and ${count === 1 ? 'was' : 'were'} saved as a “conflicted copy”. Please review in the script library.`,
+    conflictCopyName: title => `${title} (conflicted copy)`,
+    syncNow: 'Sync now',
+    confirmDisconnect: 'Scripts on this device stay after disconnecting, but no longer sync with the team. Disconnect?',
+    disconnect: 'Disconnect',
+    invalidToken: 'The sync token is invalid. Ask an admin for a new one.',
+    serverError: status => `Sync server error (${status})`,
+    unexpectedResponse: 'The sync server returned an unexpected response'
+  }
+};
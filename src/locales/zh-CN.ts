@@ -0,0 +1,466 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Simplified Chinese, the source catalog: its shape is `Messages`, which every other
+// catalog must match key for key.
+
+import type { OverlayPosition, FontFamily, PaceMode, TextAlign } from '../types';
+import type { AspectRatioPreset, CameraStatus } from '../lib/mediaDevices';
+import type { AudioPreset } from '../lib/audioProcessing';
+import type { InputAction } from '../lib/inputBindings';
+import type { AssistantTask, TranslateLanguage } from '../lib/assistant';
+import type { BubbleShape } from '../lib/screenCompositor';
+import type { ScreenShareError } from '../hooks/useScreenRecording';
+import type { RemoteStatus } from '../hooks/useRemote';
+import type { SyncStatus } from '../hooks/useSync';
+
+export const zhCN = {
+  common: {
+    on: '开',
+    off: '关',
+    all: '全部',
+    retry: '重试',
+    cancel: '取消',
+    done: '完成',
+    gotIt: '知道了',
+    later: '稍后',
+    view: '查看',
+    show: '显示',
+    hide: '隐藏',
+    edit: '编辑',
+    rename: '重命名',
+    delete: '删除',
+    size: '大小',
+    opacity: '不透明度',
+    restoreDefaults: '恢复默认',
+    saveVideo: '保存视频',
+    scriptLibrary: '台词库',
+    takeGallery: '录像库',
+    copyShareLink: '复制分享链接',
+    seconds: (n: number) => `${n}秒`,
+    copyName: (name: string) => `${name} 副本`,
+    confirmDelete: (name: string) => `确定删除「${name}」吗？`,
+    positions: {
+      'top-left': '左上',
+      'top-right': '右上',
+      center: '居中',
+      'bottom-left': '左下',
+      'bottom-right': '右下'
+    } satisfies Record<OverlayPosition, string>
+  },
+
+  share: {
+    videoTitle: '提词器录制视频',
+    appTitle: '智能提词器',
+    appText: '推荐一个超好用的专业口播提词器！',
+    linkCopied: '应用链接已复制到剪贴板，快去分享给朋友吧！'
+  },
+
+  app: {
+    estimate: (duration: string) => `预计 ${duration}`,
+    remaining: (duration: string) => `剩 ${duration}`,
+    screenRecordingActive: '屏幕录制：录的是共享画面和摄像头小窗',
+    persistFailed: '存储空间不足，意外关闭时本段录像可能丢失',
+    interrupted: '录制期间曾切到后台，这段画面可能中断',
+    recordFailed: '无法开始录制：浏览器不支持当前画面的录制格式，或摄像头已断开',
+    recovered: (count: number) => `已恢复 ${count} 段意外中断的录制`,
+    updateReady: '有新版本可用',
+    reload: '刷新',
+    chooseOtherDevice: '选择其他设备',
+    prevParagraph: '上一段',
+    outline: '目录',
+    nextParagraph: '下一段',
+    install: '安装到主屏幕',
+    shareApp: '分享应用'
+  },
+
+  camera: {
+    requesting: {
+      title: '正在请求摄像头和麦克风权限…',
+      hint: '请在浏览器弹出的提示中选择“允许”。'
+    },
+    denied: {
+      title: '摄像头或麦克风权限被拒绝',
+      hint: '点击地址栏左侧的锁形或摄像头图标，把摄像头和麦克风改为“允许”后重试。iPhone 请在“设置 → Safari → 摄像头/麦克风”中开启。'
+    },
+    'no-device': {
+      title: '没有找到摄像头或麦克风',
+      hint: '请连接摄像头和麦克风，或在设备设置中选择其他设备后重试。'
+    },
+    'in-use': {
+      title: '摄像头正被其他应用占用',
+      hint: '请关闭正在使用摄像头的其他应用或浏览器标签页（如视频会议），然后重试。'
+    },
+    disconnected: {
+      title: '摄像头或麦克风已断开',
+      hint: '设备被拔出或被系统收回。重新连接后会自动恢复，也可以手动重试；正在进行的录制已停止，录下的部分保存在录像库中。'
+    },
+    unsupported: {
+      title: '当前浏览器无法使用摄像头',
+      hint: '摄像头只能在 HTTPS 或 localhost 下使用，请换用 HTTPS 地址，或使用最新版 Chrome、Safari、Edge 打开。'
+    },
+    error: {
+      title: '无法打开摄像头',
+      hint: '请重试；如果仍然失败，请重新启动浏览器。'
+    }
+  } satisfies Record<Exclude<CameraStatus, 'ready'>, { title: string; hint: string }>,
+
+  settings: {
+    title: '提词器设置',
+    fontSize: '字号',
+    speed: '滚动速度',
+    scrollModes: { fixed: '固定速度', voice: '跟随语音' },
+    noMicFallback: '未检测到麦克风，已使用固定速度滚动',
+    textColor: '文字颜色',
+    typographyLink: '字体、排版与预设',
+    countdown: '录制倒计时',
+    estimatedLength: (duration: string) => `预计时长 ${duration}`,
+    maxDuration: '最长录制时长（到时自动停止）',
+    unlimited: '不限',
+    audio: '音频处理',
+    audioRaw: '录制原始声音',
+    audioProcessed: '降噪 · 压缩 · 均衡 · 限幅',
+    mirrorLayout: '镜像与布局（分光镜提词器）',
+    layoutToggles: {
+      mirrorX: '水平镜像',
+      mirrorY: '垂直镜像',
+      hideCamera: '隐藏画面',
+      fullscreenText: '全屏文字'
+    },
+    notEnabled: '未开启',
+    screenSharing: '正在共享',
+    screenHint: '屏幕 + 摄像头小窗',
+    remotePeers: (count: number) => `已连接 ${count} 台`,
+    remoteConnecting: '连接中',
+    remoteHint: '另一台设备遥控',
+    bindingsHint: '翻页器 / 脚踏板',
+    language: '界面语言',
+    languageAuto: '跟随系统'
+  },
+
+  pace: {
+    modes: {
+      pixels: '像素/秒',
+      cpm: '字/分钟',
+      duration: '限时读完'
+    } satisfies Record<PaceMode, string>,
+    pixels: (n: number) => `${n} px/秒`,
+    cpm: (n: number) => `${n} 字/分钟`,
+    duration: (duration: string) => `${duration} 读完`
+  },
+
+  audioPresets: {
+    raw: '原声',
+    clear: '清晰人声',
+    warm: '温暖',
+    podcast: '播客'
+  } satisfies Record<AudioPreset, string>,
+
+  editor: {
+    title: '编辑台词',
+    dropToImport: '松开即可导入为新台词',
+    importFile: '导入文件',
+    exportJson: '导出 JSON（含设置）',
+    titlePlaceholder: '台词标题',
+    textPlaceholder: '请输入您的台词...',
+    markupHelp: {
+      intro: '标记语法（可选）：',
+      heading: '段落标题',
+      emphasis: '重点',
+      pause: '停顿',
+      cueExample: '展示产品',
+      cue: '提示'
+    }
+  },
+
+  result: {
+    title: '录制完成！',
+    savedToGallery: '已自动保存到录像库',
+    subtitles: '字幕',
+    subtitlesWithCount: (count: number) => `字幕（${count} 句）`,
+    convertToMp4: '转换为 MP4',
+    converting: '正在转换为 MP4…',
+    saveMp4: (size: string) => `保存 MP4（${size}）`,
+    convertFailed: (message: string) => `转换失败：${message}`,
+    retake: '重新录制'
+  },
+
+  library: {
+    welcomeTitle: '欢迎使用',
+    welcomeText: '欢迎使用智能提词器！点击右侧编辑按钮修改文字。您可以调节滚动速度、字体大小和颜色。录制完成后，视频将自动生成下载链接。',
+    untitled: '未命名台词',
+    fileName: '台词',
+    unfiled: '未分类',
+    folderNamePrompt: '文件夹名称',
+    newFolder: '新建文件夹',
+    renameFolder: '重命名文件夹',
+    deleteFolder: '删除文件夹',
+    confirmDeleteFolder: (name: string) => `确定删除文件夹「${name}」吗？其中的台词会移到「未分类」。`,
+    dropToImport: '松开即可导入 TXT / Markdown / Word / SRT / JSON',
+    importHint: '支持 TXT、Markdown、Word、SRT 字幕和导出的 JSON，也可以直接拖进来',
+    import: '导入',
+    create: '新建',
+    searchPlaceholder: '搜索标题或内容...',
+    noMatches: '没有找到匹配的台词',
+    emptyScript: '（空白）',
+    moveToFolder: '移动到文件夹',
+    exportJson: '导出 JSON',
+    duplicate: '复制',
+    importFailed: (name: string, message: string) => `导入「${name}」失败：${message}`,
+    shareLinkCopied: '分享链接已复制，对方打开即可直接使用这份台词和设置'
+  },
+
+  transfer: {
+    importedTitle: '导入的台词',
+    sharedTitle: '分享的台词',
+    unsupportedType: (extension: string) => `不支持的文件类型：.${extension}`,
+    unreadableWord: '无法读取该 Word 文件',
+    invalidJson: 'JSON 文件格式不正确',
+    notABundle: '这不是提词器导出的台词文件'
+  },
+
+  gallery: {
+    fileMissing: '录像文件已丢失',
+    confirmCleanup: (count: number, size: string) => `删除 ${count} 个未加星标的录像，释放 ${size}？`,
+    takesUsage: (size: string) => `录像占用 ${size}`,
+    storageUsage: (used: string, quota: string) => `浏览器存储已用 ${used} / ${quota}`,
+    cleanup: '清理未加星标',
+    filters: { all: '全部', script: '当前台词', starred: '星标' },
+    empty: '还没有录像',
+    star: '星标',
+    recoveredSuffix: '（已恢复）'
+  },
+
+  subtitles: {
+    title: (name: string) => `字幕 · ${name}`,
+    setToCurrentTime: '设为当前播放时间',
+    shiftEarlier: (seconds: number) => `整体提前 ${seconds} 秒`,
+    shiftLater: (seconds: number) => `整体延后 ${seconds} 秒`,
+    burnIn: '导出带字幕视频',
+    burningIn: (percent: number) => `正在生成 ${percent}% · 取消`,
+    burnedInName: (name: string) => `${name} 字幕版`,
+    saveBurnedIn: (size: string) => `保存带字幕视频（${size}）`,
+    burnInFailed: (message: string) => `生成失败：${message}`,
+    empty: '这段录像没有字幕：录制时台词没有滚动'
+  },
+
+  devices: {
+    title: '摄像头与麦克风',
+    unnamedDevice: (n: number) => `设备 ${n}`,
+    stereo: '立体声',
+    mono: '单声道',
+    camera: '摄像头',
+    cameraAuto: '自动（前/后置切换）',
+    microphone: '麦克风',
+    microphoneDefault: '系统默认',
+    resolution: '分辨率',
+    frameRate: '帧率',
+    aspectRatio: '画面比例',
+    aspectRatios: {
+      '16:9': '横屏',
+      '9:16': '竖屏',
+      '1:1': '方形'
+    } satisfies Record<AspectRatioPreset, string>,
+    actual: '当前实际参数',
+    cameraOff: '摄像头未开启',
+    labelsHidden: '允许访问摄像头和麦克风后才能看到设备名称。'
+  },
+
+  composite: {
+    title: '合成录制',
+    enableTitle: '把 LOGO、水印和字幕条录进视频',
+    lockedWhileRecording: '录制中无法切换',
+    disabledHint: '关闭时录制原始摄像头画面',
+    enabled: '已开启',
+    disabled: '已关闭',
+    defaultTemplate: '默认',
+    templates: '模板',
+    saveAs: '另存为',
+    templateNamePrompt: '模板名称',
+    confirmDeleteTemplate: (name: string) => `确定删除模板「${name}」吗？`,
+    changeImage: '更换图片',
+    watermark: '文字水印',
+    watermarkPlaceholder: '水印文字',
+    lowerThird: '人名条',
+    namePlaceholder: '姓名',
+    titlePlaceholder: '头衔 / 说明',
+    accentColor: '强调色',
+    mirror: '录制画面水平镜像'
+  },
+
+  screen: {
+    title: '屏幕录制',
+    intro: '录制共享的窗口或标签页，摄像头画面以小窗叠加在上面，适合软件教程。提词器只显示在本机屏幕上，不会被录进去——请共享要演示的窗口或标签页，而不是整个屏幕。开启后，录制按钮录的就是这里的画面（合成录制的 LOGO 等叠加不适用于屏幕录制）。',
+    unsupported: '当前浏览器或设备不支持屏幕共享，请在电脑上使用 Chrome、Edge、Firefox 或 Safari 打开。',
+    start: '选择要共享的屏幕',
+    stop: '停止共享，改回摄像头录制',
+    requesting: '请在浏览器中选择要共享的内容…',
+    lockedWhileRecording: '录制中不能切换共享内容',
+    monitorWarning: '正在共享整个屏幕，提词器窗口也会被录进去。建议停止后改为共享某个窗口或标签页。',
+    errors: {
+      denied: '已取消共享，或浏览器没有屏幕录制权限（macOS 需在“系统设置 → 隐私与安全性 → 屏幕录制”中允许浏览器）',
+      failed: '无法共享屏幕，请重试'
+    } satisfies Record<ScreenShareError, string>,
+    dragBubble: '拖动摄像头小窗',
+    resizeBubble: '拖动调整大小',
+    bubble: '摄像头小窗',
+    shapes: { circle: '圆形', rect: '矩形' } satisfies Record<BubbleShape, string>,
+    mirror: '镜像摄像头画面',
+    systemAudio: '录制电脑声音（下次共享时生效）'
+  },
+
+  remote: {
+    title: '双机模式',
+    introBefore: '本机负责录制，另一台平板或电脑可以实时编辑台词、控制滚动、调速和开始/停止录制。两台设备需连接同一局域网，并通过 ',
+    introAfter: ' 启动的本地服务打开本应用。',
+    enable: '开启双机模式',
+    disable: '关闭双机模式',
+    useAsController: '作为控制端',
+    peers: (count: number) => `已连接 ${count} 台控制设备`,
+    status: {
+      idle: '未开启',
+      connecting: '正在连接中继服务…',
+      connected: '等待控制端连接',
+      error: '无法连接中继服务，正在重试…'
+    } satisfies Record<RemoteStatus, string>,
+    linkHint: '在控制设备上打开以下链接，或在双机模式中选择“作为控制端”并输入配对码'
+  },
+
+  controller: {
+    title: '控制端',
+    connectTitle: '连接录制设备',
+    connectHint: '在录制设备的“双机模式”中查看六位配对码',
+    connect: '连接',
+    back: '返回提词器',
+    codeNotFound: '配对码无效或录制设备已关闭双机模式',
+    connecting: '正在连接…',
+    hostOffline: '录制设备已断开，等待重新连接…',
+    recording: '录制中',
+    connected: '已连接'
+  },
+
+  bindings: {
+    title: '按键与遥控器',
+    intro: '蓝牙翻页器和 USB 脚踏板会被识别为键盘。点击“+”后按下遥控器或脚踏板上的按键即可绑定。',
+    actions: {
+      toggleScroll: '开始/暂停滚动',
+      toggleRecord: '开始/停止录制',
+      speedUp: '加速',
+      speedDown: '减速',
+      nudgeBack: '微调后退',
+      nudgeForward: '微调前进',
+      prevParagraph: '上一段',
+      nextParagraph: '下一段',
+      resetScroll: '回到开头'
+    } satisfies Record<InputAction, string>,
+    space: '空格',
+    pressKey: '请按键…'
+  },
+
+  meter: {
+    noMicrophone: '没有可用的麦克风',
+    clippingShort: '爆音',
+    clipping: '爆音！请降低音量或远离麦克风'
+  },
+
+  assistant: {
+    title: 'AI 助手',
+    tasks: {
+      rewrite: '口语化改写',
+      shorten: '压缩时长',
+      hooks: '开场钩子',
+      translate: '翻译'
+    } satisfies Record<AssistantTask['type'], string>,
+    targetLength: '目标时长（按当前速度）',
+    targetSummary: (duration: string, chars: number) => `现在约 ${duration} · 目标约 ${chars} 字`,
+    languages: {
+      en: '英语',
+      'zh-Hant': '繁体中文',
+      ja: '日语',
+      ko: '韩语'
+    } satisfies Record<TranslateLanguage, string>,
+    running: '生成中… 点击取消',
+    generate: '生成',
+    failed: (message: string) => `生成失败：${message}`,
+    sourceChanged: '台词在生成后又被修改过，应用会覆盖这些修改',
+    apply: '应用',
+    discard: '放弃',
+    emptyResult: '没有返回内容'
+  },
+
+  typography: {
+    title: '文字样式',
+    previewText: '大家好，欢迎收看本期节目。\nThe quick brown fox jumps over the lazy dog.',
+    presets: '预设',
+    savePreset: '保存当前样式',
+    presetNamePrompt: '预设名称',
+    deletePreset: '删除预设',
+    confirmDeletePreset: (name: string) => `确定删除预设「${name}」吗？`,
+    builtInPresets: {
+      outdoor: '户外强光',
+      studio: '演播室',
+      'beam-splitter': '分光镜'
+    },
+    font: '字体',
+    fonts: {
+      system: '系统默认',
+      hei: '黑体',
+      song: '宋体',
+      kai: '楷体',
+      rounded: '圆体',
+      mono: '等宽'
+    } satisfies Record<FontFamily, string>,
+    weights: { 400: '常规', 600: '中粗', 800: '特粗' },
+    customColor: '自定义颜色',
+    outline: '描边（强光或浅色背景）',
+    backdrop: '背景遮罩',
+    layout: '排版',
+    aligns: {
+      left: '左对齐',
+      center: '居中',
+      right: '右对齐'
+    } satisfies Record<TextAlign, string>,
+    lineHeight: '行距',
+    lineHeightValue: (value: string) => `${value} 倍`,
+    letterSpacing: '字间距',
+    sideMargin: '左右边距',
+    focusLine: '焦点线',
+    focusLinePosition: '位置（距顶部）',
+    highlightCurrentLine: '高亮当前行（其余文字变暗）'
+  },
+
+  sync: {
+    title: '团队同步',
+    intro: '连接团队自建的同步服务后，台词、文件夹和常用设置会在各台设备间同步。断网时照常编辑，联网后自动合并；多人同时改动同一份台词时，另一份会保存为「冲突副本」。',
+    serverUrl: '服务器地址',
+    token: '访问令牌',
+    tokenPlaceholder: '由管理员通过 npm run sync:user 生成',
+    connect: '连接',
+    connecting: '正在连接…',
+    unreachable: '无法连接服务器，请检查地址',
+    connectFailed: '连接失败',
+    member: '成员',
+    server: '服务器',
+    statusLabel: '状态',
+    lastSynced: '上次同步',
+    status: {
+      off: '未连接',
+      idle: '已同步',
+      syncing: '正在同步…',
+      offline: '离线，联网后自动同步',
+      error: '同步失败'
+    } satisfies Record<SyncStatus, string>,
+    conflicts: (count: number) => `有 ${count} 份台词与他人的修改冲突，已另存为「冲突副本」，请在台词库中核对`,
+    conflictCopyName: (title: string) => `${title}（冲突副本）`,
+    syncNow: '立即同步',
+    confirmDisconnect: '断开后本机的台词仍会保留，但不再与团队同步。确定断开吗？',
+    disconnect: '断开',
+    invalidToken: '同步令牌无效，请向管理员重新获取',
+    serverError: (status: number) => `同步服务器出错（${status}）`,
+    unexpectedResponse: '同步服务器返回了意外的结果'
+  }
+};
+
+export type Messages = typeof zhCN;
@@ -0,0 +1,453 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Messages } from './zh-CN';
+
+export const zhTW: Messages = {
+  common: {
+    on: '開',
+    off: '關',
+    all: '全部',
+    retry: '重試',
+    cancel: '取消',
+    done: '完成',
+    gotIt: '知道了',
+    later: '稍後',
+    view: '查看',
+    show: '顯示',
+    hide: '隱藏',
+    edit: '編輯',
+    rename: '重新命名',
+    delete: '刪除',
+    size: '大小',
+    opacity: '不透明度',
+    restoreDefaults: '恢復預設',
+    saveVideo: '儲存影片',
+    scriptLibrary: '講稿庫',
+    takeGallery: '錄影庫',
+    copyShareLink: '複製分享連結',
+    seconds: n => `${n} 秒`,
+    copyName: name => `${name} 副本`,
+    confirmDelete: name => `確定刪除「${name}」嗎？`,
+    positions: {
+      'top-left': '左上',
+      'top-right': '右上',
+      center: '置中',
+      'bottom-left': '左下',
+      'bottom-right': '右下'
+    }
+  },
+
+  share: {
+    videoTitle: '提詞機錄製影片',
+    appTitle: '智慧提詞機',
+    appText: '推薦一款超好用的專業口播提詞機！',
+    linkCopied: '應用程式連結已複製到剪貼簿，快分享給朋友吧！'
+  },
+
+  app: {
+    estimate: duration => `預計 ${duration}`,
+    remaining: duration => `剩 ${duration}`,
+    screenRecordingActive: '螢幕錄製：錄下的是分享畫面和攝影機小窗',
+    persistFailed: '儲存空間不足，意外關閉時這段錄影可能遺失',
+    interrupted: '錄製期間曾切到背景，這段畫面可能中斷',
+    recordFailed: '無法開始錄製：瀏覽器不支援目前畫面的錄製格式，或攝影機已中斷連線',
+    recovered: count => `已復原 ${count} 段意外中斷的錄製`,
+    updateReady: '有新版本可用',
+    reload: '重新整理',
+    chooseOtherDevice: '選擇其他裝置',
+    prevParagraph: '上一段',
+    outline: '目錄',
+    nextParagraph: '下一段',
+    install: '加入主畫面',
+    shareApp: '分享應用程式'
+  },
+
+  camera: {
+    requesting: {
+      title: '正在要求攝影機和麥克風權限…',
+      hint: '請在瀏覽器跳出的提示中選擇「允許」。'
+    },
+    denied: {
+      title: '攝影機或麥克風權限被拒絕',
+      hint: '點選網址列左側的鎖頭或攝影機圖示，把攝影機和麥克風改為「允許」後重試。iPhone 請在「設定 → Safari → 相機／麥克風」中開啟。'
+    },
+    'no-device': {
+      title: '找不到攝影機或麥克風',
+      hint: '請連接攝影機和麥克風，或在裝置設定中選擇其他裝置後重試。'
+    },
+    'in-use': {
+      title: '攝影機正被其他應用程式佔用',
+      hint: '請關閉正在使用攝影機的其他應用程式或瀏覽器分頁（例如視訊會議），然後重試。'
+    },
+    disconnected: {
+      title: '攝影機或麥克風已中斷連線',
+      hint: '裝置被拔除或被系統收回。重新連接後會自動恢復，也可以手動重試；進行中的錄製已停止，錄下的部分保存在錄影庫中。'
+    },
+    unsupported: {
+      title: '目前的瀏覽器無法使用攝影機',
+      hint: '攝影機只能在 HTTPS 或 localhost 下使用，請改用 HTTPS 網址，或使用最新版 Chrome、Safari、Edge 開啟。'
+    },
+    error: {
+      title: '無法開啟攝影機',
+      hint: '請重試；如果仍然失敗，請重新啟動瀏覽器。'
+    }
+  },
+
+  settings: {
+    title: '提詞機設定',
+    fontSize: '字級',
+    speed: '捲動速度',
+    scrollModes: { fixed: '固定速度', voice: '跟隨語音' },
+    noMicFallback: '未偵測到麥克風，已改用固定速度捲動',
+    textColor: '文字顏色',
+    typographyLink: '字型、排版與預設組合',
+    countdown: '錄製倒數',
+    estimatedLength: duration => `預計時長 ${duration}`,
+    maxDuration: '最長錄製時間（時間到自動停止）',
+    unlimited: '不限',
+    audio: '音訊處理',
+    audioRaw: '錄製原始聲音',
+    audioProcessed: '降噪 · 壓縮 · 等化 · 限幅',
+    mirrorLayout: '鏡像與版面（分光鏡提詞機）',
+    layoutToggles: {
+      mirrorX: '水平鏡像',
+      mirrorY: '垂直鏡像',
+      hideCamera: '隱藏畫面',
+      fullscreenText: '全螢幕文字'
+    },
+    notEnabled: '未開啟',
+    screenSharing: '分享中',
+    screenHint: '螢幕 + 攝影機小窗',
+    remotePeers: count => `已連線 ${count} 台`,
+    remoteConnecting: '連線中',
+    remoteHint: '用另一台裝置遙控',
+    bindingsHint: '簡報器 / 腳踏板',
+    language: '介面語言',
+    languageAuto: '跟隨系統'
+  },
+
+  pace: {
+    modes: {
+      pixels: '像素/秒',
+      cpm: '字/分鐘',
+      duration: '限時讀完'
+    },
+    pixels: n => `${n} px/秒`,
+    cpm: n => `${n} 字/分鐘`,
+    duration: duration => `${duration} 讀完`
+  },
+
+  audioPresets: {
+    raw: '原音',
+    clear: '清晰人聲',
+    warm: '溫暖',
+    podcast: 'Podcast'
+  },
+
+  editor: {
+    title: '編輯講稿',
+    dropToImport: '放開即可匯入為新講稿',
+    importFile: '匯入檔案',
+    exportJson: '匯出 JSON（含設定）',
+    titlePlaceholder: '講稿標題',
+    textPlaceholder: '請輸入您的講稿...',
+    markupHelp: {
+      intro: '標記語法（選用）：',
+      heading: '段落標題',
+      emphasis: '重點',
+      pause: '停頓',
+      cueExample: '展示產品',
+      cue: '提示'
+    }
+  },
+
+  result: {
+    title: '錄製完成！',
+    savedToGallery: '已自動儲存到錄影庫',
+    subtitles: '字幕',
+    subtitlesWithCount: count => `字幕（${count} 句）`,
+    convertToMp4: '轉換為 MP4',
+    converting: '正在轉換為 MP4…',
+    saveMp4: size => `儲存 MP4（${size}）`,
+    convertFailed: message => `轉換失敗：${message}`,
+    retake: '重新錄製'
+  },
+
+  library: {
+    welcomeTitle: '歡迎使用',
+    welcomeText: '歡迎使用智慧提詞機！點選右側的編輯按鈕修改文字。您可以調整捲動速度、字級和顏色。錄製完成後，會自動產生影片下載連結。',
+    untitled: '未命名講稿',
+    fileName: '講稿',
+    unfiled: '未分類',
+    folderNamePrompt: '資料夾名稱',
+    newFolder: '新增資料夾',
+    renameFolder: '重新命名資料夾',
+    deleteFolder: '刪除資料夾',
+    confirmDeleteFolder: name => `確定刪除資料夾「${name}」嗎？其中的講稿會移到「未分類」。`,
+    dropToImport: '放開即可匯入 TXT / Markdown / Word / SRT / JSON',
+    importHint: '支援 TXT、Markdown、Word、SRT 字幕和匯出的 JSON，也可以直接拖進來',
+    import: '匯入',
+    create: '新增',
+    searchPlaceholder: '搜尋標題或內容...',
+    noMatches: '找不到符合的講稿',
+    emptyScript: '（空白）',
+    moveToFolder: '移到資料夾',
+    exportJson: '匯出 JSON',
+    duplicate: '複製',
+    importFailed: (name, message) => `匯入「${name}」失敗：${message}`,
+    shareLinkCopied: '分享連結已複製，對方開啟即可直接使用這份講稿和設定'
+  },
+
+  transfer: {
+    importedTitle: '匯入的講稿',
+    sharedTitle: '分享的講稿',
+    unsupportedType: extension => `不支援的檔案類型：.${extension}`,
+    unreadableWord: '無法讀取這個 Word 檔案',
+    invalidJson: 'JSON 檔案格式不正確',
+    notABundle: '這不是提詞機匯出的講稿檔案'
+  },
+
+  gallery: {
+    fileMissing: '錄影檔案已遺失',
+    confirmCleanup: (count, size) => `刪除 ${count} 個未加星號的錄影，釋放 ${size}？`,
+    takesUsage: size => `錄影佔用 ${size}`,
+    storageUsage: (used, quota) => `瀏覽器儲存空間已用 ${used} / ${quota}`,
+    cleanup: '清除未加星號',
+    filters: { all: '全部', script: '目前講稿', starred: '星號' },
+    empty: '還沒有錄影',
+    star: '星號',
+    recoveredSuffix: '（已復原）'
+  },
+
+  subtitles: {
+    title: name => `字幕 · ${name}`,
+    setToCurrentTime: '設為目前播放時間',
+    shiftEarlier: seconds => `整體提前 ${seconds} 秒`,
+    shiftLater: seconds => `整體延後 ${seconds} 秒`,
+    burnIn: '匯出內嵌字幕影片',
+    burningIn: percent => `正在產生 ${percent}% · 取消`,
+    burnedInName: name => `${name} 字幕版`,
+    saveBurnedIn: size => `儲存內嵌字幕影片（${size}）`,
+    burnInFailed: message => `產生失敗：${message}`,
+    empty: '這段錄影沒有字幕：錄製時講稿沒有捲動'
+  },
+
+  devices: {
+    title: '攝影機與麥克風',
+    unnamedDevice: n => `裝置 ${n}`,
+    stereo: '立體聲',
+    mono: '單聲道',
+    camera: '攝影機',
+    cameraAuto: '自動（前/後鏡頭切換）',
+    microphone: '麥克風',
+    microphoneDefault: '系統預設',
+    resolution: '解析度',
+    frameRate: '影格率',
+    aspectRatio: '畫面比例',
+    aspectRatios: {
+      '16:9': '橫向',
+      '9:16': '直向',
+      '1:1': '方形'
+    },
+    actual: '目前實際參數',
+    cameraOff: '攝影機未開啟',
+    labelsHidden: '允許存取攝影機和麥克風後才能看到裝置名稱。'
+  },
+
+  composite: {
+    title: '合成錄製',
+    enableTitle: '把 LOGO、浮水印和字幕條錄進影片',
+    lockedWhileRecording: '錄製中無法切換',
+    disabledHint: '關閉時錄製原始攝影機畫面',
+    enabled: '已開啟',
+    disabled: '已關閉',
+    defaultTemplate: '預設',
+    templates: '範本',
+    saveAs: '另存為',
+    templateNamePrompt: '範本名稱',
+    confirmDeleteTemplate: name => `確定刪除範本「${name}」嗎？`,
+    changeImage: '更換圖片',
+    watermark: '文字浮水印',
+    watermarkPlaceholder: '浮水印文字',
+    lowerThird: '人名條',
+    namePlaceholder: '姓名',
+    titlePlaceholder: '職稱 / 說明',
+    accentColor: '強調色',
+    mirror: '錄製畫面水平鏡像'
+  },
+
+  screen: {
+    title: '螢幕錄製',
+    intro: '錄製分享的視窗或分頁，攝影機畫面以小窗疊加在上面，適合軟體教學。提詞機只顯示在本機螢幕上，不會被錄進去——請分享要示範的視窗或分頁，而不是整個螢幕。開啟後，錄製按鈕錄的就是這裡的畫面（合成錄製的 LOGO 等疊加不適用於螢幕錄製）。',
+    unsupported: '目前的瀏覽器或裝置不支援螢幕分享，請在電腦上使用 Chrome、Edge、Firefox 或 Safari 開啟。',
+    start: '選擇要分享的螢幕',
+    stop: '停止分享，改回攝影機錄製',
+    requesting: '請在瀏覽器中選擇要分享的內容…',
+    lockedWhileRecording: '錄製中無法切換分享內容',
+    monitorWarning: '正在分享整個螢幕，提詞機視窗也會被錄進去。建議停止後改為分享某個視窗或分頁。',
+    errors: {
+      denied: '已取消分享，或瀏覽器沒有螢幕錄製權限（macOS 需在「系統設定 → 隱私權與安全性 → 螢幕錄製」中允許瀏覽器）',
+      failed: '無法分享螢幕，請重試'
+    },
+    dragBubble: '拖曳攝影機小窗',
+    resizeBubble: '拖曳調整大小',
+    bubble: '攝影機小窗',
+    shapes: { circle: '圓形', rect: '矩形' },
+    mirror: '鏡像攝影機畫面',
+    systemAudio: '錄製電腦聲音（下次分享時生效）'
+  },
+
+  remote: {
+    title: '雙機模式',
+    introBefore: '本機負責錄製，另一台平板或電腦可以即時編輯講稿、控制捲動、調速和開始/停止錄製。兩台裝置需連接同一區域網路，並透過 ',
+    introAfter: ' 啟動的本機服務開啟本應用程式。',
+    enable: '開啟雙機模式',
+    disable: '關閉雙機模式',
+    useAsController: '作為控制端',
+    peers: count => `已連線 ${count} 台控制裝置`,
+    status: {
+      idle: '未開啟',
+      connecting: '正在連線中繼服務…',
+      connected: '等待控制端連線',
+      error: '無法連線中繼服務，正在重試…'
+    },
+    linkHint: '在控制裝置上開啟以下連結，或在雙機模式中選擇「作為控制端」並輸入配對碼'
+  },
+
+  controller: {
+    title: '控制端',
+    connectTitle: '連線錄製裝置',
+    connectHint: '在錄製裝置的「雙機模式」中查看六位數配對碼',
+    connect: '連線',
+    back: '返回提詞機',
+    codeNotFound: '配對碼無效，或錄製裝置已關閉雙機模式',
+    connecting: '正在連線…',
+    hostOffline: '錄製裝置已中斷連線，等待重新連線…',
+    recording: '錄製中',
+    connected: '已連線'
+  },
+
+  bindings: {
+    title: '按鍵與遙控器',
+    intro: '藍牙簡報器和 USB 腳踏板會被辨識為鍵盤。點選「+」後按下遙控器或腳踏板上的按鍵即可綁定。',
+    actions: {
+      toggleScroll: '開始/暫停捲動',
+      toggleRecord: '開始/停止錄製',
+      speedUp: '加速',
+      speedDown: '減速',
+      nudgeBack: '微調後退',
+      nudgeForward: '微調前進',
+      prevParagraph: '上一段',
+      nextParagraph: '下一段',
+      resetScroll: '回到開頭'
+    },
+    space: '空白鍵',
+    pressKey: '請按鍵…'
+  },
+
+  meter: {
+    noMicrophone: '沒有可用的麥克風',
+    clippingShort: '爆音',
+    clipping: '爆音！請降低音量或遠離麥克風'
+  },
+
+  assistant: {
+    title: 'AI 助理',
+    tasks: {
+      rewrite: '口語化改寫',
+      shorten: '壓縮時長',
+      hooks: '開場鉤子',
+      translate: '翻譯'
+    },
+    targetLength: '目標時長（依目前速度）',
+    targetSummary: (duration, chars) => `目前約 ${duration} · 目標約 ${chars} 字`,
+    languages: {
+      en: '英文',
+      'zh-Hant': '繁體中文',
+      ja: '日文',
+      ko: '韓文'
+    },
+    running: '產生中… 點選取消',
+    generate: '產生',
+    failed: message => `產生失敗：${message}`,
+    sourceChanged: '講稿在產生後又被修改過，套用會覆蓋這些修改',
+    apply: '套用',
+    discard: '捨棄',
+    emptyResult: '沒有傳回內容'
+  },
+
+  typography: {
+    title: '文字樣式',
+    previewText: '大家好，歡迎收看本期節目。\nThe quick brown fox jumps over the lazy dog.',
+    presets: '預設組合',
+    savePreset: '儲存目前樣式',
+    presetNamePrompt: '預設組合名稱',
+    deletePreset: '刪除預設組合',
+    confirmDeletePreset: name => `確定刪除預設組合「${name}」嗎？`,
+    builtInPresets: {
+      outdoor: '戶外強光',
+      studio: '攝影棚',
+      'beam-splitter': '分光鏡'
+    },
+    font: '字型',
+    fonts: {
+      system: '系統預設',
+      hei: '黑體',
+      song: '宋體',
+      kai: '楷體',
+      rounded: '圓體',
+      mono: '等寬'
+    },
+    weights: { 400: '標準', 600: '中粗', 800: '特粗' },
+    customColor: '自訂顏色',
+    outline: '描邊（強光或淺色背景）',
+    backdrop: '背景遮罩',
+    layout: '排版',
+    aligns: {
+      left: '靠左',
+      center: '置中',
+      right: '靠右'
+    },
+    lineHeight: '行距',
+    lineHeightValue: value => `${value} 倍`,
+    letterSpacing: '字距',
+    sideMargin: '左右邊距',
+    focusLine: '焦點線',
+    focusLinePosition: '位置（距頂部）',
+    highlightCurrentLine: '醒目提示目前行（其餘文字變暗）'
+  },
+
+  sync: {
+    title: '團隊同步',
+    intro: '連線到團隊自架的同步服務後，講稿、資料夾和常用設定會在各台裝置間同步。離線時照常編輯，連網後自動合併；多人同時修改同一份講稿時，另一份會儲存為「衝突副本」。',
+    serverUrl: '伺服器位址',
+    token: '存取權杖',
+    tokenPlaceholder: '由管理員透過 npm run sync:user 產生',
+    connect: '連線',
+    connecting: '正在連線…',
+    unreachable: '無法連線到伺服器，請檢查位址',
+    connectFailed: '連線失敗',
+    member: '成員',
+    server: '伺服器',
+    statusLabel: '狀態',
+    lastSynced: '上次同步',
+    status: {
+      off: '未連線',
+      idle: '已同步',
+      syncing: '正在同步…',
+      offline: '離線，連網後自動同步',
+      error: '同步失敗'
+    },
+    conflicts: count => `有 ${count} 份講稿與他人的修改衝突，已另存為「衝突副本」，請在講稿庫中核對`,
+    conflictCopyName: title => `${title}（衝突副本）`,
+    syncNow: '立即同步',
+    confirmDisconnect: '中斷連線後本機的講稿仍會保留，但不再與團隊同步。確定中斷連線嗎？',
+    disconnect: '中斷連線',
+    invalidToken: '同步權杖無效，請向管理員重新取得',
+    serverError: status => `同步伺服器發生錯誤（${status}）`,
+    unexpectedResponse: '同步伺服器傳回了非預期的結果'
+  }
+};
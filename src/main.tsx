@@ -1,10 +1,14 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import {RemoteController} from './components/RemoteController.tsx';
 import './index.css';
 
+// ?controller[=<code>] turns this device into the remote for a paired recording device
+const params = new URLSearchParams(window.location.search);
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {params.has('controller') ? <RemoteController initialCode={params.get('controller')} /> : <App />}
   </StrictMode>,
 );
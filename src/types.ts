@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type ScrollMode = 'fixed' | 'voice';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+/** Font stacks are listed in typography.ts; only fonts already on the device are used. */
+export type FontFamily = 'system' | 'hei' | 'song' | 'kai' | 'rounded' | 'mono';
+
+/** How fixed-speed scrolling is set: by pixels, by reading rate, or by total duration. */
+export type PaceMode = 'pixels' | 'cpm' | 'duration';
+
+export interface TeleprompterConfig {
+  fontSize: number;
+  color: string;
+  fontFamily: FontFamily;
+  fontWeight: number;
+  /** Multiple of the font size */
+  lineHeight: number;
+  /** In em */
+  letterSpacing: number;
+  textAlign: TextAlign;
+  /** Left and right padding of the text, in px */
+  sideMargin: number;
+  /** Dark stroke around letters for bright backgrounds, in px; 0 = drop shadow only */
+  outlineWidth: number;
+  /** Fraction of the prompter box height from the top */
+  focusLinePosition: number;
+  focusLineColor: string;
+  highlightCurrentLine: boolean;
+  /** 1–10 slider used by the pixels pace */
+  speed: number;
+  opacity: number;
+  scrollMode: ScrollMode;
+  paceMode: PaceMode;
+  charsPerMinute: number;
+  /** Whole-script duration for the duration pace, in seconds */
+  targetSeconds: number;
+  mirrorX: boolean;
+  mirrorY: boolean;
+  hideCamera: boolean;
+  fullscreenText: boolean;
+}
+
+export interface Script {
+  id: string;
+  title: string;
+  text: string;
+  config: TeleprompterConfig;
+  createdAt: number;
+  updatedAt: number;
+  folderId?: string | null;
+  /** Server revision this copy is based on; unset until first synced */
+  revision?: number;
+  /** Edited since the last sync */
+  dirty?: boolean;
+}
+
+/** A shared folder for grouping scripts; synced like scripts. */
+export interface ScriptFolder {
+  id: string;
+  name: string;
+  createdAt: number;
+  revision?: number;
+  dirty?: boolean;
+}
+
+/** One subtitle line, in seconds from the start of the recording. */
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** A finished recording and what it was recorded against. */
+export interface RecordedTake {
+  url: string;
+  blob: Blob;
+  mimeType: string;
+  scriptId: string;
+  scriptTitle: string;
+  startedAt: number;
+  duration: number;
+  /** Aligned from the scroll position while recording */
+  cues?: SubtitleCue[];
+  /** Session in recordingStore.ts whose chunks back this take until it reaches the gallery */
+  recordingId?: string;
+  /** Rebuilt from chunks after the app was closed mid-recording */
+  recovered?: boolean;
+}
+
+/** A take saved to the local gallery; the video blob is stored separately under the same id. */
+export interface Take {
+  id: string;
+  name: string;
+  scriptId: string;
+  scriptTitle: string;
+  createdAt: number;
+  duration: number;
+  mimeType: string;
+  size: number;
+  thumbnail?: Blob;
+  /** 0 = unrated, 1–5 stars */
+  rating: number;
+  starred: boolean;
+  cues?: SubtitleCue[];
+}
+
+export type OverlayPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+/** Branding drawn into composited recordings; saved as reusable templates. */
+export interface OverlayTemplate {
+  id: string;
+  name: string;
+  logo: {
+    enabled: boolean;
+    /** Custom image; falls back to /logo.png */
+    image?: Blob;
+    position: OverlayPosition;
+    /** Width as a fraction of the frame width */
+    size: number;
+    opacity: number;
+  };
+  watermark: {
+    enabled: boolean;
+    text: string;
+    position: OverlayPosition;
+    opacity: number;
+  };
+  lowerThird: {
+    enabled: boolean;
+    name: string;
+    title: string;
+    accent: string;
+  };
+  /** Mirror the camera picture in the recorded file */
+  mirror: boolean;
+}
+
+export const DEFAULT_CONFIG: TeleprompterConfig = {
+  fontSize: 32,
+  color: '#ffffff',
+  fontFamily: 'system',
+  fontWeight: 600,
+  lineHeight: 1.5,
+  letterSpacing: 0,
+  textAlign: 'center',
+  sideMargin: 32,
+  outlineWidth: 0,
+  focusLinePosition: 0.5,
+  focusLineColor: '#10b981',
+  highlightCurrentLine: false,
+  speed: 2,
+  opacity: 0.4,
+  scrollMode: 'fixed',
+  paceMode: 'pixels',
+  charsPerMinute: 240,
+  targetSeconds: 60,
+  mirrorX: false,
+  mirrorY: false,
+  hideCamera: false,
+  fullscreenText: false
+};
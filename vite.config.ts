@@ -2,13 +2,16 @@ import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
 import {defineConfig, loadEnv} from 'vite';
+import {pwa} from './pwa/plugin';
 
 export default defineConfig(({mode}) => {
   const env = loadEnv(mode, '.', '');
   return {
-    plugins: [react(), tailwindcss()],
+    plugins: [react(), tailwindcss(), pwa()],
     define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      // Missing keys become '' so the script assistant can switch itself off
+      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY ?? ''),
+      'process.env.ASSISTANT_API_URL': JSON.stringify(env.ASSISTANT_API_URL ?? ''),
     },
     resolve: {
       alias: {
@@ -19,6 +22,14 @@ export default defineConfig(({mode}) => {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
+      // Two-device relay and sync API run in the local server (npm start)
+      proxy: {
+        '/relay': {
+          target: `ws://localhost:${env.PORT || 8080}`,
+          ws: true,
+        },
+        '/api': `http://localhost:${env.PORT || 8080}`,
+      },
     },
   };
 });